@@ -29,9 +29,24 @@ import { getTargetedRecommendations, riskState } from "@/lib/calculations";
 import { formatNumber, formatUsd } from "@/lib/format";
 import {
   DEFAULT_PROTOCOL,
+  isAaveFork,
   PROTOCOL_LABELS,
   Protocol,
+  SUPPORTED_PROTOCOLS,
 } from "@/lib/protocols";
+import { AAVE_CHAINS } from "@/lib/aave/chains";
+import { getAaveForkChains } from "@/lib/aave/forks";
+import {
+  CompoundChain,
+  DEFAULT_COMPOUND_MARKET,
+  getCompoundMarkets,
+} from "@/lib/compound/chains";
+import {
+  DEFAULT_MORPHO_CHAIN,
+  MorphoChain,
+  parseMorphoMarketId,
+  SUPPORTED_MORPHO_CHAINS,
+} from "@/lib/morpho/chains";
 
 export default function DashboardPage() {
   const { wallets, loading, addWallet, updateTargets, removeWallet } =
@@ -40,6 +55,8 @@ export default function DashboardPage() {
   const [label, setLabel] = useState("");
   const [chain, setChain] = useState("polygon");
   const [protocol, setProtocol] = useState<Protocol>(DEFAULT_PROTOCOL);
+  const [market, setMarket] = useState(DEFAULT_COMPOUND_MARKET);
+  const [morphoMarketId, setMorphoMarketId] = useState("");
   const [error, setError] = useState<string | null>(null);
   const [dialogOpen, setDialogOpen] = useState(false);
   const [summary, setSummary] = useState<
@@ -87,12 +104,28 @@ export default function DashboardPage() {
   const onProtocolChange = (value: string) => {
     const nextProtocol = value as Protocol;
     setProtocol(nextProtocol);
+    if (isAaveFork(nextProtocol)) {
+      const chains = getAaveForkChains(nextProtocol);
+      if (!chains.includes(chain as (typeof chains)[number])) {
+        setChain(chains[0]);
+      }
+    } else if (nextProtocol === "morpho") {
+      if (!SUPPORTED_MORPHO_CHAINS.includes(chain as MorphoChain)) {
+        setChain(DEFAULT_MORPHO_CHAIN);
+      }
+    } else if (chain !== "arbitrum" && chain !== "base") {
+      setChain("arbitrum");
+    }
+    setMarket(DEFAULT_COMPOUND_MARKET);
+  };
+
+  const onChainChange = (value: string) => {
+    setChain(value);
     if (
-      nextProtocol === "compound" &&
-      chain !== "arbitrum" &&
-      chain !== "base"
+      protocol === "compound" &&
+      !getCompoundMarkets(value as CompoundChain).includes(market)
     ) {
-      setChain("arbitrum");
+      setMarket(DEFAULT_COMPOUND_MARKET);
     }
   };
 
@@ -104,11 +137,23 @@ export default function DashboardPage() {
       setError("Address inválido.");
       return;
     }
+    const morphoMarket =
+      protocol === "morpho" ? parseMorphoMarketId(morphoMarketId.trim()) : null;
+    if (protocol === "morpho" && !morphoMarket) {
+      setError("Market id inválido (bytes32 0x…).");
+      return;
+    }
     const { error, errorMessage } = await addWallet({
       address: trimmed,
       label,
       chain,
       protocol,
+      market:
+        protocol === "compound"
+          ? market
+          : protocol === "morpho"
+            ? morphoMarket
+            : null,
     });
     if (error) {
       setError(errorMessage ?? "Não foi possível adicionar a wallet.");
@@ -116,6 +161,7 @@ export default function DashboardPage() {
     }
     setAddress("");
     setLabel("");
+    setMorphoMarketId("");
     setDialogOpen(false);
   };
 
@@ -183,7 +229,7 @@ export default function DashboardPage() {
   }, [historyDays, historyFilter]);
 
   useEffect(() => {
-    const aaveWallets = wallets.filter((w) => w.protocol === "aave");
+    const aaveWallets = wallets.filter((w) => isAaveFork(w.protocol));
     if (!aaveWallets.length) {
       setBorrowRepayEvents([]);
       return;
@@ -465,27 +511,33 @@ export default function DashboardPage() {
                     <SelectValue placeholder="Seleciona o protocolo" />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="aave">
-                      {PROTOCOL_LABELS.aave}
-                    </SelectItem>
-                    <SelectItem value="compound">
-                      {PROTOCOL_LABELS.compound}
-                    </SelectItem>
+                    {SUPPORTED_PROTOCOLS.map((item) => (
+                      <SelectItem key={item} value={item}>
+                        {PROTOCOL_LABELS[item]}
+                      </SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
               <div className="space-y-2">
                 <Label>Chain</Label>
-                <Select value={chain} onValueChange={setChain}>
+                <Select value={chain} onValueChange={onChainChange}>
                   <SelectTrigger>
                     <SelectValue placeholder="Seleciona a chain" />
                   </SelectTrigger>
                   <SelectContent>
-                    {protocol === "aave" ? (
-                      <>
-                        <SelectItem value="polygon">Polygon</SelectItem>
-                        <SelectItem value="arbitrum">Arbitrum</SelectItem>
-                      </>
+                    {isAaveFork(protocol) ? (
+                      getAaveForkChains(protocol).map((item) => (
+                        <SelectItem key={item} value={item}>
+                          {AAVE_CHAINS[item].label}
+                        </SelectItem>
+                      ))
+                    ) : protocol === "morpho" ? (
+                      SUPPORTED_MORPHO_CHAINS.map((item) => (
+                        <SelectItem key={item} value={item}>
+                          {AAVE_CHAINS[item].label}
+                        </SelectItem>
+                      ))
                     ) : (
                       <>
                         <SelectItem value="arbitrum">Arbitrum</SelectItem>
@@ -495,6 +547,37 @@ export default function DashboardPage() {
                   </SelectContent>
                 </Select>
               </div>
+              {protocol === "compound" ? (
+                <div className="space-y-2">
+                  <Label>Market</Label>
+                  <Select value={market} onValueChange={setMarket}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Seleciona o market" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {getCompoundMarkets(chain as CompoundChain).map(
+                        (item) => (
+                          <SelectItem key={item} value={item}>
+                            {item}
+                          </SelectItem>
+                        ),
+                      )}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ) : null}
+              {protocol === "morpho" ? (
+                <div className="space-y-2">
+                  <Label htmlFor="wallet-morpho-market">Market id</Label>
+                  <Input
+                    id="wallet-morpho-market"
+                    placeholder="0x… (bytes32 do market Morpho Blue)"
+                    value={morphoMarketId}
+                    onChange={(event) => setMorphoMarketId(event.target.value)}
+                    required
+                  />
+                </div>
+              ) : null}
               <Button type="submit">Guardar estratégia</Button>
               {error ? (
                 <p className="text-sm text-red-500">{error}</p>
@@ -537,6 +620,7 @@ export default function DashboardPage() {
                 name={wallet.label ?? "Sem nome"}
                 chain={wallet.chain}
                 protocol={wallet.protocol}
+                market={wallet.market}
                 onData={(data) =>
                   setSummary((prev) => {
                     const current = prev[wallet.id];
@@ -912,6 +996,7 @@ function StrategySummaryRow({
   name,
   chain,
   protocol,
+  market,
   onData,
   hfMin,
   hfMax,
@@ -921,6 +1006,7 @@ function StrategySummaryRow({
   name: string;
   chain: string;
   protocol: Protocol;
+  market: string | null;
   onData: (data: {
     collateralUsd: number;
     debtUsd: number;
@@ -935,8 +1021,11 @@ function StrategySummaryRow({
   hfMin: number;
   hfMax: number;
 }) {
-  const { data } = useProtocolAccountData(address, chain, protocol);
+  const { data } = useProtocolAccountData(address, chain, protocol, market);
   const hasData = Boolean(data);
+  // Market ids Morpho são bytes32: mostrar o par COLL/LOAN
+  const marketLabel =
+    protocol === "morpho" ? data?.market?.label ?? market?.slice(0, 10) : market;
   const collateralUsd = hasData ? data.totalCollateralUsd ?? 0 : Number.NaN;
   const debtUsd = hasData ? data.totalDebtUsd ?? 0 : Number.NaN;
   const lt = hasData ? data.currentLiquidationThreshold ?? 0 : 0;
@@ -1058,7 +1147,10 @@ function StrategySummaryRow({
       <span>{formatUsd(debtUsd)}</span>
       <span>{Number.isFinite(hf) ? formatNumber(hf, 2) : "-"}</span>
       <span>{PROTOCOL_LABELS[protocol]}</span>
-      <span className="uppercase text-muted-foreground">{chain}</span>
+      <span className="uppercase text-muted-foreground">
+        {chain}
+        {marketLabel ? ` · ${marketLabel}` : ""}
+      </span>
       <span>
         <Badge variant={statusVariant} className={statusClassName}>
           {status}
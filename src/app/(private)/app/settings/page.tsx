@@ -1,31 +1,588 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 
+import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useUserPreferences } from "@/hooks/useUserPreferences";
+import type { AaveChain } from "@/lib/aave/addresses";
+import { AAVE_CHAINS, SUPPORTED_AAVE_CHAINS } from "@/lib/aave/chains";
+import { DEFAULT_RATE_DISPLAY, parseRateDisplay, RateDisplay } from "@/lib/calculations";
+import { BORROW_CANDIDATES } from "@/lib/constants";
+import { NOTIFICATION_CHANNEL_TYPES, NotificationChannelType } from "@/lib/notifications/types";
 
-const DEFAULT_RPC = "https://polygon-rpc.com";
+type RpcEndpoint = {
+  chain: AaveChain;
+  url: string;
+  chain_id: number;
+  updated_at: string;
+};
+
+type NotificationChannelView = {
+  id: string;
+  type: NotificationChannelType;
+  name: string;
+  config: Record<string, string>;
+  enabled: boolean;
+};
+
+type NotificationDelivery = {
+  id: string;
+  channel_type: NotificationChannelType;
+  subject: string;
+  status: "sent" | "failed";
+  error: string | null;
+  created_at: string;
+};
+
+// Campo principal da config de cada tipo
+const CHANNEL_FIELDS: Record<
+  NotificationChannelType,
+  { key: string; label: string; placeholder: string }
+> = {
+  email: { key: "to", label: "Email", placeholder: "eu@exemplo.com" },
+  telegram: { key: "chatId", label: "Chat id", placeholder: "123456789" },
+  discord: {
+    key: "url",
+    label: "Webhook URL",
+    placeholder: "https://discord.com/api/webhooks/...",
+  },
+  slack: {
+    key: "url",
+    label: "Webhook URL",
+    placeholder: "https://hooks.slack.com/services/...",
+  },
+  webhook: { key: "url", label: "URL", placeholder: "https://..." },
+};
+
+const CHANNEL_LABELS: Record<NotificationChannelType, string> = {
+  email: "Email",
+  telegram: "Telegram",
+  discord: "Discord",
+  slack: "Slack",
+  webhook: "Webhook",
+};
+
+function formatDateTime(value: string | null) {
+  return value ? new Date(value).toLocaleString("pt-PT") : "-";
+}
+
+function NotificationChannelsCard() {
+  const [channels, setChannels] = useState<NotificationChannelView[]>([]);
+  const [deliveries, setDeliveries] = useState<NotificationDelivery[]>([]);
+  const [type, setType] = useState<NotificationChannelType>("email");
+  const [name, setName] = useState("");
+  const [value, setValue] = useState("");
+  const [busy, setBusy] = useState<string | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      const response = await fetch("/api/settings/notifications");
+      if (!response.ok) return;
+      const data = await response.json();
+      setChannels(data.channels ?? []);
+      setDeliveries(data.deliveries ?? []);
+    };
+    load().catch(() => null);
+  }, []);
+
+  const addChannel = async () => {
+    setBusy("new");
+    try {
+      const response = await fetch("/api/settings/notifications", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          type,
+          name,
+          config: { [CHANNEL_FIELDS[type].key]: value },
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setStatus(data.detail ?? data.error ?? "Erro ao guardar o canal.");
+        return;
+      }
+      setChannels((prev) => [...prev, data.channel]);
+      setName("");
+      setValue("");
+      setStatus("Canal adicionado.");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const toggleChannel = async (channel: NotificationChannelView) => {
+    setBusy(channel.id);
+    try {
+      const response = await fetch("/api/settings/notifications", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id: channel.id, enabled: !channel.enabled }),
+      });
+      if (!response.ok) {
+        setStatus("Erro ao atualizar o canal.");
+        return;
+      }
+      const data = await response.json();
+      setChannels((prev) =>
+        prev.map((item) => (item.id === channel.id ? data.channel : item)),
+      );
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const removeChannel = async (channel: NotificationChannelView) => {
+    setBusy(channel.id);
+    try {
+      const response = await fetch(`/api/settings/notifications?id=${channel.id}`, {
+        method: "DELETE",
+      });
+      if (!response.ok) {
+        setStatus("Erro ao remover o canal.");
+        return;
+      }
+      setChannels((prev) => prev.filter((item) => item.id !== channel.id));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const testChannel = async (channel: NotificationChannelView) => {
+    setBusy(channel.id);
+    setStatus(`A enviar teste para ${channel.name}...`);
+    try {
+      const response = await fetch("/api/settings/notifications/test", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id: channel.id }),
+      });
+      const data = await response.json();
+      setStatus(
+        response.ok
+          ? `Teste enviado para ${channel.name}.`
+          : `Falhou: ${data.detail ?? data.error}`,
+      );
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const field = CHANNEL_FIELDS[type];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Notificações</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-xs text-muted-foreground">
+          Os alertas do cron são enviados por todos os canais ativos. Email e
+          Telegram usam o servidor SMTP e o bot configurados na app; o webhook
+          passa pelo outbox (assinado e com novas tentativas, ver Webhooks).
+        </p>
+        {channels.length ? (
+          <div className="space-y-2">
+            {channels.map((channel) => (
+              <div key={channel.id} className="flex flex-wrap items-center gap-2 text-sm">
+                <Badge variant={channel.enabled ? "default" : "outline"}>
+                  {CHANNEL_LABELS[channel.type]}
+                </Badge>
+                <span className="font-medium">{channel.name}</span>
+                <span className="text-muted-foreground">
+                  {channel.config[CHANNEL_FIELDS[channel.type].key]}
+                </span>
+                <div className="ml-auto flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={busy === channel.id}
+                    onClick={() => testChannel(channel)}
+                  >
+                    Testar
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={busy === channel.id}
+                    onClick={() => toggleChannel(channel)}
+                  >
+                    {channel.enabled ? "Desativar" : "Ativar"}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={busy === channel.id}
+                    onClick={() => removeChannel(channel)}
+                  >
+                    Remover
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">Sem canais configurados.</p>
+        )}
+        <div className="grid gap-3 md:grid-cols-4">
+          <div className="space-y-2">
+            <Label>Tipo</Label>
+            <Select
+              value={type}
+              onValueChange={(next) => setType(next as NotificationChannelType)}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {NOTIFICATION_CHANNEL_TYPES.map((item) => (
+                  <SelectItem key={item} value={item}>
+                    {CHANNEL_LABELS[item]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="channel-name">Nome</Label>
+            <Input
+              id="channel-name"
+              placeholder={CHANNEL_LABELS[type]}
+              value={name}
+              onChange={(event) => setName(event.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="channel-value">{field.label}</Label>
+            <Input
+              id="channel-value"
+              placeholder={field.placeholder}
+              value={value}
+              onChange={(event) => setValue(event.target.value)}
+            />
+          </div>
+          <div className="flex items-end">
+            <Button
+              variant="secondary"
+              disabled={busy === "new" || !value.trim()}
+              onClick={addChannel}
+            >
+              Adicionar canal
+            </Button>
+          </div>
+        </div>
+        {status ? <p className="text-xs text-muted-foreground">{status}</p> : null}
+        {deliveries.length ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Data</TableHead>
+                <TableHead>Canal</TableHead>
+                <TableHead>Mensagem</TableHead>
+                <TableHead>Estado</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {deliveries.map((delivery) => (
+                <TableRow key={delivery.id}>
+                  <TableCell>{formatDateTime(delivery.created_at)}</TableCell>
+                  <TableCell>{CHANNEL_LABELS[delivery.channel_type]}</TableCell>
+                  <TableCell>{delivery.subject}</TableCell>
+                  <TableCell>
+                    {delivery.status === "sent" ? (
+                      <Badge variant="outline">Enviado</Badge>
+                    ) : (
+                      <Badge variant="destructive" title={delivery.error ?? undefined}>
+                        Falhou
+                      </Badge>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : null}
+      </CardContent>
+    </Card>
+  );
+}
+
+type WebhookDelivery = {
+  id: string;
+  url: string;
+  event: string;
+  status: "pending" | "delivered" | "failed";
+  attempts: number;
+  next_attempt_at: string | null;
+  last_status_code: number | null;
+  last_error: string | null;
+  delivered_at: string | null;
+  created_at: string;
+};
+
+const WEBHOOK_STATUS_LABELS: Record<WebhookDelivery["status"], string> = {
+  pending: "Pendente",
+  delivered: "Entregue",
+  failed: "Falhou",
+};
+
+// Secret de assinatura e outbox dos webhooks (n8n e canal webhook), com replay
+function WebhooksCard() {
+  const [secret, setSecret] = useState<string | null>(null);
+  const [showSecret, setShowSecret] = useState(false);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    const response = await fetch("/api/settings/webhooks");
+    if (!response.ok) return;
+    const data = await response.json();
+    setSecret(data.secret ?? null);
+    setDeliveries(data.deliveries ?? []);
+  }, []);
+
+  useEffect(() => {
+    load().catch(() => null);
+  }, [load]);
+
+  const rotateSecret = async () => {
+    setBusy("rotate");
+    try {
+      const response = await fetch("/api/settings/webhooks", { method: "POST" });
+      if (!response.ok) {
+        setStatus("Erro ao gerar um secret novo.");
+        return;
+      }
+      const data = await response.json();
+      setSecret(data.secret);
+      setShowSecret(true);
+      setStatus("Secret novo gerado. Atualiza os recetores.");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const replay = async (delivery: WebhookDelivery) => {
+    setBusy(delivery.id);
+    try {
+      const response = await fetch("/api/settings/webhooks/replay", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id: delivery.id }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setStatus(data.error ?? "Erro ao reenviar.");
+        return;
+      }
+      setDeliveries((prev) =>
+        prev.map((item) =>
+          item.id === delivery.id ? { ...item, ...data.delivery } : item,
+        ),
+      );
+      setStatus(
+        data.delivery.status === "delivered"
+          ? "Reenviado com sucesso."
+          : `Falhou de novo: ${data.delivery.last_error ?? "erro"}`,
+      );
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Webhooks</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-xs text-muted-foreground">
+          Cada POST leva X-Webhook-Id, X-Webhook-Timestamp e X-Webhook-Signature
+          (sha256=HMAC-SHA256 de &quot;timestamp.body&quot; com este secret).
+          Entregas falhadas são repetidas com backoff exponencial.
+        </p>
+        <div className="flex flex-wrap items-center gap-2">
+          <Input
+            readOnly
+            className="max-w-xl font-mono"
+            type={showSecret ? "text" : "password"}
+            value={secret ?? ""}
+          />
+          <Button variant="outline" onClick={() => setShowSecret((prev) => !prev)}>
+            {showSecret ? "Esconder" : "Mostrar"}
+          </Button>
+          <Button variant="outline" disabled={busy === "rotate"} onClick={rotateSecret}>
+            Gerar novo secret
+          </Button>
+          <Button variant="ghost" onClick={() => load().catch(() => null)}>
+            Atualizar
+          </Button>
+        </div>
+        {status ? <p className="text-xs text-muted-foreground">{status}</p> : null}
+        {deliveries.length ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Data</TableHead>
+                <TableHead>Evento</TableHead>
+                <TableHead>Destino</TableHead>
+                <TableHead>Estado</TableHead>
+                <TableHead>Tentativas</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {deliveries.map((delivery) => (
+                <TableRow key={delivery.id}>
+                  <TableCell>{formatDateTime(delivery.created_at)}</TableCell>
+                  <TableCell>{delivery.event}</TableCell>
+                  <TableCell>{new URL(delivery.url).host}</TableCell>
+                  <TableCell>
+                    <Badge
+                      variant={
+                        delivery.status === "failed"
+                          ? "destructive"
+                          : delivery.status === "delivered"
+                            ? "outline"
+                            : "secondary"
+                      }
+                      title={delivery.last_error ?? undefined}
+                    >
+                      {WEBHOOK_STATUS_LABELS[delivery.status]}
+                    </Badge>
+                    {delivery.status === "pending" && delivery.next_attempt_at ? (
+                      <p className="text-xs text-muted-foreground">
+                        Próxima: {formatDateTime(delivery.next_attempt_at)}
+                      </p>
+                    ) : null}
+                    {delivery.last_error && delivery.status !== "delivered" ? (
+                      <p className="text-xs text-muted-foreground break-all">
+                        {delivery.last_error}
+                      </p>
+                    ) : null}
+                  </TableCell>
+                  <TableCell>{delivery.attempts}</TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={busy === delivery.id}
+                      onClick={() => replay(delivery)}
+                    >
+                      Reenviar
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <p className="text-sm text-muted-foreground">Sem entregas.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
 
 export default function SettingsPage() {
-  const [rpcUrl, setRpcUrl] = useState("");
-  const [ratePreference, setRatePreference] = useState("apr");
+  const [rpcUrls, setRpcUrls] = useState<Partial<Record<AaveChain, string>>>({});
+  const [savedRpc, setSavedRpc] = useState<Partial<Record<AaveChain, RpcEndpoint>>>({});
+  const [rpcStatus, setRpcStatus] = useState<Partial<Record<AaveChain, string>>>({});
+  const [rpcBusy, setRpcBusy] = useState<AaveChain | null>(null);
+  const { rateDisplay, borrowCandidates, savePreferences } = useUserPreferences();
+  const [ratePreference, setRatePreference] = useState<RateDisplay>(rateDisplay);
+  const [candidatesInput, setCandidatesInput] = useState("");
   const [status, setStatus] = useState<string | null>(null);
 
   useEffect(() => {
-    const storedRpc = localStorage.getItem("polygonRpcUrl") ?? "";
-    const storedPref = localStorage.getItem("ratePreference") ?? "apr";
-    setRpcUrl(storedRpc);
-    setRatePreference(storedPref);
+    const loadRpc = async () => {
+      const response = await fetch("/api/settings/rpc");
+      if (!response.ok) return;
+      const data = (await response.json()) as { endpoints: RpcEndpoint[] };
+      const saved: Partial<Record<AaveChain, RpcEndpoint>> = {};
+      const urls: Partial<Record<AaveChain, string>> = {};
+      data.endpoints.forEach((endpoint) => {
+        saved[endpoint.chain] = endpoint;
+        urls[endpoint.chain] = endpoint.url;
+      });
+      setSavedRpc(saved);
+      setRpcUrls(urls);
+    };
+    loadRpc().catch(() => null);
   }, []);
 
-  const onSave = () => {
-    localStorage.setItem("polygonRpcUrl", rpcUrl);
-    localStorage.setItem("ratePreference", ratePreference);
-    setStatus("Preferências guardadas.");
+  const removeRpc = async (chain: AaveChain) => {
+    setRpcBusy(chain);
+    try {
+      const response = await fetch(`/api/settings/rpc?chain=${chain}`, {
+        method: "DELETE",
+      });
+      if (!response.ok) {
+        setRpcStatus((prev) => ({ ...prev, [chain]: "Erro ao remover o RPC." }));
+        return;
+      }
+      setSavedRpc((prev) => ({ ...prev, [chain]: undefined }));
+      setRpcUrls((prev) => ({ ...prev, [chain]: "" }));
+      setRpcStatus((prev) => ({ ...prev, [chain]: "A usar o RPC default." }));
+    } finally {
+      setRpcBusy(null);
+    }
+  };
+
+  const saveRpc = async (chain: AaveChain) => {
+    const url = rpcUrls[chain]?.trim() ?? "";
+    if (!url) {
+      await removeRpc(chain);
+      return;
+    }
+    setRpcBusy(chain);
+    setRpcStatus((prev) => ({ ...prev, [chain]: "A validar endpoint..." }));
+    try {
+      const response = await fetch("/api/settings/rpc", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ chain, url }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setRpcStatus((prev) => ({
+          ...prev,
+          [chain]: data.detail ?? data.error ?? "Erro ao guardar o RPC.",
+        }));
+        return;
+      }
+      setSavedRpc((prev) => ({ ...prev, [chain]: data.endpoint }));
+      setRpcStatus((prev) => ({ ...prev, [chain]: "RPC guardado." }));
+    } finally {
+      setRpcBusy(null);
+    }
+  };
+
+  useEffect(() => {
+    setRatePreference(rateDisplay);
+  }, [rateDisplay]);
+
+  useEffect(() => {
+    setCandidatesInput(borrowCandidates?.join(", ") ?? "");
+  }, [borrowCandidates]);
+
+  const onSave = async () => {
+    const { error } = await savePreferences({
+      rateDisplay: ratePreference,
+      borrowCandidates: candidatesInput
+        .split(",")
+        .map((symbol) => symbol.trim())
+        .filter(Boolean),
+    });
+    setStatus(error ? "Erro ao guardar preferências." : "Preferências guardadas.");
   };
 
   return (
@@ -33,30 +590,61 @@ export default function SettingsPage() {
       <div>
         <h1 className="text-2xl font-semibold">Settings</h1>
         <p className="text-sm text-muted-foreground">
-          Personaliza o RPC e as preferências de visualização.
+          Personaliza o RPC, as notificações e as preferências de visualização.
         </p>
       </div>
 
       <Card>
         <CardHeader>
-          <CardTitle>RPC Polygon</CardTitle>
+          <CardTitle>RPC por chain</CardTitle>
         </CardHeader>
         <CardContent className="space-y-4">
-          <div className="space-y-2">
-            <Label htmlFor="rpc-url">RPC URL</Label>
-            <Input
-              id="rpc-url"
-              placeholder={DEFAULT_RPC}
-              value={rpcUrl}
-              onChange={(event) => setRpcUrl(event.target.value)}
-            />
-            <p className="text-xs text-muted-foreground">
-              Deixar vazio para usar o default público.
-            </p>
-          </div>
+          <p className="text-xs text-muted-foreground">
+            Usado nas leituras on-chain dos teus pedidos e nos alertas das tuas
+            wallets. Só HTTPS; o chain id é validado ao guardar. Deixar vazio
+            para usar o default.
+          </p>
+          {SUPPORTED_AAVE_CHAINS.map((chain) => (
+            <div key={chain} className="space-y-2">
+              <Label htmlFor={`rpc-url-${chain}`}>{AAVE_CHAINS[chain].label}</Label>
+              <div className="flex gap-2">
+                <Input
+                  id={`rpc-url-${chain}`}
+                  placeholder={AAVE_CHAINS[chain].defaultRpcUrl}
+                  value={rpcUrls[chain] ?? ""}
+                  onChange={(event) =>
+                    setRpcUrls((prev) => ({ ...prev, [chain]: event.target.value }))
+                  }
+                />
+                <Button
+                  variant="outline"
+                  disabled={rpcBusy === chain}
+                  onClick={() => saveRpc(chain)}
+                >
+                  Guardar
+                </Button>
+                {savedRpc[chain] ? (
+                  <Button
+                    variant="ghost"
+                    disabled={rpcBusy === chain}
+                    onClick={() => removeRpc(chain)}
+                  >
+                    Remover
+                  </Button>
+                ) : null}
+              </div>
+              {rpcStatus[chain] ? (
+                <p className="text-xs text-muted-foreground">{rpcStatus[chain]}</p>
+              ) : null}
+            </div>
+          ))}
         </CardContent>
       </Card>
 
+      <NotificationChannelsCard />
+
+      <WebhooksCard />
+
       <Card>
         <CardHeader>
           <CardTitle>Preferências</CardTitle>
@@ -64,7 +652,12 @@ export default function SettingsPage() {
         <CardContent className="space-y-4">
           <div className="space-y-2">
             <Label>Mostrar taxas como</Label>
-            <Select value={ratePreference} onValueChange={setRatePreference}>
+            <Select
+              value={ratePreference}
+              onValueChange={(value) =>
+                setRatePreference(parseRateDisplay(value) ?? DEFAULT_RATE_DISPLAY)
+              }
+            >
               <SelectTrigger>
                 <SelectValue placeholder="Seleciona" />
               </SelectTrigger>
@@ -73,6 +666,24 @@ export default function SettingsPage() {
                 <SelectItem value="apy">APY</SelectItem>
               </SelectContent>
             </Select>
+            <p className="text-xs text-muted-foreground">
+              Aplica-se ao wallet card, comparação de taxas e projeções. APY
+              assume capitalização por segundo.
+            </p>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="borrow-candidates">Candidatos a borrow (Aave)</Label>
+            <Input
+              id="borrow-candidates"
+              placeholder={BORROW_CANDIDATES.join(", ")}
+              value={candidatesInput}
+              onChange={(event) => setCandidatesInput(event.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">
+              Símbolos separados por vírgula, ordenados por APR, liquidez, folga
+              no borrow cap, drawdown e volatilidade dos últimos 30 dias.
+              Deixar vazio para usar a lista default.
+            </p>
           </div>
         </CardContent>
       </Card>
@@ -5,18 +5,50 @@ import { useParams, useRouter } from "next/navigation";
 
 import {
   useProtocolAccountData,
+  useProtocolLiquidationPrices,
+  useProtocolProjection,
   useProtocolRates,
   useProtocolUserReserves,
 } from "@/hooks/useProtocol";
+import { useAlertRules } from "@/hooks/useAlertRules";
+import { useAlertState } from "@/hooks/useAlertState";
+import { RATE_DISPLAY_LABEL, useUserPreferences } from "@/hooks/useUserPreferences";
 import { useWalletNotes } from "@/hooks/useWalletNotes";
 import { createSupabaseBrowserClient } from "@/lib/supabase/browser";
 import { DEFAULT_HF_MAX, DEFAULT_HF_MIN } from "@/lib/constants";
-import { formatNumber, formatToken, formatUsd } from "@/lib/format";
+import {
+  formatNumber,
+  formatPercent,
+  formatToken,
+  formatUsd,
+} from "@/lib/format";
 import {
   borrowToTargetWithReinvest,
+  candidateRates,
   getTargetedRecommendations,
+  marginalLiquidationThresholdBps,
+  RateDisplay,
   simulateHealthFactor,
 } from "@/lib/calculations";
+import {
+  parseRuleExpression,
+  RULE_FUNCTIONS,
+  RULE_VARIABLES,
+} from "@/lib/alerts/expression";
+import type { LiquidationPrice } from "@/lib/liquidation";
+import type { RankedBorrowCandidate } from "@/lib/borrowRanking";
+import { checkRecommendationCaps, ReserveCaps } from "@/lib/caps";
+import { STRESS_WINDOWS, StressReplayResult } from "@/lib/history/stress";
+import { AAVE_CHAINS, parseAaveChain } from "@/lib/aave/chains";
+import type { ProjectionPoint } from "@/lib/projection";
+import {
+  correlatedShocks,
+  isStablecoin,
+  PRICE_SHOCK_PRESETS,
+  scenarioShocks,
+  ShockMode,
+  simulatePriceShocks,
+} from "@/lib/priceShocks";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -41,7 +73,7 @@ import {
 } from "@/components/ui/table";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Textarea } from "@/components/ui/textarea";
-import { PROTOCOL_LABELS, Protocol } from "@/lib/protocols";
+import { hasEventHistory, PROTOCOL_LABELS, Protocol } from "@/lib/protocols";
 import useSWR from "swr";
 
 type WalletDetail = {
@@ -50,6 +82,7 @@ type WalletDetail = {
   label: string | null;
   chain: string;
   protocol: Protocol;
+  market: string | null;
   wallet_hf_targets?: { hf_min: number; hf_max: number } | null;
 };
 
@@ -60,8 +93,76 @@ type ReserveSummary = {
   debtAmount: number;
   debtUsd: number;
   priceInUsd: number;
+  liquidationThresholdBps?: number;
+  inEMode?: boolean;
+  caps?: ReserveCaps;
 };
 
+type EModeSummary = {
+  id: number;
+  label: string;
+  ltv: number;
+  liquidationThreshold: number;
+  liquidationBonus: number;
+};
+
+// Capacidade restante até ao supply/borrow cap (Aave v3), com % usada
+function CapHeadroomCell({
+  caps,
+  kind,
+}: {
+  caps?: ReserveCaps;
+  kind: "supply" | "borrow";
+}) {
+  if (!caps) return <span>-</span>;
+  const headroomUsd =
+    kind === "supply" ? caps.supplyHeadroomUsd : caps.borrowHeadroomUsd;
+  const usedPct = kind === "supply" ? caps.supplyCapUsedPct : caps.borrowCapUsedPct;
+  if (headroomUsd === null || usedPct === null) {
+    return <span className="text-muted-foreground">Sem cap</span>;
+  }
+  return (
+    <div>
+      <p className={usedPct >= 95 ? "text-red-500" : undefined}>
+        {formatUsd(headroomUsd)}
+      </p>
+      <p className="text-xs text-muted-foreground">
+        {formatNumber(usedPct, 1)}% usado
+      </p>
+    </div>
+  );
+}
+
+// Preço a que o HF chega a 1.0 ("liquidation") ou ao hf_min, com a variação face ao atual
+function LiquidationPriceCell({
+  entry,
+  target,
+}: {
+  entry?: LiquidationPrice;
+  target: "liquidation" | "hfMin";
+}) {
+  const price =
+    target === "liquidation" ? entry?.liquidationPrice : entry?.hfMinPrice;
+  const changePct =
+    target === "liquidation"
+      ? entry?.liquidationChangePct
+      : entry?.hfMinChangePct;
+  if (price === null || price === undefined) {
+    return <span className="text-muted-foreground">-</span>;
+  }
+  return (
+    <div>
+      <p>{formatUsd(price)}</p>
+      {changePct !== null && changePct !== undefined ? (
+        <p className="text-xs text-muted-foreground">
+          {changePct > 0 ? "+" : ""}
+          {formatPercent(changePct, 1)}
+        </p>
+      ) : null}
+    </div>
+  );
+}
+
 type HistoryEvent = {
   id?: string;
   event_type: string;
@@ -83,12 +184,8 @@ function getEventDisplayDate(
   const year = stored.getUTCFullYear();
   if (year >= 1970 && year <= 1972 && event.block_number != null && event.block_number > 0 && chain) {
     const norm = chain.toLowerCase().replace(/^arbitrum-one$/i, "arbitrum");
-    const cfg: Record<string, { genesis: number; blockTime: number }> = {
-      base: { genesis: 1691539200, blockTime: 2 },
-      arbitrum: { genesis: 1630368000, blockTime: 1 },
-      polygon: { genesis: 1590796800, blockTime: 2 },
-    };
-    const c = cfg[norm];
+    const parsed = parseAaveChain(norm);
+    const c = parsed ? AAVE_CHAINS[parsed] : null;
     if (c) return new Date((c.genesis + event.block_number * c.blockTime) * 1000);
   }
   return stored;
@@ -120,7 +217,16 @@ type PnlData = {
     historicalDebtCost: number;
     netPositionValue: number;
     netHistoricalCost: number;
+    rewardsUsd?: number;
+    pnlWithRewards?: number;
   };
+  rewards?: {
+    symbol: string;
+    claimableAmount: number;
+    claimableUsd: number;
+    claimedAmount: number;
+    accruedUsd: number;
+  } | null;
 };
 
 function PnlCard({
@@ -298,6 +404,28 @@ function PnlCard({
                 : "Sem P&L: o valor atual é igual ao valor emprestado"}
             </p>
           </>
+          {data.rewards ? (
+            <>
+              <Separator />
+              <div className="flex items-center justify-between">
+                <p className="text-sm text-muted-foreground">
+                  Rewards {data.rewards.symbol} (reclamadas + por reclamar)
+                </p>
+                <p className="text-lg font-semibold text-green-600">
+                  {formatUsd(data.rewards.accruedUsd)}
+                </p>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Por reclamar:{" "}
+                {formatToken(
+                  data.rewards.claimableAmount,
+                  data.rewards.symbol,
+                  4,
+                )}{" "}
+                ({formatUsd(data.rewards.claimableUsd)})
+              </p>
+            </>
+          ) : null}
           {debtPnl?.perAsset && debtPnl.perAsset.length > 0 && (
             <>
               <Separator />
@@ -325,6 +453,567 @@ function PnlCard({
   );
 }
 
+function formatReplayDate(timestamp: number | null) {
+  if (timestamp === null) return "-";
+  return new Date(timestamp).toLocaleDateString("pt-PT", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+function parseTimestamp(value: string | null) {
+  return value ? Date.parse(value) : null;
+}
+
+// Estado persistido pelo cron de alertas, com reconhecimento para parar lembretes
+function AlertStateCard({ walletId }: { walletId: string }) {
+  const { state, acknowledge, isLoading } = useAlertState(walletId);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (isLoading || !state) return null;
+  const active = state.status !== "OK";
+
+  const onAcknowledge = async (acknowledged: boolean) => {
+    setSaving(true);
+    setError(null);
+    const result = await acknowledge(acknowledged);
+    if (result.error) setError(result.error.message);
+    setSaving(false);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Estado dos alertas</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3 text-sm">
+        <div className="flex flex-wrap items-center gap-2">
+          <Badge variant={state.status === "Crítico" ? "destructive" : "outline"}>
+            {state.status}
+          </Badge>
+          <span className="text-muted-foreground">
+            desde {formatReplayDate(parseTimestamp(state.status_since))}
+          </span>
+          {state.acknowledged_at ? (
+            <Badge variant="secondary">
+              Reconhecido {formatReplayDate(parseTimestamp(state.acknowledged_at))}
+            </Badge>
+          ) : null}
+        </div>
+        <p className="text-muted-foreground">
+          Último alerta:{" "}
+          {state.last_notified_at
+            ? `${formatReplayDate(parseTimestamp(state.last_notified_at))} (${state.last_notified_status ?? "Resolvido"})`
+            : "-"}
+        </p>
+        {active ? (
+          <Button
+            variant="secondary"
+            disabled={saving}
+            onClick={() => onAcknowledge(!state.acknowledged_at)}
+          >
+            {state.acknowledged_at ? "Retomar lembretes" : "Reconhecer alerta"}
+          </Button>
+        ) : null}
+        {active ? (
+          <p className="text-xs text-muted-foreground">
+            Reconhecer suspende os lembretes até o estado mudar; uma subida de
+            severidade volta a notificar.
+          </p>
+        ) : null}
+        {error ? <p className="text-sm text-red-500">{error}</p> : null}
+      </CardContent>
+    </Card>
+  );
+}
+
+const RULE_EXAMPLES = [
+  "hf < 1.5 and debtUsd > 10000",
+  'price("WETH") < 2000',
+  'borrowApr("USDC") > 8',
+  'utilization("USDC") > 90',
+  "hfDropPerHour > 0.05",
+];
+
+// Regras do user avaliadas pelo cron de alertas (além do intervalo de HF)
+function AlertRulesCard({ walletId }: { walletId: string }) {
+  const { rules, createRule, updateRule, deleteRule } = useAlertRules(walletId);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [expression, setExpression] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const parsed = expression.trim() ? parseRuleExpression(expression) : null;
+  const expressionError = parsed && "error" in parsed ? parsed.error : null;
+
+  const resetForm = () => {
+    setEditingId(null);
+    setName("");
+    setExpression("");
+    setError(null);
+  };
+
+  const onSubmit = async () => {
+    setSaving(true);
+    setError(null);
+    const result = editingId
+      ? await updateRule(editingId, { name, expression })
+      : await createRule({ name, expression });
+    setSaving(false);
+    if (result.error) {
+      setError(result.error.message);
+      return;
+    }
+    resetForm();
+  };
+
+  const runAction = async (action: Promise<{ error: Error | null }>) => {
+    const result = await action;
+    if (result.error) setError(result.error.message);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Regras de alerta</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4 text-sm">
+        {rules.length ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Regra</TableHead>
+                <TableHead>Condição</TableHead>
+                <TableHead>Estado</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rules.map((rule) => (
+                <TableRow key={rule.id}>
+                  <TableCell>{rule.name}</TableCell>
+                  <TableCell>
+                    <code className="text-xs">{rule.expression}</code>
+                  </TableCell>
+                  <TableCell>
+                    {!rule.enabled ? (
+                      <Badge variant="outline">Desativada</Badge>
+                    ) : rule.active ? (
+                      <Badge variant="destructive">
+                        Ativa desde{" "}
+                        {formatReplayDate(parseTimestamp(rule.active_since))}
+                      </Badge>
+                    ) : (
+                      <Badge variant="secondary">Não se verifica</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="space-x-2 text-right">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => {
+                        setEditingId(rule.id);
+                        setName(rule.name);
+                        setExpression(rule.expression);
+                        setError(null);
+                      }}
+                    >
+                      Editar
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() =>
+                        runAction(updateRule(rule.id, { enabled: !rule.enabled }))
+                      }
+                    >
+                      {rule.enabled ? "Desativar" : "Ativar"}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => runAction(deleteRule(rule.id))}
+                    >
+                      Remover
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <p className="text-muted-foreground">
+            Sem regras. Os alertas usam só o intervalo de HF.
+          </p>
+        )}
+        <div className="grid gap-3 md:grid-cols-3">
+          <div className="space-y-2">
+            <Label htmlFor="rule-name">Nome</Label>
+            <Input
+              id="rule-name"
+              placeholder="ETH abaixo de 2000"
+              value={name}
+              onChange={(event) => setName(event.target.value)}
+            />
+          </div>
+          <div className="space-y-2 md:col-span-2">
+            <Label htmlFor="rule-expression">Condição</Label>
+            <Input
+              id="rule-expression"
+              className="font-mono"
+              placeholder={RULE_EXAMPLES[0]}
+              value={expression}
+              onChange={(event) => setExpression(event.target.value)}
+            />
+            {expressionError ? (
+              <p className="text-xs text-red-500">{expressionError}</p>
+            ) : null}
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button
+            variant="secondary"
+            disabled={saving || !name.trim() || !parsed || !!expressionError}
+            onClick={onSubmit}
+          >
+            {editingId ? "Guardar regra" : "Adicionar regra"}
+          </Button>
+          {editingId ? (
+            <Button variant="ghost" onClick={resetForm}>
+              Cancelar
+            </Button>
+          ) : null}
+        </div>
+        {error ? <p className="text-sm text-red-500">{error}</p> : null}
+        <div className="space-y-1 text-xs text-muted-foreground">
+          <p>
+            Variáveis:{" "}
+            {Object.entries(RULE_VARIABLES)
+              .map(([key, label]) => `${key} (${label})`)
+              .join(", ")}
+            .
+          </p>
+          <p>
+            Funções:{" "}
+            {Object.entries(RULE_FUNCTIONS)
+              .map(([key, label]) => `${key}("SÍMBOLO") (${label})`)
+              .join(", ")}
+            . Operadores: + - * /, {"< <= > >= == !="}, and, or, not.
+          </p>
+          <div className="flex flex-wrap gap-2 pt-1">
+            {RULE_EXAMPLES.map((example) => (
+              <button
+                key={example}
+                type="button"
+                className="rounded border px-2 py-0.5 font-mono"
+                onClick={() => setExpression(example)}
+              >
+                {example}
+              </button>
+            ))}
+          </div>
+          <p>
+            Notifica quando a condição passa a verdadeira e quando deixa de o
+            ser, pelos canais configurados em Settings.
+          </p>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+// Replay das posições atuais sobre crashes históricos (/api/history/stress)
+function StressReplayCard({ walletId }: { walletId: string }) {
+  const [windowId, setWindowId] = useState("all");
+  const [offline, setOffline] = useState(false);
+  const [requestUrl, setRequestUrl] = useState<string | null>(null);
+
+  const fetcher = (url: string) => fetch(url).then((r) => r.json());
+  const { data, isLoading } = useSWR<{
+    results?: StressReplayResult[];
+    error?: string;
+    detail?: string;
+    missing?: Array<{ window: string; symbols: string[] }>;
+  }>(requestUrl, fetcher, { revalidateOnFocus: false });
+
+  const runReplay = () => {
+    const query = new URLSearchParams({ walletId });
+    if (windowId !== "all") query.set("window", windowId);
+    if (offline) query.set("offline", "1");
+    setRequestUrl(`/api/history/stress?${query.toString()}`);
+  };
+
+  return (
+    <Card className="mt-4">
+      <CardHeader>
+        <CardTitle>Replay de crashes históricos</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-2">
+            <Label>Janela</Label>
+            <Select value={windowId} onValueChange={setWindowId}>
+              <SelectTrigger className="w-64">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Todas</SelectItem>
+                {STRESS_WINDOWS.map((window) => (
+                  <SelectItem key={window.id} value={window.id}>
+                    {window.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={offline}
+              onChange={(event) => setOffline(event.target.checked)}
+            />
+            Só preços em cache (offline)
+          </label>
+          <Button onClick={runReplay} disabled={isLoading}>
+            {isLoading ? "A correr..." : "Correr replay"}
+          </Button>
+        </div>
+        {data?.error ? (
+          <div className="space-y-1 text-sm text-red-500">
+            <p>{data.detail ?? data.error}</p>
+            {data.missing?.map((entry) => (
+              <p key={entry.window} className="text-xs">
+                {STRESS_WINDOWS.find((window) => window.id === entry.window)
+                  ?.label ?? entry.window}
+                : {entry.symbols.join(", ")}
+              </p>
+            ))}
+          </div>
+        ) : null}
+        {data?.results ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Janela</TableHead>
+                <TableHead>HF mínimo</TableHead>
+                <TableHead>Quando</TableHead>
+                <TableHead>Liquidação</TableHead>
+                <TableHead>Abaixo do HF mínimo</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {data.results.map((result) => (
+                <TableRow key={result.window.id}>
+                  <TableCell>
+                    {result.window.label}
+                    {result.missingSymbols.length > 0 ? (
+                      <p className="text-xs text-muted-foreground">
+                        Sem preços: {result.missingSymbols.join(", ")}
+                      </p>
+                    ) : null}
+                  </TableCell>
+                  <TableCell>
+                    {result.points.length > 0 &&
+                    result.minHealthFactor !== null
+                      ? formatNumber(result.minHealthFactor, 2)
+                      : "-"}
+                  </TableCell>
+                  <TableCell>
+                    {formatReplayDate(result.minHealthFactorAt)}
+                  </TableCell>
+                  <TableCell>
+                    {result.liquidated ? (
+                      <Badge variant="destructive">
+                        {formatReplayDate(result.liquidatedAt)}
+                      </Badge>
+                    ) : result.points.length > 0 ? (
+                      "Não"
+                    ) : (
+                      "-"
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {formatReplayDate(result.hfMinBreachedAt)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : null}
+      </CardContent>
+    </Card>
+  );
+}
+
+type ProjectionData = {
+  points: ProjectionPoint[];
+  horizons: ProjectionPoint[];
+  alreadyBelowHfMin: boolean;
+  hfMinCrossingDay: number | null;
+  hfMinCrossingAt: number | null;
+  liquidationDay: number | null;
+  liquidationAt: number | null;
+  rates?: {
+    symbol: string;
+    supplyApr: number;
+    supplyApy: number;
+    borrowApr: number;
+    borrowApy: number;
+  }[];
+};
+
+// HF projetado só com juros (preços constantes), com a linha do hf_min
+function InterestProjectionCard({
+  projection,
+  hfMin,
+  rateDisplay,
+}: {
+  projection?: ProjectionData;
+  hfMin: number;
+  rateDisplay: RateDisplay;
+}) {
+  const rateLabel = RATE_DISPLAY_LABEL[rateDisplay];
+  // HF infinito (sem dívida) chega como null no JSON
+  const points = (projection?.points ?? []).filter(
+    (point) =>
+      typeof point.healthFactor === "number" &&
+      Number.isFinite(point.healthFactor),
+  );
+
+  const values = points.map((point) => point.healthFactor);
+  const max = Math.max(...values, hfMin * 1.1);
+  const min = Math.min(...values, hfMin * 0.9);
+  const range = max - min || 1;
+  const toY = (value: number) => 40 - ((value - min) / range) * 36;
+  const polyline = points
+    .map((point, index) => {
+      const x = points.length === 1 ? 50 : (index / (points.length - 1)) * 100;
+      return `${x.toFixed(2)},${toY(point.healthFactor).toFixed(2)}`;
+    })
+    .join(" ");
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Projeção de juros (preços constantes)</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {points.length > 1 ? (
+          <div className="space-y-2">
+            <svg viewBox="0 0 100 40" className="h-32 w-full">
+              <line
+                x1="0"
+                x2="100"
+                y1={toY(hfMin)}
+                y2={toY(hfMin)}
+                stroke="#f59e0b"
+                strokeWidth="0.5"
+                strokeDasharray="2 2"
+              />
+              <polyline
+                fill="none"
+                stroke="#38bdf8"
+                strokeWidth="2"
+                points={polyline}
+              />
+            </svg>
+            <div className="flex items-center justify-between text-xs text-muted-foreground">
+              <span>Hoje</span>
+              <span>
+                +{Math.round(points[points.length - 1].day / 2)} dias
+              </span>
+              <span>+{points[points.length - 1].day} dias</span>
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            {projection ? "Sem dívida para projetar." : "A carregar..."}
+          </p>
+        )}
+        {projection ? (
+          <>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Horizonte</TableHead>
+                  <TableHead>HF</TableHead>
+                  <TableHead>Colateral</TableHead>
+                  <TableHead>Dívida</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {projection.horizons.map((point) => (
+                  <TableRow key={point.day}>
+                    <TableCell>{point.day} dias</TableCell>
+                    <TableCell>
+                      {typeof point.healthFactor === "number"
+                        ? formatNumber(point.healthFactor, 2)
+                        : "-"}
+                    </TableCell>
+                    <TableCell>{formatUsd(point.collateralUsd)}</TableCell>
+                    <TableCell>{formatUsd(point.debtUsd)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <p className="text-sm text-muted-foreground">
+              {projection.alreadyBelowHfMin
+                ? `HF já está abaixo do mínimo (${hfMin}).`
+                : projection.hfMinCrossingAt
+                  ? `HF cruza o mínimo (${hfMin}) em ${new Date(
+                      projection.hfMinCrossingAt,
+                    ).toLocaleDateString("pt-PT")} (${projection.hfMinCrossingDay} dias).`
+                  : `Só com juros, o HF não cruza o mínimo (${hfMin}) nos próximos 10 anos.`}
+              {projection.liquidationAt
+                ? ` Liquidação em ${new Date(
+                    projection.liquidationAt,
+                  ).toLocaleDateString("pt-PT")}.`
+                : ""}
+            </p>
+            {projection.rates?.length ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Asset</TableHead>
+                    <TableHead>Supply {rateLabel}</TableHead>
+                    <TableHead>Borrow {rateLabel}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {projection.rates.map((rate) => (
+                    <TableRow key={rate.symbol}>
+                      <TableCell>{rate.symbol}</TableCell>
+                      <TableCell>
+                        {formatNumber(
+                          rateDisplay === "apy" ? rate.supplyApy : rate.supplyApr,
+                          2,
+                        )}
+                        %
+                      </TableCell>
+                      <TableCell>
+                        {formatNumber(
+                          rateDisplay === "apy" ? rate.borrowApy : rate.borrowApr,
+                          2,
+                        )}
+                        %
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ) : null}
+          </>
+        ) : null}
+      </CardContent>
+    </Card>
+  );
+}
+
 function HistoryEventsTab({
   walletId,
   chain,
@@ -347,6 +1036,10 @@ function HistoryEventsTab({
   );
 
   const SYNC_TIMEOUT_MS = 90_000; // 90s – subgraph pode ser lento
+  const explorerChain = parseAaveChain(chain ?? null) ?? "polygon";
+  const explorerUrl =
+    AAVE_CHAINS[explorerChain].viemChain.blockExplorers?.default.url ??
+    "https://polygonscan.com";
 
   const runSync = async () => {
     setIsSyncing(true);
@@ -470,14 +1163,15 @@ function HistoryEventsTab({
     return "outline";
   };
 
-  if (protocol === "compound") {
+  if (protocol && !hasEventHistory(protocol)) {
     return (
       <Card>
         <CardHeader>
           <CardTitle>Movimentos</CardTitle>
         </CardHeader>
         <CardContent className="py-8 text-center text-sm text-muted-foreground">
-          Histórico indisponível para Compound. Apenas histórico Aave está ativo.
+          Histórico indisponível para {PROTOCOL_LABELS[protocol]}. Apenas
+          histórico Aave está ativo.
         </CardContent>
       </Card>
     );
@@ -663,13 +1357,7 @@ function HistoryEventsTab({
                   <TableCell>
                     {event.tx_hash && event.tx_hash !== "0x" ? (
                       <a
-                        href={
-                          chain === "arbitrum"
-                            ? `https://arbiscan.io/tx/${event.tx_hash}`
-                            : chain === "base"
-                              ? `https://basescan.org/tx/${event.tx_hash}`
-                              : `https://polygonscan.com/tx/${event.tx_hash}`
-                        }
+                        href={`${explorerUrl}/tx/${event.tx_hash}`}
                         target="_blank"
                         rel="noopener noreferrer"
                         className="text-xs text-muted-foreground hover:underline font-mono"
@@ -706,27 +1394,50 @@ export default function WalletDetailPage() {
     wallet?.address,
     wallet?.chain ?? "polygon",
     wallet?.protocol ?? "aave",
+    wallet?.market,
   );
   const { data: userReservesData } = useProtocolUserReserves(
     wallet?.address,
     wallet?.chain ?? "polygon",
     wallet?.protocol ?? "aave",
+    wallet?.market,
   );
+  const { rateDisplay, borrowCandidates } = useUserPreferences();
   const { data: ratesData } = useProtocolRates(
     wallet?.chain ?? "polygon",
     wallet?.protocol ?? "aave",
+    wallet?.market,
+    borrowCandidates,
+  );
+  const { data: liquidationData } = useProtocolLiquidationPrices(
+    wallet?.address,
+    wallet?.chain ?? "polygon",
+    wallet?.protocol ?? "aave",
+    wallet?.wallet_hf_targets?.hf_min ?? DEFAULT_HF_MIN,
+    wallet?.market,
+  );
+  const { data: projectionData } = useProtocolProjection(
+    wallet?.address,
+    wallet?.chain ?? "polygon",
+    wallet?.protocol ?? "aave",
+    wallet?.wallet_hf_targets?.hf_min ?? DEFAULT_HF_MIN,
+    wallet?.market,
   );
   const { notes, setNotes, saveNotes } = useWalletNotes(walletId);
 
   const [selectedDebtAsset, setSelectedDebtAsset] = useState<string>("");
   const [priceChange, setPriceChange] = useState(0);
+  const [shockMode, setShockMode] = useState<ShockMode>("manual");
+  const [assetShocks, setAssetShocks] = useState<Record<string, number>>({});
+  const [marketChange, setMarketChange] = useState(-30);
+  const [assetBetas, setAssetBetas] = useState<Record<string, number>>({});
 
   useEffect(() => {
     const loadWallet = async () => {
       const { data } = await supabase
         .from("user_wallets")
         .select(
-          "id,address,label,chain,protocol,wallet_hf_targets ( hf_min, hf_max )",
+          "id,address,label,chain,protocol,market,wallet_hf_targets ( hf_min, hf_max )",
         )
         .eq("id", walletId)
         .maybeSingle();
@@ -756,6 +1467,16 @@ export default function WalletDetailPage() {
     [userReservesData],
   );
 
+  const liquidationPrices = useMemo(
+    () =>
+      new Map(
+        ((liquidationData?.prices ?? []) as LiquidationPrice[]).map(
+          (entry) => [entry.symbol, entry],
+        ),
+      ),
+    [liquidationData],
+  );
+
   const collateralReserves = useMemo(
     () => reserves.filter((reserve) => reserve.collateralAmount > 0),
     [reserves],
@@ -772,6 +1493,10 @@ export default function WalletDetailPage() {
     }
   }, [debtReserves, selectedDebtAsset]);
 
+  const eMode = (userReservesData?.eMode ?? null) as EModeSummary | null;
+  const collateralLiquidationThreshold =
+    marginalLiquidationThresholdBps(collateralReserves);
+
   const totals = accountData
     ? {
         collateralUsd: accountData.totalCollateralUsd,
@@ -796,11 +1521,20 @@ export default function WalletDetailPage() {
         collateralUsd: totals.collateralUsd,
         debtUsd: totals.debtUsd,
         liquidationThresholdBps: totals.liquidationThreshold,
+        collateralLiquidationThresholdBps: collateralLiquidationThreshold,
         hfMin: hfMinInput,
         hfMax: hfMaxInput,
       })
     : null;
 
+  const capWarnings = recommendations
+    ? checkRecommendationCaps({
+        recommendations,
+        reserves,
+        borrowSymbol: ratesData?.recommended,
+      })
+    : [];
+
   const selectedDebt = debtReserves.find(
     (reserve) => reserve.symbol === selectedDebtAsset,
   );
@@ -828,16 +1562,54 @@ export default function WalletDetailPage() {
           collateralUsd: totals.collateralUsd,
           debtUsd: simulatedDebtUsd,
           liquidationThresholdBps: totals.liquidationThreshold,
+          collateralLiquidationThresholdBps: collateralLiquidationThreshold,
           hfMin: hfMinInput,
           hfMax: hfMaxInput,
         })
       : null;
 
+  const shockPositions = useMemo(
+    () =>
+      reserves.filter(
+        (reserve) => reserve.collateralAmount > 0 || reserve.debtAmount > 0,
+      ),
+    [reserves],
+  );
+
+  const activeShocks =
+    shockMode === "correlated"
+      ? correlatedShocks(shockPositions, marketChange, assetBetas)
+      : assetShocks;
+
+  const shockScenarios = [
+    {
+      id: "custom",
+      label:
+        shockMode === "correlated"
+          ? `Correlacionado (mercado ${marketChange}%)`
+          : "Manual",
+      shocks: activeShocks,
+    },
+    ...PRICE_SHOCK_PRESETS.map((preset) => ({
+      id: preset.id,
+      label: preset.label,
+      shocks: scenarioShocks(shockPositions, preset),
+    })),
+  ].map((scenario) => ({
+    ...scenario,
+    result: simulatePriceShocks({
+      positions: shockPositions,
+      shocks: scenario.shocks,
+      hfMin: hfMinInput,
+    }),
+  }));
+
   const borrowToMax = totals
     ? borrowToTargetWithReinvest({
         collateralUsd: totals.collateralUsd,
         debtUsd: totals.debtUsd,
         liquidationThresholdBps: totals.liquidationThreshold,
+        collateralLiquidationThresholdBps: collateralLiquidationThreshold,
         targetHf: hfMaxInput,
       })
     : 0;
@@ -924,10 +1696,15 @@ export default function WalletDetailPage() {
   };
 
   const recommendedBorrow = ratesData?.recommended ?? "-";
+  const recommendedCandidate = (
+    ratesData?.candidates as RankedBorrowCandidate[] | undefined
+  )?.find((candidate) => candidate.symbol === ratesData?.recommended);
   const marketLabel =
     wallet?.protocol === "compound" && accountData?.market?.baseSymbol
       ? ` • ${accountData.market.baseSymbol} market`
-      : "";
+      : wallet?.protocol === "morpho" && accountData?.market?.label
+        ? ` • ${accountData.market.label}`
+        : "";
 
   return (
     <div className="space-y-8">
@@ -986,6 +1763,13 @@ export default function WalletDetailPage() {
               Alvo {hfMinInput} - {hfMaxInput}
             </Badge>
           </div>
+          {eMode ? (
+            <p className="text-xs text-muted-foreground">
+              E-mode ativo: {eMode.label || `Categoria ${eMode.id}`} · LTV{" "}
+              {formatNumber(eMode.ltv / 100, 2)}% · LT{" "}
+              {formatNumber(eMode.liquidationThreshold / 100, 2)}%
+            </p>
+          ) : null}
           <div className="grid gap-3 md:grid-cols-3">
             <div>
               <Label>HF mínimo</Label>
@@ -1039,6 +1823,8 @@ export default function WalletDetailPage() {
         </TabsList>
 
         <TabsContent value="resumo" className="space-y-4">
+          <AlertStateCard walletId={walletId} />
+          <AlertRulesCard walletId={walletId} />
           <PnlCard
             walletId={walletId}
             currentDebtUsd={accountData?.totalDebtUsd ?? totals?.debtUsd}
@@ -1093,9 +1879,20 @@ export default function WalletDetailPage() {
               !recommendations?.additionalBorrowUsd ? (
                 <p>HF dentro do intervalo alvo.</p>
               ) : null}
+              {capWarnings.map((warning) => (
+                <p key={warning.action} className="text-amber-500">
+                  {warning.message}
+                </p>
+              ))}
             </CardContent>
           </Card>
 
+          <InterestProjectionCard
+            projection={projectionData as ProjectionData | undefined}
+            hfMin={wallet?.wallet_hf_targets?.hf_min ?? DEFAULT_HF_MIN}
+            rateDisplay={rateDisplay}
+          />
+
           <Card>
             <CardHeader>
               <CardTitle>Melhor altcoin para borrow</CardTitle>
@@ -1107,6 +1904,13 @@ export default function WalletDetailPage() {
                   {recommendedBorrow}
                 </span>
               </p>
+              {recommendedCandidate?.rationale?.length ? (
+                <ul className="mt-2 list-disc space-y-1 pl-5 text-xs text-muted-foreground">
+                  {recommendedCandidate.rationale.map((line) => (
+                    <li key={line}>{line}</li>
+                  ))}
+                </ul>
+              ) : null}
             </CardContent>
           </Card>
 
@@ -1118,28 +1922,36 @@ export default function WalletDetailPage() {
               <Table>
                 <TableHeader>
                   <TableRow>
+                    <TableHead>#</TableHead>
                     <TableHead>Asset</TableHead>
-                    <TableHead>Borrow APR</TableHead>
-                    <TableHead>Liquidity APR</TableHead>
+                    <TableHead>Score</TableHead>
+                    <TableHead>Borrow {RATE_DISPLAY_LABEL[rateDisplay]}</TableHead>
+                    <TableHead>Liquidity {RATE_DISPLAY_LABEL[rateDisplay]}</TableHead>
                     <TableHead>Disponível</TableHead>
                     <TableHead>Recomendado</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {ratesData?.candidates?.map(
-                    (candidate: {
-                      symbol: string;
-                      variableBorrowApr: number;
-                      liquidityApr: number;
-                      borrowingEnabled: boolean;
-                      isActive: boolean;
-                      isFrozen: boolean;
-                      available: boolean;
-                    }) => (
+                  {(ratesData?.candidates as RankedBorrowCandidate[] | undefined)?.map(
+                    (candidate) => (
                       <TableRow key={candidate.symbol}>
-                        <TableCell>{candidate.symbol}</TableCell>
-                        <TableCell>{formatNumber(candidate.variableBorrowApr, 2)}%</TableCell>
-                        <TableCell>{formatNumber(candidate.liquidityApr, 2)}%</TableCell>
+                        <TableCell>{candidate.rank ?? "-"}</TableCell>
+                        <TableCell>
+                          <p>{candidate.symbol}</p>
+                          <p
+                            className="text-xs text-muted-foreground"
+                            title={candidate.rationale?.join("\n")}
+                          >
+                            {candidate.rationale?.[0]}
+                          </p>
+                        </TableCell>
+                        <TableCell>
+                          {typeof candidate.score === "number"
+                            ? formatNumber(candidate.score, 0)
+                            : "-"}
+                        </TableCell>
+                        <TableCell>{formatNumber(candidateRates(candidate, rateDisplay).borrow, 2)}%</TableCell>
+                        <TableCell>{formatNumber(candidateRates(candidate, rateDisplay).supply, 2)}%</TableCell>
                         <TableCell>
                           {candidate.available ? "Sim" : "Não"}
                         </TableCell>
@@ -1171,6 +1983,10 @@ export default function WalletDetailPage() {
                     <TableHead>Asset</TableHead>
                     <TableHead>Dívida</TableHead>
                     <TableHead>USD</TableHead>
+                    <TableHead>Preço</TableHead>
+                    <TableHead>Borrow cap livre</TableHead>
+                    <TableHead>Liquidação (HF 1.0)</TableHead>
+                    <TableHead>HF mínimo</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
@@ -1183,6 +1999,24 @@ export default function WalletDetailPage() {
                       <TableCell>
                         {reserve.debtUsd > 0 ? formatUsd(reserve.debtUsd) : "-"}
                       </TableCell>
+                      <TableCell>
+                        {formatUsd(reserve.priceInUsd)}
+                      </TableCell>
+                      <TableCell>
+                        <CapHeadroomCell caps={reserve.caps} kind="borrow" />
+                      </TableCell>
+                      <TableCell>
+                        <LiquidationPriceCell
+                          entry={liquidationPrices.get(reserve.symbol)}
+                          target="liquidation"
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <LiquidationPriceCell
+                          entry={liquidationPrices.get(reserve.symbol)}
+                          target="hfMin"
+                        />
+                      </TableCell>
                     </TableRow>
                   ))}
                 </TableBody>
@@ -1203,12 +2037,23 @@ export default function WalletDetailPage() {
                     <TableHead>Asset</TableHead>
                     <TableHead>Colateral</TableHead>
                     <TableHead>USD</TableHead>
+                    <TableHead>Preço</TableHead>
+                    <TableHead>Supply cap livre</TableHead>
+                    <TableHead>Liquidação (HF 1.0)</TableHead>
+                    <TableHead>HF mínimo</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
                   {collateralReserves.map((reserve) => (
                     <TableRow key={reserve.symbol}>
-                      <TableCell>{reserve.symbol}</TableCell>
+                      <TableCell>
+                        {reserve.symbol}
+                        {reserve.inEMode ? (
+                          <Badge variant="secondary" className="ml-2">
+                            e-mode
+                          </Badge>
+                        ) : null}
+                      </TableCell>
                       <TableCell>
                         {formatToken(
                           reserve.collateralAmount,
@@ -1221,6 +2066,24 @@ export default function WalletDetailPage() {
                           ? formatUsd(reserve.collateralUsd)
                           : "-"}
                       </TableCell>
+                      <TableCell>
+                        {formatUsd(reserve.priceInUsd)}
+                      </TableCell>
+                      <TableCell>
+                        <CapHeadroomCell caps={reserve.caps} kind="supply" />
+                      </TableCell>
+                      <TableCell>
+                        <LiquidationPriceCell
+                          entry={liquidationPrices.get(reserve.symbol)}
+                          target="liquidation"
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <LiquidationPriceCell
+                          entry={liquidationPrices.get(reserve.symbol)}
+                          target="hfMin"
+                        />
+                      </TableCell>
                     </TableRow>
                   ))}
                 </TableBody>
@@ -1337,6 +2200,178 @@ export default function WalletDetailPage() {
               </div>
             </CardContent>
           </Card>
+          <Card className="mt-4">
+            <CardHeader>
+              <CardTitle>Choques multi-asset</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="flex flex-wrap items-end gap-4">
+                <div className="space-y-2">
+                  <Label>Modo</Label>
+                  <Select
+                    value={shockMode}
+                    onValueChange={(value) => setShockMode(value as ShockMode)}
+                  >
+                    <SelectTrigger className="w-52">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="manual">Manual por asset</SelectItem>
+                      <SelectItem value="correlated">Correlacionado</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                {shockMode === "manual" ? (
+                  <div className="flex flex-wrap gap-2">
+                    {PRICE_SHOCK_PRESETS.map((preset) => (
+                      <Button
+                        key={preset.id}
+                        variant="outline"
+                        size="sm"
+                        onClick={() =>
+                          setAssetShocks(scenarioShocks(shockPositions, preset))
+                        }
+                      >
+                        {preset.label}
+                      </Button>
+                    ))}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setAssetShocks({})}
+                    >
+                      Limpar
+                    </Button>
+                  </div>
+                ) : (
+                  <div className="min-w-64 flex-1 space-y-2">
+                    <Label>Variação do mercado</Label>
+                    <div className="flex items-center gap-4">
+                      <Slider
+                        value={[marketChange]}
+                        onValueChange={(values) => setMarketChange(values[0])}
+                        min={-80}
+                        max={80}
+                        step={5}
+                      />
+                      <span className="w-16 text-right text-sm">
+                        {marketChange}%
+                      </span>
+                    </div>
+                  </div>
+                )}
+              </div>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Asset</TableHead>
+                    <TableHead>Colateral USD</TableHead>
+                    <TableHead>Dívida USD</TableHead>
+                    <TableHead>
+                      {shockMode === "correlated" ? "Beta" : "Variação (%)"}
+                    </TableHead>
+                    {shockMode === "correlated" ? (
+                      <TableHead>Variação (%)</TableHead>
+                    ) : null}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {shockPositions.map((reserve) => (
+                    <TableRow key={reserve.symbol}>
+                      <TableCell>{reserve.symbol}</TableCell>
+                      <TableCell>
+                        {reserve.collateralUsd > 0
+                          ? formatUsd(reserve.collateralUsd)
+                          : "-"}
+                      </TableCell>
+                      <TableCell>
+                        {reserve.debtUsd > 0 ? formatUsd(reserve.debtUsd) : "-"}
+                      </TableCell>
+                      <TableCell>
+                        {shockMode === "correlated" ? (
+                          <Input
+                            type="number"
+                            step="0.1"
+                            className="w-24"
+                            value={
+                              assetBetas[reserve.symbol] ??
+                              (isStablecoin(reserve.symbol) ? 0 : 1)
+                            }
+                            onChange={(event) =>
+                              setAssetBetas((current) => ({
+                                ...current,
+                                [reserve.symbol]: Number(event.target.value),
+                              }))
+                            }
+                          />
+                        ) : (
+                          <Input
+                            type="number"
+                            step="5"
+                            className="w-24"
+                            value={assetShocks[reserve.symbol] ?? 0}
+                            onChange={(event) =>
+                              setAssetShocks((current) => ({
+                                ...current,
+                                [reserve.symbol]: Number(event.target.value),
+                              }))
+                            }
+                          />
+                        )}
+                      </TableCell>
+                      {shockMode === "correlated" ? (
+                        <TableCell>
+                          {formatPercent(activeShocks[reserve.symbol] ?? 0, 1)}
+                        </TableCell>
+                      ) : null}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              <Separator />
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Cenário</TableHead>
+                    <TableHead>HF simulado</TableHead>
+                    <TableHead>Colateral</TableHead>
+                    <TableHead>Dívida</TableHead>
+                    <TableHead>Estado</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {shockScenarios.map((scenario) => (
+                    <TableRow key={scenario.id}>
+                      <TableCell>{scenario.label}</TableCell>
+                      <TableCell>
+                        {formatNumber(scenario.result.healthFactor, 2)}
+                      </TableCell>
+                      <TableCell>
+                        {formatUsd(scenario.result.collateralUsd)}
+                      </TableCell>
+                      <TableCell>{formatUsd(scenario.result.debtUsd)}</TableCell>
+                      <TableCell>
+                        <Badge
+                          variant={
+                            scenario.result.liquidatable
+                              ? "destructive"
+                              : scenario.result.status === "Risco"
+                                ? "secondary"
+                                : "outline"
+                          }
+                        >
+                          {scenario.result.liquidatable
+                            ? "Liquidável"
+                            : scenario.result.status}
+                        </Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+          <StressReplayCard walletId={walletId} />
         </TabsContent>
 
         <TabsContent value="historico" className="space-y-4">
@@ -3,14 +3,15 @@ import { NextResponse } from "next/server";
 import { fetchReservesData } from "@/lib/aave/queries";
 import { coerceBool, reservePriceUsd } from "@/lib/aave/normalize";
 import { rayToPercent } from "@/lib/aave/math";
-import { parseAaveChain } from "@/lib/aave/chains";
+import { parseAaveForkQuery } from "@/lib/aave/forks";
+import { withUserRpc } from "@/lib/rpc/userEndpoints";
 
-export async function GET(request: Request) {
+async function getReserves(request: Request) {
   try {
-    const chain =
-      parseAaveChain(new URL(request.url).searchParams.get("chain")) ??
-      "polygon";
-    const { reserves, baseCurrency } = await fetchReservesData(chain);
+    const { fork, chain } = parseAaveForkQuery(
+      new URL(request.url).searchParams,
+    );
+    const { reserves, baseCurrency, source } = await fetchReservesData(chain, fork);
 
     const normalized = reserves.map((reserve) => ({
       underlyingAsset: reserve.underlyingAsset,
@@ -21,6 +22,7 @@ export async function GET(request: Request) {
       usageAsCollateralEnabled: coerceBool(reserve.usageAsCollateralEnabled),
       isActive: coerceBool(reserve.isActive),
       isFrozen: coerceBool(reserve.isFrozen),
+      isPaused: coerceBool(reserve.isPaused),
       liquidityRate: reserve.liquidityRate.toString(),
       variableBorrowRate: reserve.variableBorrowRate.toString(),
       liquidityApr: rayToPercent(reserve.liquidityRate),
@@ -29,6 +31,17 @@ export async function GET(request: Request) {
       priceInMarketReferenceCurrency:
         reserve.priceInMarketReferenceCurrency.toString(),
       priceInUsd: reservePriceUsd(reserve, baseCurrency),
+      eModeCategoryId: reserve.eModeCategoryId,
+      eModeLabel: reserve.eModeLabel,
+      eModeLtv: reserve.eModeLtv,
+      eModeLiquidationThreshold: reserve.eModeLiquidationThreshold,
+      borrowCap: reserve.borrowCap?.toString() ?? null,
+      supplyCap: reserve.supplyCap?.toString() ?? null,
+      debtCeiling: reserve.debtCeiling.toString(),
+      debtCeilingDecimals: reserve.debtCeilingDecimals,
+      isolationModeTotalDebt: reserve.isolationModeTotalDebt.toString(),
+      borrowableInIsolation: reserve.borrowableInIsolation,
+      isSiloedBorrowing: reserve.isSiloedBorrowing,
     }));
 
     return NextResponse.json({
@@ -40,6 +53,7 @@ export async function GET(request: Request) {
           baseCurrency.marketReferenceCurrencyPriceInUsd.toString(),
         networkBaseTokenPriceDecimals: baseCurrency.networkBaseTokenPriceDecimals,
       },
+      source,
     });
   } catch (error) {
     console.error("aave.reserves", error);
@@ -49,3 +63,5 @@ export async function GET(request: Request) {
     );
   }
 }
+
+export const GET = withUserRpc(getReserves);
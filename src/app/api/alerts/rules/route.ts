@@ -0,0 +1,216 @@
+import { NextResponse } from "next/server";
+
+import { parseRuleExpression } from "@/lib/alerts/expression";
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+
+export const dynamic = "force-dynamic";
+
+const RULE_COLUMNS =
+  "id,wallet_id,name,expression,enabled,active,active_since,last_notified_at,created_at,updated_at";
+const MAX_NAME_LENGTH = 80;
+const MAX_RULES_PER_WALLET = 20;
+
+async function getSessionUser() {
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  return { supabase, user };
+}
+
+function parseName(value: unknown) {
+  const name = typeof value === "string" ? value.trim() : "";
+  return name ? name.slice(0, MAX_NAME_LENGTH) : null;
+}
+
+function invalidExpression(detail: string) {
+  return NextResponse.json(
+    { error: "Invalid expression", detail },
+    { status: 400 },
+  );
+}
+
+export async function GET(request: Request) {
+  const { supabase, user } = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const walletId = new URL(request.url).searchParams.get("walletId");
+  if (!walletId) {
+    return NextResponse.json({ error: "Missing walletId" }, { status: 400 });
+  }
+
+  const { data, error } = await supabase
+    .from("wallet_alert_rules")
+    .select(RULE_COLUMNS)
+    .eq("user_id", user.id)
+    .eq("wallet_id", walletId)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    console.error("alerts.rules.list", error);
+    return NextResponse.json(
+      { error: "Failed to load alert rules" },
+      { status: 500 },
+    );
+  }
+  return NextResponse.json({ rules: data ?? [] });
+}
+
+export async function POST(request: Request) {
+  const { supabase, user } = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const walletId = typeof body?.walletId === "string" ? body.walletId : "";
+  const name = parseName(body?.name);
+  const expression =
+    typeof body?.expression === "string" ? body.expression.trim() : "";
+  if (!walletId || !name) {
+    return NextResponse.json(
+      { error: "walletId and name required" },
+      { status: 400 },
+    );
+  }
+  const parsed = parseRuleExpression(expression);
+  if ("error" in parsed) return invalidExpression(parsed.error);
+
+  // A wallet tem de ser do user (a RLS também o exige; aqui dá um 404 claro)
+  const { data: wallet, error: walletError } = await supabase
+    .from("user_wallets")
+    .select("id")
+    .eq("user_id", user.id)
+    .eq("id", walletId)
+    .maybeSingle();
+  if (walletError) {
+    console.error("alerts.rules.wallet", walletError);
+    return NextResponse.json(
+      { error: "Failed to load wallet" },
+      { status: 500 },
+    );
+  }
+  if (!wallet) {
+    return NextResponse.json({ error: "Wallet not found" }, { status: 404 });
+  }
+
+  const { count } = await supabase
+    .from("wallet_alert_rules")
+    .select("id", { count: "exact", head: true })
+    .eq("wallet_id", walletId);
+  if ((count ?? 0) >= MAX_RULES_PER_WALLET) {
+    return NextResponse.json(
+      {
+        error: "Too many rules",
+        detail: `Máximo de ${MAX_RULES_PER_WALLET} regras por wallet.`,
+      },
+      { status: 400 },
+    );
+  }
+
+  const { data, error } = await supabase
+    .from("wallet_alert_rules")
+    .insert({
+      wallet_id: walletId,
+      user_id: user.id,
+      name,
+      expression,
+      enabled: body?.enabled !== false,
+    })
+    .select(RULE_COLUMNS)
+    .single();
+
+  if (error) {
+    console.error("alerts.rules.create", error);
+    return NextResponse.json(
+      { error: "Failed to save alert rule" },
+      { status: 500 },
+    );
+  }
+  return NextResponse.json({ rule: data });
+}
+
+export async function PATCH(request: Request) {
+  const { supabase, user } = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  if (typeof body?.id !== "string" || !body.id) {
+    return NextResponse.json({ error: "Missing id" }, { status: 400 });
+  }
+
+  const update: Record<string, unknown> = {
+    updated_at: new Date().toISOString(),
+  };
+  if (body.name !== undefined) {
+    const name = parseName(body.name);
+    if (!name) {
+      return NextResponse.json({ error: "Invalid name" }, { status: 400 });
+    }
+    update.name = name;
+  }
+  if (body.enabled !== undefined) update.enabled = body.enabled === true;
+  if (body.expression !== undefined) {
+    const expression =
+      typeof body.expression === "string" ? body.expression.trim() : "";
+    const parsed = parseRuleExpression(expression);
+    if ("error" in parsed) return invalidExpression(parsed.error);
+    update.expression = expression;
+  }
+  // Condição nova (ou regra desligada) começa sem estado: não há "resolved" pendente
+  if (update.expression !== undefined || update.enabled === false) {
+    update.active = false;
+    update.active_since = null;
+  }
+
+  const { data, error } = await supabase
+    .from("wallet_alert_rules")
+    .update(update)
+    .eq("user_id", user.id)
+    .eq("id", body.id)
+    .select(RULE_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    console.error("alerts.rules.update", error);
+    return NextResponse.json(
+      { error: "Failed to save alert rule" },
+      { status: 500 },
+    );
+  }
+  if (!data) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+  return NextResponse.json({ rule: data });
+}
+
+export async function DELETE(request: Request) {
+  const { supabase, user } = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const id = new URL(request.url).searchParams.get("id");
+  if (!id) {
+    return NextResponse.json({ error: "Missing id" }, { status: 400 });
+  }
+
+  const { error } = await supabase
+    .from("wallet_alert_rules")
+    .delete()
+    .eq("user_id", user.id)
+    .eq("id", id);
+
+  if (error) {
+    console.error("alerts.rules.delete", error);
+    return NextResponse.json(
+      { error: "Failed to delete alert rule" },
+      { status: 500 },
+    );
+  }
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,76 @@
+import { NextResponse } from "next/server";
+
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+
+export const dynamic = "force-dynamic";
+
+const STATE_COLUMNS =
+  "wallet_id,status,hf,status_since,last_notified_at,last_notified_status,acknowledged_at,updated_at";
+
+async function getSessionUser() {
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  return { supabase, user };
+}
+
+export async function GET(request: Request) {
+  const { supabase, user } = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const walletId = new URL(request.url).searchParams.get("walletId");
+  let query = supabase
+    .from("wallet_alert_state")
+    .select(STATE_COLUMNS)
+    .eq("user_id", user.id);
+  if (walletId) query = query.eq("wallet_id", walletId);
+
+  const { data, error } = await query;
+  if (error) {
+    console.error("alerts.state.get", error);
+    return NextResponse.json(
+      { error: "Failed to load alert state" },
+      { status: 500 },
+    );
+  }
+  return NextResponse.json({ states: data ?? [] });
+}
+
+/** Reconhece (ou volta a ativar) os lembretes do estado atual da wallet. */
+export async function PATCH(request: Request) {
+  const { supabase, user } = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  if (typeof body?.walletId !== "string" || !body.walletId) {
+    return NextResponse.json({ error: "Missing walletId" }, { status: 400 });
+  }
+  const acknowledged = body.acknowledged !== false;
+  const now = new Date().toISOString();
+
+  const { data, error } = await supabase
+    .from("wallet_alert_state")
+    .update({ acknowledged_at: acknowledged ? now : null, updated_at: now })
+    .eq("user_id", user.id)
+    .eq("wallet_id", body.walletId)
+    .neq("status", "OK")
+    .select(STATE_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    console.error("alerts.state.ack", error);
+    return NextResponse.json(
+      { error: "Failed to update alert state" },
+      { status: 500 },
+    );
+  }
+  if (!data) {
+    return NextResponse.json({ error: "No active alert" }, { status: 404 });
+  }
+  return NextResponse.json({ state: data });
+}
@@ -1,7 +1,14 @@
 import { NextResponse } from "next/server";
 
 import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { enqueueWebhook } from "@/lib/webhooks/outbox";
 
+const MAX_PAYLOAD_BYTES = 64_000;
+
+/**
+ * Reencaminha um evento do user para o n8n pelo outbox: assinado com o secret
+ * do user e repetido com backoff se o n8n falhar.
+ */
 export async function POST(request: Request) {
   const webhookUrl = process.env.N8N_WEBHOOK_URL;
   if (!webhookUrl) {
@@ -17,29 +24,38 @@ export async function POST(request: Request) {
     return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
   }
 
-  const payload = await request.json();
+  const payload = await request.json().catch(() => null);
+  if (!payload || typeof payload !== "object" || Array.isArray(payload)) {
+    return NextResponse.json({ error: "Invalid payload" }, { status: 400 });
+  }
+  if (JSON.stringify(payload).length > MAX_PAYLOAD_BYTES) {
+    return NextResponse.json({ error: "Payload too large" }, { status: 413 });
+  }
 
-  const response = await fetch(webhookUrl, {
-    method: "POST",
-    headers: { "content-type": "application/json" },
-    body: JSON.stringify({
+  try {
+    const delivery = await enqueueWebhook({
       userId: user.id,
-      ...payload,
-    }),
-  });
-
-  if (!response.ok) {
-    const text = await response.text().catch(() => "");
-    console.error("webhook.forward", response.status, text);
+      url: webhookUrl,
+      target: "operator",
+      event: typeof payload.event === "string" ? payload.event : "custom",
+      // userId por último: o cliente não o pode substituir
+      payload: { ...payload, userId: user.id },
+    });
+    // 202: ficou no outbox para nova tentativa
     return NextResponse.json(
       {
-        error: "Webhook request failed",
-        status: response.status,
-        body: text,
+        ok: true,
+        id: delivery.id,
+        status: delivery.status,
+        nextAttemptAt: delivery.next_attempt_at,
       },
-      { status: 502 },
+      { status: delivery.status === "delivered" ? 200 : 202 },
+    );
+  } catch (error) {
+    console.error("webhook.enqueue", error);
+    return NextResponse.json(
+      { error: "Failed to queue webhook" },
+      { status: 500 },
     );
   }
-
-  return NextResponse.json({ ok: true });
 }
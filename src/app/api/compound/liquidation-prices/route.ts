@@ -0,0 +1,5 @@
+import { liquidationPricesHandler } from "@/lib/adapters/routes";
+
+export const dynamic = "force-dynamic";
+
+export const GET = liquidationPricesHandler("compound");
@@ -1,15 +1,36 @@
 import { NextResponse } from "next/server";
 import { isAddress } from "viem";
-import { createClient } from "@supabase/supabase-js";
+import type { SupabaseClient } from "@supabase/supabase-js";
 
-import { fetchUserAccountData } from "@/lib/aave/queries";
-import { baseToUsd, DEFAULT_BASE_CURRENCY } from "@/lib/aave/normalize";
-import { parseAaveChain } from "@/lib/aave/chains";
-import { fetchCompoundAccountData } from "@/lib/compound/queries";
-import { parseCompoundChain } from "@/lib/compound/chains";
-import { getTargetedRecommendations, parseRayToNumber } from "@/lib/calculations";
+import { getLendingAdapter } from "@/lib/adapters";
+import {
+  AlertKind,
+  AlertStatus,
+  WalletAlertState,
+  decideAlert,
+} from "@/lib/alerts/engine";
+import { evaluateRule, parseRuleExpression } from "@/lib/alerts/expression";
+import {
+  RuleStateUpdate,
+  WalletAlertRule,
+  buildRuleContext,
+  decideRule,
+} from "@/lib/alerts/rules";
+import type { AlertItem } from "@/lib/alerts/types";
+import type {
+  LendingProtocolAdapter,
+  ProtocolTarget,
+} from "@/lib/adapters/types";
+import { checkRecommendationCaps } from "@/lib/caps";
+import { getTargetedRecommendations } from "@/lib/calculations";
 import { DEFAULT_HF_MAX, DEFAULT_HF_MIN } from "@/lib/constants";
+import { isCronAuthorized } from "@/lib/cron";
+import { parseAaveChain } from "@/lib/aave/chains";
+import { deliverAlerts } from "@/lib/notifications";
 import { Protocol } from "@/lib/protocols";
+import { RpcOverrides, runWithRpcOverrides } from "@/lib/rpc/context";
+import { isAllowedRpcUrl } from "@/lib/rpc/userEndpoints";
+import { createSupabaseAdminClient } from "@/lib/supabase/admin";
 
 type WalletRow = {
   id: string;
@@ -18,26 +39,10 @@ type WalletRow = {
   label: string | null;
   chain: string;
   protocol: Protocol | null;
+  market: string | null;
   wallet_hf_targets?: { hf_min: number; hf_max: number } | null;
 };
 
-type AlertItem = {
-  walletId: string;
-  userId: string;
-  address: string;
-  name: string;
-  chain: string;
-  protocol: Protocol;
-  status: "OK" | "Risco" | "Crítico" | "Acima do alvo";
-  hf: number;
-  hfMin: number;
-  hfMax: number;
-  collateralUsd: number;
-  debtUsd: number;
-  liquidationThresholdBps: number;
-  recommendations: ReturnType<typeof getTargetedRecommendations>;
-};
-
 async function mapWithConcurrency<T, R>(
   items: T[],
   limit: number,
@@ -56,7 +61,7 @@ async function mapWithConcurrency<T, R>(
 
 const ABOVE_MAX_NOTIFY_PCT = Number(process.env.ALERTS_MAX_BUFFER_PCT ?? "0.1");
 
-function getStatus(hf: number, hfMin: number, hfMax: number) {
+function getStatus(hf: number, hfMin: number, hfMax: number): AlertStatus {
   if (!Number.isFinite(hf)) return "OK";
   if (hf > hfMax) return "Acima do alvo";
   if (hf < 1) return "Crítico";
@@ -64,7 +69,7 @@ function getStatus(hf: number, hfMin: number, hfMax: number) {
   return "OK";
 }
 
-function shouldNotify(status: AlertItem["status"], hf: number, hfMax: number) {
+function shouldNotify(status: AlertStatus, hf: number, hfMax: number) {
   if (status === "OK") return false;
   if (status !== "Acima do alvo") return true;
   const buffer = Number.isFinite(ABOVE_MAX_NOTIFY_PCT)
@@ -73,38 +78,311 @@ function shouldNotify(status: AlertItem["status"], hf: number, hfMax: number) {
   return hf > hfMax * (1 + buffer);
 }
 
-function getAdminClient() {
-  const url = process.env.NEXT_PUBLIC_SUPABASE_URL ?? "";
-  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY ?? "";
-  if (!url || !serviceKey) {
-    throw new Error("Missing Supabase service role configuration.");
+// Caps só importam quando há colateral a adicionar ou borrow a fazer
+async function fetchCapWarnings(
+  adapter: LendingProtocolAdapter,
+  wallet: WalletRow,
+  target: ProtocolTarget,
+  recommendations: AlertItem["recommendations"],
+) {
+  if (
+    !("addCollateralUsd" in recommendations) &&
+    !("additionalBorrowUsd" in recommendations)
+  ) {
+    return [];
+  }
+  try {
+    const { reserves } = await adapter.userReserves(
+      wallet.address as `0x${string}`,
+      target,
+    );
+    return checkRecommendationCaps({ recommendations, reserves });
+  } catch (error) {
+    console.warn("cron.alerts.caps", wallet.id, error);
+    return [];
+  }
+}
+
+type WalletCheck = {
+  /** failed = erro a ler a wallet (RPC, adapter); não bloqueia as restantes. */
+  outcome: "checked" | "skipped" | "failed";
+  error?: string;
+  alerts: AlertItem[];
+  /** Estado a gravar em wallet_alert_state (null = wallet não verificada). */
+  state: WalletAlertState | null;
+  ruleUpdates: RuleStateUpdate[];
+};
+
+// Regras do user: avaliadas com os dados já lidos e só os preços/taxas que pedem
+async function checkRules(params: {
+  rules: WalletAlertRule[];
+  context: Omit<Parameters<typeof buildRuleContext>[0], "rules">;
+}) {
+  const parsed = params.rules.flatMap((rule) => {
+    const result = parseRuleExpression(rule.expression);
+    if ("error" in result) {
+      console.warn("cron.alerts.rule", rule.id, result.error);
+      return [];
+    }
+    return [{ rule, parsed: result }];
+  });
+  if (!parsed.length) return [];
+
+  let context: Awaited<ReturnType<typeof buildRuleContext>>;
+  try {
+    context = await buildRuleContext({
+      ...params.context,
+      rules: parsed.map((item) => item.parsed),
+    });
+  } catch (error) {
+    // Sem dados as regras ficam por decidir (null); o alerta de HF segue
+    console.warn(
+      "cron.alerts.rules.context",
+      params.rules[0]?.wallet_id,
+      error,
+    );
+    return [];
   }
-  return createClient(url, serviceKey, {
-    auth: { persistSession: false, autoRefreshToken: false },
+  return parsed.flatMap(({ rule, parsed: result }) => {
+    const decision = decideRule(
+      rule,
+      evaluateRule(result.ast, context),
+      params.context.now,
+    );
+    return decision ? [{ rule, ...decision }] : [];
   });
 }
 
+async function checkWallet(
+  wallet: WalletRow,
+  previous: WalletAlertState | null,
+  rules: WalletAlertRule[],
+  now: Date,
+): Promise<WalletCheck> {
+  const skipped: WalletCheck = {
+    outcome: "skipped",
+    alerts: [],
+    state: null,
+    ruleUpdates: [],
+  };
+  if (!wallet.address || !isAddress(wallet.address)) {
+    return skipped;
+  }
+  const hfMin = wallet.wallet_hf_targets?.hf_min ?? DEFAULT_HF_MIN;
+  const hfMax = wallet.wallet_hf_targets?.hf_max ?? DEFAULT_HF_MAX;
+  const protocol = (wallet.protocol ?? "aave") as Protocol;
+  const adapter = getLendingAdapter(protocol);
+  const target = adapter.resolveTarget(wallet.chain, wallet.market);
+  if (!target) {
+    console.warn("cron.alerts.market", wallet.id, wallet.market);
+    return skipped;
+  }
+
+  const account = await adapter.accountData(
+    wallet.address as `0x${string}`,
+    target,
+  );
+  const hf = account.healthFactorValue;
+  const rawStatus = getStatus(hf, hfMin, hfMax);
+  // "Acima do alvo" dentro do buffer conta como OK
+  const status = shouldNotify(rawStatus, hf, hfMax) ? rawStatus : "OK";
+  const decision = decideAlert({
+    previous,
+    walletId: wallet.id,
+    userId: wallet.user_id,
+    status,
+    hf: Number.isFinite(hf) ? hf : null,
+    now,
+  });
+  const ruleResults = await checkRules({
+    rules,
+    context: {
+      adapter,
+      address: wallet.address as `0x${string}`,
+      target,
+      account,
+      hfMin,
+      hfMax,
+      previous,
+      now,
+    },
+  });
+  if (!decision.kind && !ruleResults.length) {
+    return {
+      outcome: "checked",
+      alerts: [],
+      state: decision.next,
+      ruleUpdates: [],
+    };
+  }
+
+  const recommendations = getTargetedRecommendations({
+    collateralUsd: account.totalCollateralUsd,
+    debtUsd: account.totalDebtUsd,
+    liquidationThresholdBps: account.currentLiquidationThreshold,
+    hfMin,
+    hfMax,
+  });
+  const buildAlert = (
+    kind: AlertKind,
+    extra: Partial<AlertItem> = {},
+  ): AlertItem => ({
+    walletId: wallet.id,
+    userId: wallet.user_id,
+    address: wallet.address,
+    name: wallet.label ?? wallet.address,
+    chain: target.chain,
+    protocol,
+    market: target.market,
+    status,
+    kind,
+    previousStatus: previous?.status ?? "OK",
+    hf,
+    hfMin,
+    hfMax,
+    collateralUsd: account.totalCollateralUsd,
+    debtUsd: account.totalDebtUsd,
+    liquidationThresholdBps: account.currentLiquidationThreshold,
+    recommendations,
+    capWarnings: [],
+    ...extra,
+  });
+
+  const alerts: AlertItem[] = [];
+  if (decision.kind) {
+    alerts.push(
+      buildAlert(decision.kind, {
+        capWarnings:
+          decision.kind === "resolved"
+            ? []
+            : await fetchCapWarnings(adapter, wallet, target, recommendations),
+      }),
+    );
+  }
+  ruleResults.forEach(({ rule, kind }) => {
+    alerts.push(
+      buildAlert(kind, {
+        rule: { id: rule.id, name: rule.name, expression: rule.expression },
+      }),
+    );
+  });
+
+  return {
+    outcome: "checked",
+    alerts,
+    state: decision.next,
+    ruleUpdates: ruleResults.map((result) => result.update),
+  };
+}
+
+type AlertRunError = { walletId: string; userId: string; error: string };
+
+/** Linha de alert_cron_runs: resumo de cada execução do cron. */
+type AlertRunReport = {
+  started_at: string;
+  finished_at: string;
+  duration_ms: number;
+  status: "ok" | "partial" | "error";
+  wallets: number;
+  checked: number;
+  skipped: number;
+  failed: number;
+  alerted: number;
+  notifications_sent: number;
+  notifications_failed: number;
+  errors: AlertRunError[];
+  error: string | null;
+};
+
+function buildRunReport(params: {
+  startedAt: Date;
+  results?: WalletCheck[];
+  wallets?: Pick<WalletRow, "id" | "user_id">[];
+  deliveries?: { sent: number; failed: number };
+  error?: string;
+}): AlertRunReport {
+  const finishedAt = new Date();
+  const results = params.results ?? [];
+  const errors = results.flatMap((result, index) => {
+    const wallet = params.wallets?.[index];
+    return result.outcome === "failed" && wallet
+      ? [
+          {
+            walletId: wallet.id,
+            userId: wallet.user_id,
+            error: result.error ?? "Unknown error",
+          },
+        ]
+      : [];
+  });
+  const count = (outcome: WalletCheck["outcome"]) =>
+    results.filter((result) => result.outcome === outcome).length;
+  return {
+    started_at: params.startedAt.toISOString(),
+    finished_at: finishedAt.toISOString(),
+    duration_ms: finishedAt.getTime() - params.startedAt.getTime(),
+    status: params.error ? "error" : errors.length ? "partial" : "ok",
+    wallets: results.length,
+    checked: count("checked"),
+    skipped: count("skipped"),
+    failed: count("failed"),
+    alerted: results.filter((result) => result.alerts.length > 0).length,
+    notifications_sent: params.deliveries?.sent ?? 0,
+    notifications_failed: params.deliveries?.failed ?? 0,
+    errors,
+    error: params.error ?? null,
+  };
+}
+
+// O relatório é best-effort: falhar a gravá-lo não falha o run
+async function saveRunReport(
+  supabase: SupabaseClient | null,
+  report: AlertRunReport,
+) {
+  if (!supabase) return null;
+  const { data, error } = await supabase
+    .from("alert_cron_runs")
+    .insert(report)
+    .select("id")
+    .single();
+  if (error) {
+    console.error("cron.alerts.report", error);
+    return null;
+  }
+  return data.id as string;
+}
+
 export async function GET(request: Request) {
-  const { searchParams } = new URL(request.url);
-  const secret = searchParams.get("secret");
-  if (!secret || secret !== process.env.ALERTS_POLL_SECRET) {
+  if (!isCronAuthorized(request)) {
     return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
   }
 
+  const startedAt = new Date();
+  let admin: SupabaseClient | null = null;
+  // Erros que abortam o run também ficam em alert_cron_runs
+  const fail = async (
+    error: string,
+    extra: Parameters<typeof buildRunReport>[0] = { startedAt },
+  ) => {
+    const runId = await saveRunReport(
+      admin,
+      buildRunReport({ ...extra, error }),
+    );
+    return NextResponse.json({ error, runId }, { status: 500 });
+  };
+
   try {
-    const supabase = getAdminClient();
+    const supabase = createSupabaseAdminClient();
+    admin = supabase;
     const { data, error } = await supabase
       .from("user_wallets")
       .select(
-        "id,user_id,address,label,chain,protocol,wallet_hf_targets ( hf_min, hf_max )",
+        "id,user_id,address,label,chain,protocol,market,wallet_hf_targets ( hf_min, hf_max )",
       );
 
     if (error) {
       console.error("cron.alerts.wallets", error);
-      return NextResponse.json(
-        { error: "Failed to load wallets" },
-        { status: 500 },
-      );
+      return fail("Failed to load wallets");
     }
 
     const wallets = (data ?? []).map((row) => {
@@ -117,109 +395,163 @@ export async function GET(request: Request) {
       };
     }) as WalletRow[];
 
-    const results = await mapWithConcurrency(wallets, 3, async (wallet) => {
-      if (!wallet.address || !isAddress(wallet.address)) {
-        return null;
+    // RPCs configurados por cada user (Settings) para as leituras das wallets dele
+    const { data: rpcRows, error: rpcError } = await supabase
+      .from("user_rpc_endpoints")
+      .select("user_id,chain,url");
+    if (rpcError) {
+      console.warn("cron.alerts.rpc", rpcError.message);
+    }
+    const rpcByUser = new Map<string, RpcOverrides>();
+    (rpcRows ?? []).forEach((row) => {
+      const chain = parseAaveChain(row.chain);
+      if (!chain) return;
+      if (!isAllowedRpcUrl(row.url)) {
+        console.warn("cron.alerts.rpc.rejected", row.user_id, chain);
+        return;
       }
-      const hfMin = wallet.wallet_hf_targets?.hf_min ?? DEFAULT_HF_MIN;
-      const hfMax = wallet.wallet_hf_targets?.hf_max ?? DEFAULT_HF_MAX;
-      const protocol = (wallet.protocol ?? "aave") as Protocol;
-
-      if (protocol === "compound") {
-        const chain = parseCompoundChain(wallet.chain) ?? "arbitrum";
-        const account = await fetchCompoundAccountData(
-          wallet.address as `0x${string}`,
-          chain,
-        );
-        const status = getStatus(account.healthFactorValue, hfMin, hfMax);
-        if (!shouldNotify(status, account.healthFactorValue, hfMax)) return null;
-        return {
-          walletId: wallet.id,
-          userId: wallet.user_id,
-          address: wallet.address,
-          name: wallet.label ?? wallet.address,
-          chain,
-          protocol,
-          status,
-          hf: account.healthFactorValue,
-          hfMin,
-          hfMax,
-          collateralUsd: account.totalCollateralUsd,
-          debtUsd: account.totalDebtUsd,
-          liquidationThresholdBps: account.currentLiquidationThreshold,
-          recommendations: getTargetedRecommendations({
-            collateralUsd: account.totalCollateralUsd,
-            debtUsd: account.totalDebtUsd,
-            liquidationThresholdBps: account.currentLiquidationThreshold,
-            hfMin,
-            hfMax,
-          }),
-        } satisfies AlertItem;
+      const overrides = rpcByUser.get(row.user_id) ?? {};
+      overrides[chain] = row.url;
+      rpcByUser.set(row.user_id, overrides);
+    });
+
+    const { data: stateRows, error: stateError } = await supabase
+      .from("wallet_alert_state")
+      .select("*");
+    if (stateError) {
+      // Sem estado não há como evitar alertas repetidos
+      console.error("cron.alerts.state", stateError);
+      return fail("Failed to load alert state");
+    }
+    const stateByWallet = new Map(
+      ((stateRows ?? []) as WalletAlertState[]).map((row) => [
+        row.wallet_id,
+        row,
+      ]),
+    );
+
+    const { data: ruleRows, error: rulesError } = await supabase
+      .from("wallet_alert_rules")
+      .select("*")
+      .eq("enabled", true);
+    if (rulesError) {
+      // Sem regras os alertas de HF continuam a funcionar
+      console.warn("cron.alerts.rules", rulesError.message);
+    }
+    const rulesByWallet = new Map<string, WalletAlertRule[]>();
+    ((ruleRows ?? []) as WalletAlertRule[]).forEach((rule) => {
+      rulesByWallet.set(rule.wallet_id, [
+        ...(rulesByWallet.get(rule.wallet_id) ?? []),
+        rule,
+      ]);
+    });
+
+    const now = new Date();
+    const results = await mapWithConcurrency(
+      wallets,
+      3,
+      async (wallet): Promise<WalletCheck> => {
+        try {
+          return await runWithRpcOverrides(
+            rpcByUser.get(wallet.user_id) ?? {},
+            () =>
+              checkWallet(
+                wallet,
+                stateByWallet.get(wallet.id) ?? null,
+                rulesByWallet.get(wallet.id) ?? [],
+                now,
+              ),
+          );
+        } catch (walletError) {
+          // Sem estado novo: a wallet volta a ser avaliada no próximo poll
+          console.error("cron.alerts.wallet", wallet.id, walletError);
+          return {
+            outcome: "failed",
+            error:
+              walletError instanceof Error
+                ? walletError.message
+                : String(walletError),
+            alerts: [],
+            state: null,
+            ruleUpdates: [],
+          };
+        }
+      },
+    );
+
+    const alerts = results.flatMap((result) => result.alerts);
+    // Canais configurados em Settings; o caller continua a receber os alertas
+    const { summary: deliveries, failedAlerts } = await deliverAlerts(
+      supabase,
+      alerts,
+    );
+
+    // Só grava o estado dos alertas entregues: os que falharam em todos os
+    // canais voltam a ser decididos (e enviados) no próximo poll
+    const states = results
+      .filter(
+        (result) =>
+          !result.alerts.some(
+            (alert) => !alert.rule && failedAlerts.has(alert),
+          ),
+      )
+      .map((result) => result.state)
+      .filter((state): state is WalletAlertState => state !== null);
+    if (states.length) {
+      const { error: saveError } = await supabase
+        .from("wallet_alert_state")
+        .upsert(states, { onConflict: "wallet_id" });
+      if (saveError) {
+        // Sem estado gravado os alertas já entregues repetem-se no próximo poll
+        console.error("cron.alerts.state.save", saveError);
+        return fail("Failed to save alert state", {
+          startedAt,
+          results,
+          wallets,
+          deliveries,
+        });
       }
+    }
 
-      const chain = parseAaveChain(wallet.chain) ?? "polygon";
-      const accountData = await fetchUserAccountData(
-        wallet.address as `0x${string}`,
-        chain,
-      );
-      const [
-        totalCollateralBase,
-        totalDebtBase,
-        _availableBorrowsBase,
-        currentLiquidationThreshold,
-        _ltv,
-        healthFactor,
-      ] = accountData;
-      const baseCurrency = DEFAULT_BASE_CURRENCY;
-      const collateralUsd = baseToUsd(totalCollateralBase, baseCurrency);
-      const debtUsd = baseToUsd(totalDebtBase, baseCurrency);
-      const ltBps = Number(currentLiquidationThreshold);
-      const hfFromTotals =
-        debtUsd > 0 && ltBps > 0
-          ? (collateralUsd * (ltBps / 10000)) / debtUsd
-          : Infinity;
-      const hfValue = parseRayToNumber(healthFactor);
-      const healthFactorValue =
-        Number.isFinite(hfValue) && hfValue > 0.05 ? hfValue : hfFromTotals;
-
-      const status = getStatus(healthFactorValue, hfMin, hfMax);
-      if (!shouldNotify(status, healthFactorValue, hfMax)) return null;
-      return {
-        walletId: wallet.id,
-        userId: wallet.user_id,
-        address: wallet.address,
-        name: wallet.label ?? wallet.address,
-        chain,
-        protocol,
-        status,
-        hf: healthFactorValue,
-        hfMin,
-        hfMax,
-        collateralUsd,
-        debtUsd,
-        liquidationThresholdBps: ltBps,
-        recommendations: getTargetedRecommendations({
-          collateralUsd,
-          debtUsd,
-          liquidationThresholdBps: ltBps,
-          hfMin,
-          hfMax,
-        }),
-      } satisfies AlertItem;
+    const ruleUpdates = results.flatMap((result) =>
+      result.ruleUpdates.filter(
+        (update) =>
+          !result.alerts.some(
+            (alert) => alert.rule?.id === update.id && failedAlerts.has(alert),
+          ),
+      ),
+    );
+    const ruleErrors = await Promise.all(
+      ruleUpdates.map(async ({ id, ...update }) => {
+        const { error: ruleError } = await supabase
+          .from("wallet_alert_rules")
+          .update(update)
+          .eq("id", id);
+        return ruleError;
+      }),
+    );
+    ruleErrors.forEach((ruleError) => {
+      if (ruleError) console.error("cron.alerts.rules.save", ruleError);
     });
 
-    const alerts = results.filter((item) => item !== null) as AlertItem[];
+    const report = buildRunReport({
+      startedAt,
+      results,
+      wallets,
+      deliveries,
+    });
+    const runId = await saveRunReport(supabase, report);
 
     return NextResponse.json({
       ok: true,
-      checkedAt: new Date().toISOString(),
+      checkedAt: now.toISOString(),
+      runId,
+      report,
       alerts,
+      deliveries,
     });
   } catch (error) {
     console.error("cron.alerts", error);
-    return NextResponse.json(
-      { error: "Failed to run alerts poll" },
-      { status: 500 },
-    );
+    return fail("Failed to run alerts poll");
   }
 }
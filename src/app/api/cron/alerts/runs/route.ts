@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+
+import { isCronAuthorized } from "@/lib/cron";
+import { createSupabaseAdminClient } from "@/lib/supabase/admin";
+
+export const dynamic = "force-dynamic";
+
+const RUN_STATUSES = ["ok", "partial", "error"];
+
+/** Últimos runs do cron de alertas (?limit=, ?status=ok|partial|error). */
+export async function GET(request: Request) {
+  if (!isCronAuthorized(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const limitRaw = Number(searchParams.get("limit") ?? 20);
+  const limit = Math.max(
+    1,
+    Math.min(100, Number.isFinite(limitRaw) ? Math.floor(limitRaw) : 20),
+  );
+  const status = searchParams.get("status");
+  if (status && !RUN_STATUSES.includes(status)) {
+    return NextResponse.json({ error: "Invalid status" }, { status: 400 });
+  }
+
+  try {
+    const supabase = createSupabaseAdminClient();
+    let query = supabase
+      .from("alert_cron_runs")
+      .select("*")
+      .order("started_at", { ascending: false })
+      .limit(limit);
+    if (status) {
+      query = query.eq("status", status);
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      console.error("cron.alerts.runs", error);
+      return NextResponse.json(
+        { error: "Failed to load alert runs" },
+        { status: 500 },
+      );
+    }
+    return NextResponse.json({ runs: data ?? [] });
+  } catch (error) {
+    console.error("cron.alerts.runs", error);
+    return NextResponse.json(
+      { error: "Failed to load alert runs" },
+      { status: 500 },
+    );
+  }
+}
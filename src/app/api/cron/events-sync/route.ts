@@ -1,7 +1,8 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
 
-import { fetchSubgraphEvents } from "@/lib/history/subgraph";
+import { getLendingAdapter } from "@/lib/adapters";
+import { isCronAuthorized } from "@/lib/cron";
 import { fetchHistoricalTokenPriceUsd } from "@/lib/history/prices";
 import { Protocol } from "@/lib/protocols";
 
@@ -17,6 +18,7 @@ type WalletRow = {
   address: string;
   chain: string;
   protocol: Protocol | null;
+  market: string | null;
 };
 
 type StrategyEventInsert = {
@@ -59,9 +61,7 @@ function toTimestamp(value: number | null | undefined) {
 }
 
 export async function GET(request: Request) {
-  const authHeader = request.headers.get("authorization");
-  const expectedSecret = process.env.CRON_SECRET;
-  if (!expectedSecret || authHeader !== `Bearer ${expectedSecret}`) {
+  if (!isCronAuthorized(request)) {
     return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
   }
 
@@ -73,7 +73,7 @@ export async function GET(request: Request) {
   // Fetch all wallets
   const { data: wallets, error: walletsError } = await supabase
     .from("user_wallets")
-    .select("id,user_id,address,chain,protocol")
+    .select("id,user_id,address,chain,protocol,market")
     .not("protocol", "is", null);
 
   if (walletsError) {
@@ -120,10 +120,14 @@ export async function GET(request: Request) {
           return { walletId: wallet.id, synced: 0, error: null };
         }
 
-        const events = await fetchSubgraphEvents({
-          protocol: wallet.protocol!,
-          chain: wallet.chain,
-          address: wallet.address,
+        // Protocolos sem fonte de eventos (ex: Morpho) ficam de fora
+        const adapter = getLendingAdapter(wallet.protocol!);
+        const target = adapter.resolveTarget(wallet.chain, wallet.market);
+        if (!adapter.events || !target) {
+          return { walletId: wallet.id, synced: 0, error: null };
+        }
+
+        const events = await adapter.events(wallet.address, target, {
           fromTimestamp: startTimestamp,
           maxEvents,
         });
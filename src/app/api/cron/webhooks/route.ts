@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+
+import { isCronAuthorized } from "@/lib/cron";
+import { processWebhookOutbox } from "@/lib/webhooks/outbox";
+
+export const dynamic = "force-dynamic";
+
+/** Repete as entregas do outbox cuja próxima tentativa já passou. */
+export async function GET(request: Request) {
+  if (!isCronAuthorized(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const summary = await processWebhookOutbox();
+    return NextResponse.json({ ok: true, ...summary });
+  } catch (error) {
+    console.error("cron.webhooks", error);
+    return NextResponse.json(
+      { error: "Failed to process webhook outbox" },
+      { status: 500 },
+    );
+  }
+}
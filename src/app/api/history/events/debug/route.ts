@@ -1,8 +1,11 @@
 import { NextResponse } from "next/server";
 
 import { createSupabaseServerClient } from "@/lib/supabase/server";
-import { parseAaveChain } from "@/lib/aave/chains";
-import { Protocol } from "@/lib/protocols";
+import {
+  getAaveForkSubgraphUrl,
+  resolveAaveForkChain,
+} from "@/lib/aave/forks";
+import { isAaveFork, Protocol } from "@/lib/protocols";
 
 type TypeRef = {
   kind: string;
@@ -88,18 +91,15 @@ export async function GET(request: Request) {
   }
 
   const protocol = (wallet.protocol ?? "aave") as Protocol;
-  if (protocol !== "aave") {
+  if (!isAaveFork(protocol)) {
     return NextResponse.json(
       { error: "Debug only supports Aave for now" },
       { status: 400 },
     );
   }
 
-  const chain = parseAaveChain(wallet.chain) ?? "polygon";
-  const subgraphUrl =
-    chain === "arbitrum"
-      ? process.env.AAVE_SUBGRAPH_ARBITRUM
-      : process.env.AAVE_SUBGRAPH_POLYGON;
+  const chain = resolveAaveForkChain(protocol, wallet.chain);
+  const subgraphUrl = getAaveForkSubgraphUrl(protocol, chain);
 
   if (!subgraphUrl) {
     return NextResponse.json(
@@ -2,6 +2,7 @@ import { NextResponse } from "next/server";
 import { isAddress } from "viem";
 
 import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { hasEventHistory } from "@/lib/protocols";
 
 export async function GET(request: Request) {
   const supabase = await createSupabaseServerClient();
@@ -31,7 +32,7 @@ export async function GET(request: Request) {
     if (!wallet?.id) {
       return NextResponse.json({ events: [] });
     }
-    if (wallet.protocol === "compound") {
+    if (!hasEventHistory(wallet.protocol ?? "aave")) {
       return NextResponse.json({ events: [] });
     }
     walletId = wallet.id;
@@ -42,7 +43,7 @@ export async function GET(request: Request) {
       .eq("id", walletId)
       .eq("user_id", user.id)
       .maybeSingle();
-    if (wallet?.protocol === "compound") {
+    if (wallet && !hasEventHistory(wallet.protocol ?? "aave")) {
       return NextResponse.json({ events: [] });
     }
   }
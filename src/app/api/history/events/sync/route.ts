@@ -1,10 +1,10 @@
 import { NextResponse } from "next/server";
 import { isAddress } from "viem";
 
-import { fetchSubgraphEvents } from "@/lib/history/subgraph";
+import { getLendingAdapter } from "@/lib/adapters";
 import { fetchHistoricalTokenPriceUsd } from "@/lib/history/prices";
 import { createSupabaseServerClient } from "@/lib/supabase/server";
-import { Protocol } from "@/lib/protocols";
+import { hasEventHistory, PROTOCOL_LABELS, Protocol } from "@/lib/protocols";
 
 type SyncRow = {
   wallet_id: string;
@@ -89,7 +89,7 @@ export async function POST(request: Request) {
   const walletLookup = byAddress ? walletId.toLowerCase() : walletId;
   const { data: wallet, error: walletError } = await supabase
     .from("user_wallets")
-    .select("id,user_id,address,chain,protocol")
+    .select("id,user_id,address,chain,protocol,market")
     .eq(byAddress ? "address" : "id", walletLookup)
     .eq("user_id", user.id)
     .maybeSingle();
@@ -111,12 +111,13 @@ export async function POST(request: Request) {
   }
 
   const protocol = (wallet.protocol ?? "aave") as Protocol;
-  if (protocol === "compound") {
+  const adapter = getLendingAdapter(protocol);
+  if (!hasEventHistory(protocol) || !adapter.events) {
+    const label = PROTOCOL_LABELS[protocol];
     return NextResponse.json(
       {
-        error: "Compound history disabled",
-        detail:
-          "Histórico Compound está desativado. Apenas histórico Aave está ativo.",
+        error: `${label} history disabled`,
+        detail: `Histórico ${label} está desativado. Apenas histórico Aave está ativo.`,
       },
       { status: 400 },
     );
@@ -124,6 +125,10 @@ export async function POST(request: Request) {
   const chainNorm = (wallet.chain ?? "")
     .toLowerCase()
     .replace(/^arbitrum-one$/i, "arbitrum");
+  const target = adapter.resolveTarget(chainNorm, wallet.market ?? null);
+  if (!target) {
+    return NextResponse.json({ error: "Invalid market" }, { status: 400 });
+  }
 
   if (reset) {
     const { error: deleteEventsError } = await supabase
@@ -162,10 +167,7 @@ export async function POST(request: Request) {
       : Math.max(lastTimestamp, minTimestamp);
 
   try {
-    const events = await fetchSubgraphEvents({
-      protocol,
-      chain: chainNorm,
-      address: wallet.address,
+    const events = await adapter.events(wallet.address, target, {
       fromTimestamp,
       maxEvents,
     });
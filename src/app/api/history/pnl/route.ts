@@ -3,13 +3,8 @@ import { isAddress } from "viem";
 
 import { createSupabaseServerClient } from "@/lib/supabase/server";
 import { Protocol } from "@/lib/protocols";
-import { fetchUserReservesData, fetchReservesData } from "@/lib/aave/queries";
-import { fetchAssetPrices } from "@/lib/aave/protocolDataProvider";
-import { parseAaveChain } from "@/lib/aave/chains";
-import { applyIndex, toUsd } from "@/lib/aave/math";
-import { formatUnits } from "viem";
-import { fetchCompoundUserReserves } from "@/lib/compound/queries";
-import { parseCompoundChain } from "@/lib/compound/chains";
+import { getLendingAdapter, ProtocolRewards } from "@/lib/adapters";
+import { runWithUserRpc } from "@/lib/rpc/userEndpoints";
 
 type PnlRow = {
   event_type: string;
@@ -44,6 +39,7 @@ async function fetchCurrentPosition(
   address: string,
   chain: string,
   protocol: Protocol,
+  market: string | null,
 ): Promise<AssetPosition[]> {
   try {
     if (!isAddress(address)) {
@@ -51,125 +47,28 @@ async function fetchCurrentPosition(
       return [];
     }
 
-    if (protocol === "compound") {
-      const compoundChain = parseCompoundChain(chain) ?? "arbitrum";
-      const { reserves } = await fetchCompoundUserReserves(
-        address as `0x${string}`,
-        compoundChain,
-        false,
-      );
-      // For Compound, we don't have asset address in reserves
-      // We'll use symbol as a fallback identifier
-      return reserves.map((r) => ({
-        address: r.symbol?.toLowerCase() || "", // Use symbol as fallback since Compound doesn't provide asset address
-        symbol: r.symbol || "",
-        collateralAmount: r.collateralAmount || 0,
-        collateralUsd: r.collateralUsd || 0,
-        debtAmount: r.debtAmount || 0,
-        debtUsd: r.debtUsd || 0,
-        priceInUsd: r.priceInUsd || 0,
-      }));
-    } else {
-      // Aave
-      const aaveChain = parseAaveChain(chain) ?? "polygon";
-      const [reservesData, userReservesData] = await Promise.all([
-        fetchReservesData(aaveChain),
-        fetchUserReservesData(address as `0x${string}`, aaveChain),
-      ]);
-
-      const { reserves, baseCurrency } = reservesData;
-      const { userReserves } = userReservesData;
-
-      const reserveMap = new Map(
-        reserves.map((reserve) => [
-          reserve.underlyingAsset.toLowerCase(),
-          reserve,
-        ]),
-      );
-
-      const assetAddresses = Array.from(
-        new Set(reserves.map((r) => r.underlyingAsset as `0x${string}`)),
-      );
-      const priceMap = await fetchAssetPrices(assetAddresses, aaveChain);
-
-      return userReserves
-        .filter((ur) => {
-          const reserve = reserveMap.get(ur.underlyingAsset.toLowerCase());
-          if (!reserve) return false;
-          const aTokenBalance = BigInt(ur.scaledATokenBalance || "0");
-          const variableDebt = BigInt(ur.scaledVariableDebt || "0");
-          const stableDebt = BigInt(ur.principalStableDebt || "0");
-          return aTokenBalance > 0 || variableDebt > 0 || stableDebt > 0;
-        })
-        .map((ur) => {
-          const reserve = reserveMap.get(ur.underlyingAsset.toLowerCase())!;
-          const asset = {
-            symbol: reserve.symbol,
-            decimals: Number(reserve.decimals),
-          };
-
-          const aTokenBalance = applyIndex(
-            BigInt(ur.scaledATokenBalance || "0"),
-            BigInt(reserve.liquidityIndex || "0"),
-          );
-          const variableDebt = applyIndex(
-            BigInt(ur.scaledVariableDebt || "0"),
-            BigInt(reserve.variableBorrowIndex || "0"),
-          );
-          const stableDebt = BigInt(ur.principalStableDebt || "0");
-          const totalDebt = variableDebt + stableDebt;
-
-          const collateralAmount = Number(
-            formatUnits(aTokenBalance, Number(asset.decimals)),
-          );
-          const debtAmount = Number(
-            formatUnits(totalDebt, Number(asset.decimals)),
-          );
-
-          const priceInMarketReferenceCurrency =
-            priceMap.get(reserve.underlyingAsset.toLowerCase()) ?? BigInt(0);
-
-          const collateralUsd = toUsd({
-            amount: aTokenBalance,
-            decimals: Number(asset.decimals),
-            priceInMarketReferenceCurrency,
-            marketReferenceCurrencyUnit: baseCurrency.marketReferenceCurrencyUnit,
-            marketReferenceCurrencyPriceInUsd:
-              baseCurrency.marketReferenceCurrencyPriceInUsd,
-            priceDecimals: baseCurrency.networkBaseTokenPriceDecimals,
-          });
-
-          const debtUsd = toUsd({
-            amount: totalDebt,
-            decimals: Number(asset.decimals),
-            priceInMarketReferenceCurrency,
-            marketReferenceCurrencyUnit: baseCurrency.marketReferenceCurrencyUnit,
-            marketReferenceCurrencyPriceInUsd:
-              baseCurrency.marketReferenceCurrencyPriceInUsd,
-            priceDecimals: baseCurrency.networkBaseTokenPriceDecimals,
-          });
-
-          const priceInUsd = toUsd({
-            amount: BigInt(10 ** Number(asset.decimals)),
-            decimals: Number(asset.decimals),
-            priceInMarketReferenceCurrency,
-            marketReferenceCurrencyUnit: baseCurrency.marketReferenceCurrencyUnit,
-            marketReferenceCurrencyPriceInUsd:
-              baseCurrency.marketReferenceCurrencyPriceInUsd,
-            priceDecimals: baseCurrency.networkBaseTokenPriceDecimals,
-          });
-
-          return {
-            address: reserve.underlyingAsset.toLowerCase(),
-            symbol: asset.symbol,
-            collateralAmount,
-            collateralUsd,
-            debtAmount,
-            debtUsd,
-            priceInUsd,
-          };
-        });
+    const adapter = getLendingAdapter(protocol);
+    const target = adapter.resolveTarget(chain, market);
+    if (!target) {
+      console.warn("Invalid market", protocol, market);
+      return [];
     }
+    const { reserves } = await adapter.userReserves(
+      address as `0x${string}`,
+      target,
+    );
+    return reserves
+      .filter((r) => r.collateralAmount > 0 || r.debtAmount > 0)
+      .map((r) => ({
+        // Sem endereço do asset (Compound) usa o símbolo como identificador
+        address: (r.underlyingAsset ?? r.symbol).toLowerCase(),
+        symbol: r.symbol,
+        collateralAmount: r.collateralAmount,
+        collateralUsd: r.collateralUsd,
+        debtAmount: r.debtAmount,
+        debtUsd: r.debtUsd,
+        priceInUsd: r.priceInUsd,
+      }));
   } catch (error) {
     console.error("Failed to fetch current position", error);
     return [];
@@ -196,7 +95,7 @@ export async function GET(request: Request) {
   // Fetch wallet info
   const { data: wallet, error: walletError } = await supabase
     .from("user_wallets")
-    .select("address,chain,protocol")
+    .select("address,chain,protocol,market")
     .eq("id", walletId)
     .eq("user_id", user.id)
     .maybeSingle();
@@ -382,16 +281,34 @@ export async function GET(request: Request) {
   // Fetch current position for mark-to-market
   let currentPositions: AssetPosition[] = [];
   try {
-    currentPositions = await fetchCurrentPosition(
-      wallet.address,
-      chainNorm,
-      wallet.protocol as Protocol,
+    currentPositions = await runWithUserRpc(supabase, user.id, () =>
+      fetchCurrentPosition(
+        wallet.address,
+        chainNorm,
+        wallet.protocol as Protocol,
+        wallet.market,
+      ),
     );
   } catch (error) {
     console.error("Failed to fetch current position:", error);
     // Continue with empty positions - P&L will be calculated from historical data only
   }
 
+  // Rewards do protocolo (ex: COMP): acumuladas = já reclamadas + por reclamar
+  let rewards: ProtocolRewards | null = null;
+  const adapter = getLendingAdapter(wallet.protocol as Protocol);
+  const rewardsTarget = adapter.resolveTarget(chainNorm, wallet.market);
+  if (adapter.rewards && rewardsTarget && isAddress(wallet.address)) {
+    try {
+      const fetchRewards = adapter.rewards;
+      rewards = await runWithUserRpc(supabase, user.id, () =>
+        fetchRewards(wallet.address, rewardsTarget),
+      );
+    } catch (error) {
+      console.error("Failed to fetch rewards:", error);
+    }
+  }
+
   // #region agent log
   const currentDebtSum = currentPositions.reduce((s, p) => s + p.debtUsd, 0);
   fetch("http://127.0.0.1:7242/ingest/f851284a-e320-4111-a6b3-990427dc7984", {
@@ -518,6 +435,9 @@ export async function GET(request: Request) {
   const safeCurrentCollateralValue = Number.isFinite(currentCollateralValue) ? currentCollateralValue : 0;
   const safeHistoricalCollateralCost = Number.isFinite(historicalCollateralCost) ? historicalCollateralCost : 0;
   const safeHistoricalDebtCost = Number.isFinite(historicalDebtCost) ? historicalDebtCost : 0;
+  const safeRewardsUsd = Number.isFinite(rewards?.accruedUsd ?? 0)
+    ? (rewards?.accruedUsd ?? 0)
+    : 0;
 
   return NextResponse.json({
     walletId,
@@ -538,7 +458,10 @@ export async function GET(request: Request) {
       historicalDebtCost: safeHistoricalDebtCost,
       netPositionValue: safeCurrentCollateralValue - safeCurrentDebtValue,
       netHistoricalCost: safeHistoricalCollateralCost - safeHistoricalDebtCost,
+      rewardsUsd: safeRewardsUsd,
+      pnlWithRewards: safeMarkToMarketPnl + safeRewardsUsd,
     },
+    rewards,
   });
   } catch (error) {
     console.error("Error in P&L calculation:", error);
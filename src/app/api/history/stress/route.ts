@@ -0,0 +1,121 @@
+import { NextResponse } from "next/server";
+import { isAddress } from "viem";
+
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { getLendingAdapter } from "@/lib/adapters";
+import { DEFAULT_HF_MIN } from "@/lib/constants";
+import { runWithUserRpc } from "@/lib/rpc/userEndpoints";
+import {
+  getStressWindow,
+  loadStressPriceSeries,
+  replayStressWindow,
+  STRESS_WINDOWS,
+} from "@/lib/history/stress";
+import type { LiquidationPosition } from "@/lib/liquidation";
+import { Protocol } from "@/lib/protocols";
+
+async function fetchPositions(
+  address: `0x${string}`,
+  chain: string,
+  protocol: Protocol,
+  market: string | null,
+): Promise<LiquidationPosition[]> {
+  const adapter = getLendingAdapter(protocol);
+  const target = adapter.resolveTarget(chain, market);
+  if (!target) throw new Error(`Invalid ${protocol} market: ${market}`);
+  const { reserves } = await adapter.userReserves(address, target);
+  return reserves;
+}
+
+export async function GET(request: Request) {
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const walletId = searchParams.get("walletId");
+  const windowId = searchParams.get("window");
+  // offline=1: só usa séries já guardadas em price_series (sem CoinGecko)
+  const offline = searchParams.get("offline") === "1";
+
+  if (!walletId) {
+    return NextResponse.json({ error: "walletId required" }, { status: 400 });
+  }
+
+  const windows = windowId ? [getStressWindow(windowId)] : STRESS_WINDOWS;
+  if (windows.some((window) => !window)) {
+    return NextResponse.json({ error: "Unknown window" }, { status: 400 });
+  }
+
+  const { data: wallet, error: walletError } = await supabase
+    .from("user_wallets")
+    .select("address,chain,protocol,market,wallet_hf_targets ( hf_min )")
+    .eq("id", walletId)
+    .eq("user_id", user.id)
+    .maybeSingle();
+
+  if (walletError || !wallet || !isAddress(wallet.address)) {
+    return NextResponse.json({ error: "Wallet not found" }, { status: 404 });
+  }
+
+  const target = Array.isArray(wallet.wallet_hf_targets)
+    ? wallet.wallet_hf_targets[0]
+    : wallet.wallet_hf_targets;
+  const hfMin = Number(target?.hf_min ?? DEFAULT_HF_MIN);
+
+  try {
+    const positions = await runWithUserRpc(supabase, user.id, () =>
+      fetchPositions(
+        wallet.address,
+        wallet.chain,
+        (wallet.protocol ?? "aave") as Protocol,
+        wallet.market,
+      ),
+    );
+    const symbols = positions.map((position) => position.symbol);
+
+    const results = [];
+    for (const window of windows) {
+      if (!window) continue;
+      const series = await loadStressPriceSeries(supabase, {
+        symbols,
+        window,
+        offline,
+      });
+      results.push(replayStressWindow({ window, positions, series, hfMin }));
+    }
+
+    // Sem séries o replay assume preços constantes: HF plano, que parece
+    // seguro mas não diz nada. Melhor falhar de forma explícita.
+    const missing = results
+      .filter((result) => result.missingSymbols.length > 0)
+      .map((result) => ({
+        window: result.window.id,
+        symbols: result.missingSymbols,
+      }));
+    if (missing.length > 0) {
+      return NextResponse.json(
+        {
+          error: "Price series unavailable",
+          detail:
+            "Sem séries de preços para todas as posições. O CoinGecko gratuito só cobre os últimos 365 dias: carrega price_series ou define COINGECKO_API_KEY.",
+          missing,
+        },
+        { status: 424 },
+      );
+    }
+
+    return NextResponse.json({ hfMin, offline, results });
+  } catch (error) {
+    console.error("history.stress", error);
+    return NextResponse.json(
+      { error: "Failed to replay stress windows" },
+      { status: 500 },
+    );
+  }
+}
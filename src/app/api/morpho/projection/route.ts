@@ -0,0 +1,5 @@
+import { projectionHandler } from "@/lib/adapters/routes";
+
+export const dynamic = "force-dynamic";
+
+export const GET = projectionHandler("morpho");
@@ -0,0 +1,5 @@
+import { ratesHandler } from "@/lib/adapters/routes";
+
+export const dynamic = "force-dynamic";
+
+export const GET = ratesHandler("morpho");
@@ -0,0 +1,5 @@
+import { accountDataHandler } from "@/lib/adapters/routes";
+
+export const dynamic = "force-dynamic";
+
+export const GET = accountDataHandler("morpho");
@@ -0,0 +1,5 @@
+import { userReservesHandler } from "@/lib/adapters/routes";
+
+export const dynamic = "force-dynamic";
+
+export const GET = userReservesHandler("morpho");
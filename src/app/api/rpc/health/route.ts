@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+
+import { getRpcHealth } from "@/lib/rpc/health";
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  // Estado desta instância (memória do processo, não partilhado entre lambdas)
+  return NextResponse.json({ endpoints: getRpcHealth() });
+}
@@ -0,0 +1,194 @@
+import { NextResponse } from "next/server";
+
+import { getNotificationChannel } from "@/lib/notifications";
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+
+export const dynamic = "force-dynamic";
+
+const CHANNEL_COLUMNS = "id,type,name,config,enabled,created_at,updated_at";
+const DELIVERY_COLUMNS =
+  "id,channel_id,channel_type,wallet_id,alert_kind,subject,status,error,created_at";
+const DELIVERY_LIMIT = 50;
+const MAX_NAME_LENGTH = 80;
+
+async function getSessionUser() {
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  return { supabase, user };
+}
+
+function parseName(value: unknown, fallback: string) {
+  const name = typeof value === "string" ? value.trim() : "";
+  return (name || fallback).slice(0, MAX_NAME_LENGTH);
+}
+
+/** Canais do user e as últimas entregas. */
+export async function GET() {
+  const { supabase, user } = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const [channels, deliveries] = await Promise.all([
+    supabase
+      .from("notification_channels")
+      .select(CHANNEL_COLUMNS)
+      .eq("user_id", user.id)
+      .order("created_at", { ascending: true }),
+    supabase
+      .from("notification_deliveries")
+      .select(DELIVERY_COLUMNS)
+      .eq("user_id", user.id)
+      .order("created_at", { ascending: false })
+      .limit(DELIVERY_LIMIT),
+  ]);
+
+  if (channels.error || deliveries.error) {
+    console.error(
+      "settings.notifications.list",
+      channels.error ?? deliveries.error,
+    );
+    return NextResponse.json(
+      { error: "Failed to load notification channels" },
+      { status: 500 },
+    );
+  }
+  return NextResponse.json({
+    channels: channels.data ?? [],
+    deliveries: deliveries.data ?? [],
+  });
+}
+
+export async function POST(request: Request) {
+  const { supabase, user } = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const handler = getNotificationChannel(body?.type);
+  if (!handler) {
+    return NextResponse.json({ error: "Invalid type" }, { status: 400 });
+  }
+  const config = handler.parseConfig(body?.config);
+  if (!config) {
+    return NextResponse.json(
+      {
+        error: "Invalid config",
+        detail: `Configuração ${handler.label} inválida.`,
+      },
+      { status: 400 },
+    );
+  }
+
+  const { data, error } = await supabase
+    .from("notification_channels")
+    .insert({
+      user_id: user.id,
+      type: handler.type,
+      name: parseName(body?.name, handler.label),
+      config,
+      enabled: body?.enabled !== false,
+    })
+    .select(CHANNEL_COLUMNS)
+    .single();
+
+  if (error) {
+    console.error("settings.notifications.create", error);
+    return NextResponse.json(
+      { error: "Failed to save notification channel" },
+      { status: 500 },
+    );
+  }
+  return NextResponse.json({ channel: data });
+}
+
+export async function PATCH(request: Request) {
+  const { supabase, user } = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  if (typeof body?.id !== "string" || !body.id) {
+    return NextResponse.json({ error: "Missing id" }, { status: 400 });
+  }
+  const { data: existing, error: loadError } = await supabase
+    .from("notification_channels")
+    .select("type,name,config")
+    .eq("user_id", user.id)
+    .eq("id", body.id)
+    .maybeSingle();
+  if (loadError) {
+    console.error("settings.notifications.load", loadError);
+    return NextResponse.json(
+      { error: "Failed to load notification channel" },
+      { status: 500 },
+    );
+  }
+  if (!existing) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  const update: Record<string, unknown> = {
+    updated_at: new Date().toISOString(),
+  };
+  if (body.name !== undefined)
+    update.name = parseName(body.name, existing.name);
+  if (body.enabled !== undefined) update.enabled = body.enabled === true;
+  if (body.config !== undefined) {
+    const handler = getNotificationChannel(existing.type);
+    // Config parcial: campos omitidos mantêm o valor guardado
+    const config = handler?.parseConfig({ ...existing.config, ...body.config });
+    if (!handler || !config) {
+      return NextResponse.json({ error: "Invalid config" }, { status: 400 });
+    }
+    update.config = config;
+  }
+
+  const { data, error } = await supabase
+    .from("notification_channels")
+    .update(update)
+    .eq("user_id", user.id)
+    .eq("id", body.id)
+    .select(CHANNEL_COLUMNS)
+    .single();
+
+  if (error) {
+    console.error("settings.notifications.update", error);
+    return NextResponse.json(
+      { error: "Failed to save notification channel" },
+      { status: 500 },
+    );
+  }
+  return NextResponse.json({ channel: data });
+}
+
+export async function DELETE(request: Request) {
+  const { supabase, user } = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const id = new URL(request.url).searchParams.get("id");
+  if (!id) {
+    return NextResponse.json({ error: "Missing id" }, { status: 400 });
+  }
+
+  const { error } = await supabase
+    .from("notification_channels")
+    .delete()
+    .eq("user_id", user.id)
+    .eq("id", id);
+
+  if (error) {
+    console.error("settings.notifications.delete", error);
+    return NextResponse.json(
+      { error: "Failed to delete notification channel" },
+      { status: 500 },
+    );
+  }
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,56 @@
+import { NextResponse } from "next/server";
+
+import { sendToChannel } from "@/lib/notifications";
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+
+export const dynamic = "force-dynamic";
+
+/** Envia uma mensagem de teste por um canal do user (não fica no log). */
+export async function POST(request: Request) {
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  if (typeof body?.id !== "string" || !body.id) {
+    return NextResponse.json({ error: "Missing id" }, { status: 400 });
+  }
+  const { data: channel, error } = await supabase
+    .from("notification_channels")
+    .select("user_id,type,name,config")
+    .eq("user_id", user.id)
+    .eq("id", body.id)
+    .maybeSingle();
+  if (error) {
+    console.error("settings.notifications.test", error);
+    return NextResponse.json(
+      { error: "Failed to load notification channel" },
+      { status: 500 },
+    );
+  }
+  if (!channel) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  try {
+    await sendToChannel(channel, {
+      subject: "Teste de notificação",
+      text: `Canal "${channel.name}" configurado. Os alertas das tuas wallets chegam por aqui.`,
+      payload: { event: "test", channel: channel.name },
+    });
+  } catch (sendError) {
+    return NextResponse.json(
+      {
+        error: "Delivery failed",
+        detail:
+          sendError instanceof Error ? sendError.message : String(sendError),
+      },
+      { status: 502 },
+    );
+  }
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,86 @@
+import { NextResponse } from "next/server";
+
+import { normalizeCandidateSymbols } from "@/lib/borrowRanking";
+import { DEFAULT_RATE_DISPLAY, parseRateDisplay } from "@/lib/calculations";
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+
+export const dynamic = "force-dynamic";
+
+async function getSessionUser() {
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  return { supabase, user };
+}
+
+export async function GET() {
+  const { supabase, user } = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { data, error } = await supabase
+    .from("user_preferences")
+    .select("rate_display,borrow_candidates")
+    .eq("user_id", user.id)
+    .maybeSingle();
+
+  if (error) {
+    console.error("settings.preferences.get", error);
+    return NextResponse.json(
+      { error: "Failed to load preferences" },
+      { status: 500 },
+    );
+  }
+  return NextResponse.json({
+    rateDisplay: parseRateDisplay(data?.rate_display) ?? DEFAULT_RATE_DISPLAY,
+    borrowCandidates: data?.borrow_candidates ?? null,
+  });
+}
+
+export async function PUT(request: Request) {
+  const { supabase, user } = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const update: Record<string, unknown> = {
+    user_id: user.id,
+    updated_at: new Date().toISOString(),
+  };
+  if (body?.rateDisplay !== undefined) {
+    const rateDisplay = parseRateDisplay(body.rateDisplay);
+    if (!rateDisplay) {
+      return NextResponse.json(
+        { error: "Invalid rateDisplay" },
+        { status: 400 },
+      );
+    }
+    update.rate_display = rateDisplay;
+  }
+  if (body?.borrowCandidates !== undefined) {
+    // Lista vazia volta ao default
+    const symbols = normalizeCandidateSymbols(body.borrowCandidates);
+    update.borrow_candidates = symbols.length ? symbols : null;
+  }
+
+  const { data, error } = await supabase
+    .from("user_preferences")
+    .upsert(update, { onConflict: "user_id" })
+    .select("rate_display,borrow_candidates")
+    .single();
+
+  if (error) {
+    console.error("settings.preferences.save", error);
+    return NextResponse.json(
+      { error: "Failed to save preferences" },
+      { status: 500 },
+    );
+  }
+  return NextResponse.json({
+    rateDisplay: parseRateDisplay(data.rate_display) ?? DEFAULT_RATE_DISPLAY,
+    borrowCandidates: data.borrow_candidates ?? null,
+  });
+}
@@ -0,0 +1,117 @@
+import { NextResponse } from "next/server";
+
+import { parseAaveChain } from "@/lib/aave/chains";
+import { validateRpcEndpoint } from "@/lib/rpc/userEndpoints";
+import { createSupabaseAdminClient } from "@/lib/supabase/admin";
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+
+export const dynamic = "force-dynamic";
+
+async function getSessionUser() {
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  return { supabase, user };
+}
+
+export async function GET() {
+  const { supabase, user } = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { data, error } = await supabase
+    .from("user_rpc_endpoints")
+    .select("chain,url,chain_id,updated_at")
+    .eq("user_id", user.id)
+    .order("chain", { ascending: true });
+
+  if (error) {
+    console.error("settings.rpc.list", error);
+    return NextResponse.json(
+      { error: "Failed to load RPC endpoints" },
+      { status: 500 },
+    );
+  }
+  return NextResponse.json({ endpoints: data ?? [] });
+}
+
+export async function PUT(request: Request) {
+  const { user } = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const chain = parseAaveChain(
+    typeof body?.chain === "string" ? body.chain : null,
+  );
+  const url = typeof body?.url === "string" ? body.url.trim() : "";
+  if (!chain) {
+    return NextResponse.json({ error: "Invalid chain" }, { status: 400 });
+  }
+  if (!url) {
+    return NextResponse.json({ error: "url required" }, { status: 400 });
+  }
+
+  const validation = await validateRpcEndpoint(chain, url);
+  if ("error" in validation) {
+    return NextResponse.json(
+      { error: "Invalid RPC endpoint", detail: validation.error },
+      { status: 400 },
+    );
+  }
+
+  // A RLS não deixa o user escrever: o URL só é gravado depois de validado
+  const { data, error } = await createSupabaseAdminClient()
+    .from("user_rpc_endpoints")
+    .upsert(
+      {
+        user_id: user.id,
+        chain,
+        url,
+        chain_id: validation.chainId,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: "user_id,chain" },
+    )
+    .select("chain,url,chain_id,updated_at")
+    .single();
+
+  if (error) {
+    console.error("settings.rpc.save", error);
+    return NextResponse.json(
+      { error: "Failed to save RPC endpoint" },
+      { status: 500 },
+    );
+  }
+  return NextResponse.json({ endpoint: data });
+}
+
+export async function DELETE(request: Request) {
+  const { supabase, user } = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const chain = parseAaveChain(new URL(request.url).searchParams.get("chain"));
+  if (!chain) {
+    return NextResponse.json({ error: "Invalid chain" }, { status: 400 });
+  }
+
+  const { error } = await supabase
+    .from("user_rpc_endpoints")
+    .delete()
+    .eq("user_id", user.id)
+    .eq("chain", chain);
+
+  if (error) {
+    console.error("settings.rpc.delete", error);
+    return NextResponse.json(
+      { error: "Failed to delete RPC endpoint" },
+      { status: 500 },
+    );
+  }
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server";
+
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { replayWebhook } from "@/lib/webhooks/outbox";
+
+export const dynamic = "force-dynamic";
+
+/** Reenvia uma entrega do outbox (mesmo payload, assinatura nova). */
+export async function POST(request: Request) {
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  if (typeof body?.id !== "string" || !body.id) {
+    return NextResponse.json({ error: "Missing id" }, { status: 400 });
+  }
+
+  try {
+    const delivery = await replayWebhook(user.id, body.id);
+    if (!delivery) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+    return NextResponse.json({
+      delivery: {
+        id: delivery.id,
+        status: delivery.status,
+        attempts: delivery.attempts,
+        next_attempt_at: delivery.next_attempt_at,
+        last_status_code: delivery.last_status_code,
+        last_error: delivery.last_error,
+        delivered_at: delivery.delivered_at,
+      },
+    });
+  } catch (error) {
+    console.error("settings.webhooks.replay", error);
+    return NextResponse.json(
+      { error: "Failed to replay webhook" },
+      { status: 500 },
+    );
+  }
+}
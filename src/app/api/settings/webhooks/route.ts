@@ -0,0 +1,69 @@
+import { NextResponse } from "next/server";
+
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { getWebhookSecret, rotateWebhookSecret } from "@/lib/webhooks/outbox";
+
+export const dynamic = "force-dynamic";
+
+const OUTBOX_COLUMNS =
+  "id,url,event,status,attempts,next_attempt_at,last_status_code,last_error,delivered_at,created_at";
+const OUTBOX_LIMIT = 50;
+
+async function getSessionUser() {
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  return { supabase, user };
+}
+
+/** Secret de assinatura do user e as últimas entregas do outbox. */
+export async function GET(request: Request) {
+  const { supabase, user } = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const status = new URL(request.url).searchParams.get("status");
+  let query = supabase
+    .from("webhook_outbox")
+    .select(OUTBOX_COLUMNS)
+    .eq("user_id", user.id)
+    .order("created_at", { ascending: false })
+    .limit(OUTBOX_LIMIT);
+  if (status) query = query.eq("status", status);
+
+  try {
+    const [secret, { data, error }] = await Promise.all([
+      getWebhookSecret(user.id),
+      query,
+    ]);
+    if (error) throw new Error(error.message);
+    return NextResponse.json({ secret, deliveries: data ?? [] });
+  } catch (error) {
+    console.error("settings.webhooks.list", error);
+    return NextResponse.json(
+      { error: "Failed to load webhooks" },
+      { status: 500 },
+    );
+  }
+}
+
+/** Gera um secret novo; os recetores têm de ser atualizados. */
+export async function POST() {
+  const { user } = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const secret = await rotateWebhookSecret(user.id);
+    return NextResponse.json({ secret });
+  } catch (error) {
+    console.error("settings.webhooks.rotate", error);
+    return NextResponse.json(
+      { error: "Failed to rotate webhook secret" },
+      { status: 500 },
+    );
+  }
+}
@@ -22,6 +22,7 @@ function StrategyRow({ wallet }: { wallet: WalletRow }) {
     wallet.address,
     wallet.chain,
     wallet.protocol,
+    wallet.market,
   );
 
   const hfMin = wallet.wallet_hf_targets?.hf_min ?? DEFAULT_HF_MIN;
@@ -3,6 +3,7 @@
 import { useMemo } from "react";
 import Link from "next/link";
 
+import { RATE_DISPLAY_LABEL, useUserPreferences } from "@/hooks/useUserPreferences";
 import { WalletRow } from "@/hooks/useWallets";
 import {
   useProtocolAccountData,
@@ -15,7 +16,14 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
 import { formatNumber, formatToken, formatUsd } from "@/lib/format";
-import { getTargetedRecommendations, riskState } from "@/lib/calculations";
+import {
+  candidateRates,
+  computeNetRate,
+  getTargetedRecommendations,
+  marginalLiquidationThresholdBps,
+  riskState,
+} from "@/lib/calculations";
+import { checkRecommendationCaps } from "@/lib/caps";
 import { DEFAULT_HF_MAX, DEFAULT_HF_MIN } from "@/lib/constants";
 import { PROTOCOL_LABELS } from "@/lib/protocols";
 
@@ -30,15 +38,20 @@ export function WalletCard({ wallet, onUpdateTargets, onRemove }: Props) {
     wallet.address,
     wallet.chain,
     wallet.protocol,
+    wallet.market,
   );
   const { data: userReservesData } = useProtocolUserReserves(
     wallet.address,
     wallet.chain,
     wallet.protocol,
+    wallet.market,
   );
+  const { rateDisplay, borrowCandidates } = useUserPreferences();
   const { data: ratesData } = useProtocolRates(
     wallet.chain,
     wallet.protocol,
+    wallet.market,
+    borrowCandidates,
   );
 
   const hfMin = wallet.wallet_hf_targets?.hf_min ?? DEFAULT_HF_MIN;
@@ -58,11 +71,22 @@ export function WalletCard({ wallet, onUpdateTargets, onRemove }: Props) {
         collateralUsd: totals.collateralUsd,
         debtUsd: totals.debtUsd,
         liquidationThresholdBps: totals.liquidationThreshold,
+        collateralLiquidationThresholdBps: marginalLiquidationThresholdBps(
+          userReservesData?.reserves ?? [],
+        ),
         hfMin,
         hfMax,
       })
     : null;
 
+  const capWarnings = recommendations
+    ? checkRecommendationCaps({
+        recommendations,
+        reserves: userReservesData?.reserves ?? [],
+        borrowSymbol: ratesData?.recommended,
+      })
+    : [];
+
   const debtAsset = useMemo(() => {
     if (!userReservesData?.reserves) return null;
     return [...userReservesData.reserves]
@@ -70,12 +94,35 @@ export function WalletCard({ wallet, onUpdateTargets, onRemove }: Props) {
       .sort((a, b) => b.debtAmount - a.debtAmount)[0];
   }, [userReservesData]);
 
+  const rateLabel = RATE_DISPLAY_LABEL[rateDisplay];
+  const netRate = useMemo(
+    () =>
+      userReservesData?.reserves
+        ? computeNetRate(userReservesData.reserves, rateDisplay)
+        : null,
+    [userReservesData, rateDisplay],
+  );
+  const rewards = accountData?.rewards as
+    | {
+        symbol: string;
+        claimableAmount: number;
+        claimableUsd: number;
+        accruedUsd: number;
+      }
+    | null
+    | undefined;
+
   const recommendedBorrowAsset = useMemo(() => {
     if (!ratesData?.recommended || !ratesData?.candidates) return null;
     return ratesData.candidates.find(
       (candidate: { symbol: string }) => candidate.symbol === ratesData.recommended,
     );
   }, [ratesData]);
+  const recommendedRates =
+    recommendedBorrowAsset &&
+    typeof recommendedBorrowAsset.variableBorrowApr === "number"
+      ? candidateRates(recommendedBorrowAsset, rateDisplay)
+      : null;
 
   const healthFactorValue =
     totals && totals.healthFactor > 0
@@ -114,7 +161,11 @@ export function WalletCard({ wallet, onUpdateTargets, onRemove }: Props) {
   const marketLabel =
     wallet.protocol === "compound" && accountData?.market?.baseSymbol
       ? ` • ${accountData.market.baseSymbol} market`
-      : "";
+      : wallet.protocol === "morpho" && accountData?.market?.label
+        ? ` • ${accountData.market.label} (LLTV ${(accountData.market.lltvBps / 100).toFixed(1)}%)`
+        : accountData?.eMode
+        ? ` • e-mode ${accountData.eMode.label || accountData.eMode.id}`
+        : "";
 
   return (
     <Card className="border bg-card/80 shadow-sm">
@@ -184,6 +235,63 @@ export function WalletCard({ wallet, onUpdateTargets, onRemove }: Props) {
           </div>
         </div>
 
+        {recommendedBorrowAsset ? (
+          <div className="grid gap-3 md:grid-cols-3">
+            <div>
+              <p className="text-xs text-muted-foreground">Melhor borrow</p>
+              <p className="text-sm font-medium">
+                {recommendedBorrowAsset.symbol}
+              </p>
+            </div>
+            <div>
+              <p className="text-xs text-muted-foreground">Borrow {rateLabel}</p>
+              <p className="text-sm font-medium">
+                {recommendedRates
+                  ? formatNumber(recommendedRates.borrow, 2) + "%"
+                  : "-"}
+              </p>
+            </div>
+            <div>
+              <p className="text-xs text-muted-foreground">Supply {rateLabel}</p>
+              <p className="text-sm font-medium">
+                {recommendedRates
+                  ? formatNumber(recommendedRates.supply, 2) + "%"
+                  : "-"}
+              </p>
+            </div>
+          </div>
+        ) : null}
+
+        <div className="grid gap-3 md:grid-cols-3">
+          <div>
+            <p className="text-xs text-muted-foreground">{rateLabel} líquido</p>
+            <p className="text-sm font-medium">
+              {netRate !== null ? formatNumber(netRate, 2) + "%" : "-"}
+            </p>
+          </div>
+          {rewards ? (
+            <>
+              <div>
+                <p className="text-xs text-muted-foreground">
+                  Rewards por reclamar
+                </p>
+                <p className="text-sm font-medium">
+                  {formatToken(rewards.claimableAmount, rewards.symbol, 4)} (
+                  {formatUsd(rewards.claimableUsd)})
+                </p>
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground">
+                  Rewards acumuladas
+                </p>
+                <p className="text-sm font-medium">
+                  {formatUsd(rewards.accruedUsd)}
+                </p>
+              </div>
+            </>
+          ) : null}
+        </div>
+
         <Separator className="bg-border/60" />
 
         <div className="grid gap-3 md:grid-cols-2">
@@ -250,6 +358,11 @@ export function WalletCard({ wallet, onUpdateTargets, onRemove }: Props) {
               !recommendations?.additionalBorrowUsd ? (
                 <p>HF dentro do intervalo alvo.</p>
               ) : null}
+              {capWarnings.map((warning) => (
+                <p key={warning.action} className="text-amber-500">
+                  {warning.message}
+                </p>
+              ))}
             </div>
           </div>
         </div>
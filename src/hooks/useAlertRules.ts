@@ -0,0 +1,83 @@
+"use client";
+
+import { useCallback } from "react";
+import useSWR from "swr";
+
+import type { WalletAlertRule } from "@/lib/alerts/rules";
+
+const RULES_URL = "/api/alerts/rules";
+
+export type AlertRuleView = Omit<WalletAlertRule, "user_id">;
+
+type RuleInput = { name?: string; expression?: string; enabled?: boolean };
+
+const fetcher = (url: string) => fetch(url).then((res) => res.json());
+
+// Erro da API (com o detalhe do parser de expressões quando existe)
+async function readError(response: Response, fallback: string) {
+  const data = await response.json().catch(() => ({}));
+  return new Error(data.detail ?? data.error ?? fallback);
+}
+
+/** Regras de alerta da wallet, com criação, edição e remoção. */
+export function useAlertRules(walletId?: string) {
+  const key = walletId ? `${RULES_URL}?walletId=${walletId}` : null;
+  const { data, isLoading, mutate } = useSWR<{ rules?: AlertRuleView[] }>(
+    key,
+    fetcher,
+  );
+
+  const createRule = useCallback(
+    async (input: RuleInput) => {
+      const response = await fetch(RULES_URL, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ walletId, ...input }),
+      });
+      if (!response.ok) {
+        return { error: await readError(response, "Failed to save rule") };
+      }
+      await mutate();
+      return { error: null };
+    },
+    [walletId, mutate],
+  );
+
+  const updateRule = useCallback(
+    async (id: string, input: RuleInput) => {
+      const response = await fetch(RULES_URL, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id, ...input }),
+      });
+      if (!response.ok) {
+        return { error: await readError(response, "Failed to save rule") };
+      }
+      await mutate();
+      return { error: null };
+    },
+    [mutate],
+  );
+
+  const deleteRule = useCallback(
+    async (id: string) => {
+      const response = await fetch(`${RULES_URL}?id=${id}`, {
+        method: "DELETE",
+      });
+      if (!response.ok) {
+        return { error: await readError(response, "Failed to delete rule") };
+      }
+      await mutate();
+      return { error: null };
+    },
+    [mutate],
+  );
+
+  return {
+    rules: data?.rules ?? [],
+    createRule,
+    updateRule,
+    deleteRule,
+    isLoading,
+  };
+}
@@ -0,0 +1,44 @@
+"use client";
+
+import { useCallback } from "react";
+import useSWR from "swr";
+
+import type { WalletAlertState } from "@/lib/alerts/engine";
+
+const STATE_URL = "/api/alerts/state";
+
+export type AlertStateView = Omit<WalletAlertState, "user_id">;
+
+const fetcher = (url: string) => fetch(url).then((res) => res.json());
+
+/** Estado de alerta da wallet (cron) e reconhecimento pelo user. */
+export function useAlertState(walletId?: string) {
+  const { data, isLoading, mutate } = useSWR<{ states?: AlertStateView[] }>(
+    walletId ? `${STATE_URL}?walletId=${walletId}` : null,
+    fetcher,
+  );
+
+  const acknowledge = useCallback(
+    async (acknowledged: boolean) => {
+      if (!walletId) return { error: new Error("Missing wallet") };
+      const response = await fetch(STATE_URL, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ walletId, acknowledged }),
+      });
+      if (!response.ok) {
+        return { error: new Error("Failed to update alert state") };
+      }
+      const { state } = await response.json();
+      await mutate({ states: [state] }, { revalidate: false });
+      return { error: null };
+    },
+    [walletId, mutate],
+  );
+
+  return {
+    state: data?.states?.[0] ?? null,
+    acknowledge,
+    isLoading,
+  };
+}
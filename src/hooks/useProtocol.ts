@@ -2,7 +2,7 @@
 
 import useSWR from "swr";
 
-import { Protocol } from "@/lib/protocols";
+import { getProtocolApi, Protocol } from "@/lib/protocols";
 
 const fetcher = async (url: string) => {
   const response = await fetch(url, { cache: "no-store" });
@@ -29,22 +29,30 @@ function safeJsonParse(value: string) {
 function buildUrl(
   protocol: Protocol,
   path: string,
-  params: Record<string, string | undefined>,
+  params: Record<string, string | null | undefined>,
 ) {
   const query = new URLSearchParams();
   Object.entries(params).forEach(([key, value]) => {
     if (value) query.set(key, value);
   });
-  return `/api/${protocol}/${path}?${query.toString()}`;
+  // Forks Aave (ex: Spark) usam as rotas /api/aave com ?protocol=
+  const api = getProtocolApi(protocol);
+  if (api !== protocol) query.set("protocol", protocol);
+  return `/api/${api}/${path}?${query.toString()}`;
 }
 
 export function useProtocolAccountData(
   address?: string,
   chain: string = "polygon",
   protocol: Protocol = "aave",
+  market?: string | null,
 ) {
   const url = address
-    ? buildUrl(protocol, "user-account-data", { address, chain })
+    ? buildUrl(protocol, "user-account-data", {
+        address,
+        chain,
+        market,
+      })
     : null;
   return useSWR(url, fetcher, { refreshInterval: 30_000 });
 }
@@ -53,9 +61,14 @@ export function useProtocolUserReserves(
   address?: string,
   chain: string = "polygon",
   protocol: Protocol = "aave",
+  market?: string | null,
 ) {
   const url = address
-    ? buildUrl(protocol, "user-reserves", { address, chain })
+    ? buildUrl(protocol, "user-reserves", {
+        address,
+        chain,
+        market,
+      })
     : null;
   return useSWR(url, fetcher, { refreshInterval: 60_000 });
 }
@@ -63,7 +76,49 @@ export function useProtocolUserReserves(
 export function useProtocolRates(
   chain: string = "polygon",
   protocol: Protocol = "aave",
+  market?: string | null,
+  candidates?: string[] | null,
 ) {
-  const url = buildUrl(protocol, "rates", { chain });
+  const url = buildUrl(protocol, "rates", {
+    chain,
+    market,
+    candidates: candidates?.length ? candidates.join(",") : undefined,
+  });
   return useSWR(url, fetcher, { refreshInterval: 120_000 });
 }
+
+export function useProtocolLiquidationPrices(
+  address?: string,
+  chain: string = "polygon",
+  protocol: Protocol = "aave",
+  hfMin?: number,
+  market?: string | null,
+) {
+  const url = address
+    ? buildUrl(protocol, "liquidation-prices", {
+        address,
+        chain,
+        hfMin: hfMin !== undefined ? String(hfMin) : undefined,
+        market,
+      })
+    : null;
+  return useSWR(url, fetcher, { refreshInterval: 60_000 });
+}
+
+export function useProtocolProjection(
+  address?: string,
+  chain: string = "polygon",
+  protocol: Protocol = "aave",
+  hfMin?: number,
+  market?: string | null,
+) {
+  const url = address
+    ? buildUrl(protocol, "projection", {
+        address,
+        chain,
+        hfMin: hfMin !== undefined ? String(hfMin) : undefined,
+        market,
+      })
+    : null;
+  return useSWR(url, fetcher, { refreshInterval: 300_000 });
+}
@@ -0,0 +1,53 @@
+"use client";
+
+import { useCallback } from "react";
+import useSWR from "swr";
+
+import { DEFAULT_RATE_DISPLAY, RateDisplay } from "@/lib/calculations";
+
+const PREFERENCES_URL = "/api/settings/preferences";
+
+export type UserPreferences = {
+  rateDisplay: RateDisplay;
+  /** null = lista default de candidatos a borrow. */
+  borrowCandidates: string[] | null;
+};
+
+const fetcher = (url: string) => fetch(url).then((res) => res.json());
+
+/** Preferências do user (Settings), partilhadas por todos os componentes via SWR. */
+export function useUserPreferences() {
+  const { data, isLoading, mutate } = useSWR<Partial<UserPreferences>>(
+    PREFERENCES_URL,
+    fetcher,
+    { revalidateOnFocus: false },
+  );
+
+  const savePreferences = useCallback(
+    async (update: Partial<UserPreferences>) => {
+      const response = await fetch(PREFERENCES_URL, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(update),
+      });
+      if (!response.ok) {
+        return { error: new Error("Failed to save preferences") };
+      }
+      await mutate(await response.json(), { revalidate: false });
+      return { error: null };
+    },
+    [mutate],
+  );
+
+  return {
+    rateDisplay: data?.rateDisplay ?? DEFAULT_RATE_DISPLAY,
+    borrowCandidates: data?.borrowCandidates ?? null,
+    savePreferences,
+    isLoading,
+  };
+}
+
+export const RATE_DISPLAY_LABEL: Record<RateDisplay, string> = {
+  apr: "APR",
+  apy: "APY",
+};
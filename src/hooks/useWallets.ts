@@ -12,6 +12,8 @@ export type WalletRow = {
   label: string | null;
   chain: string;
   protocol: Protocol;
+  /** Base asset do Comet (Compound; null usa o market por defeito) ou market id Morpho. */
+  market: string | null;
   created_at: string;
   wallet_hf_targets?: {
     hf_min: number;
@@ -29,7 +31,7 @@ export function useWallets() {
     const { data, error } = await supabase
       .from("user_wallets")
       .select(
-        "id,address,label,chain,protocol,created_at,wallet_hf_targets ( hf_min, hf_max )",
+        "id,address,label,chain,protocol,market,created_at,wallet_hf_targets ( hf_min, hf_max )",
       )
       .order("created_at", { ascending: false });
 
@@ -61,6 +63,7 @@ export function useWallets() {
       label?: string;
       chain: string;
       protocol: Protocol;
+      market?: string | null;
     }) => {
       const {
         data: { user },
@@ -75,6 +78,7 @@ export function useWallets() {
         label: payload.label ?? null,
         chain: payload.chain,
         protocol: payload.protocol,
+        market: payload.market ?? null,
       });
 
       if (!error) {
@@ -83,7 +87,7 @@ export function useWallets() {
       }
       const errorMessage =
         error.code === "23505" || error.message?.includes("duplicate")
-          ? "Esta wallet já existe para esta chain e protocolo."
+          ? "Esta wallet já existe para esta chain, protocolo e market."
           : "Não foi possível adicionar a wallet.";
       return { error, errorMessage };
     },
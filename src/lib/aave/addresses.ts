@@ -1,20 +1,38 @@
-import { AaveV3Arbitrum, AaveV3Polygon } from "@bgd-labs/aave-address-book";
+import {
+  AaveV3Arbitrum,
+  AaveV3Avalanche,
+  AaveV3Base,
+  AaveV3Ethereum,
+  AaveV3Optimism,
+  AaveV3Polygon,
+} from "@bgd-labs/aave-address-book";
 
-export type AaveChain = "polygon" | "arbitrum";
+type AddressBookMarket = {
+  POOL_ADDRESSES_PROVIDER: `0x${string}`;
+  UI_POOL_DATA_PROVIDER: `0x${string}`;
+  ORACLE: `0x${string}`;
+  AAVE_PROTOCOL_DATA_PROVIDER: `0x${string}`;
+};
 
+function fromAddressBook(market: AddressBookMarket) {
+  return {
+    poolAddressesProvider: market.POOL_ADDRESSES_PROVIDER,
+    uiPoolDataProvider: market.UI_POOL_DATA_PROVIDER,
+    priceOracle: market.ORACLE,
+    protocolDataProvider: market.AAVE_PROTOCOL_DATA_PROVIDER,
+  };
+}
+
+// Deployments Aave v3 suportados; metadados de cada chain em lib/aave/chains.ts
 export const AAVE_CONFIG = {
-  polygon: {
-    poolAddressesProvider: AaveV3Polygon.POOL_ADDRESSES_PROVIDER,
-    uiPoolDataProvider: AaveV3Polygon.UI_POOL_DATA_PROVIDER,
-    priceOracle: AaveV3Polygon.ORACLE,
-    protocolDataProvider: AaveV3Polygon.AAVE_PROTOCOL_DATA_PROVIDER,
-  },
-  arbitrum: {
-    poolAddressesProvider: AaveV3Arbitrum.POOL_ADDRESSES_PROVIDER,
-    uiPoolDataProvider: AaveV3Arbitrum.UI_POOL_DATA_PROVIDER,
-    priceOracle: AaveV3Arbitrum.ORACLE,
-    protocolDataProvider: AaveV3Arbitrum.AAVE_PROTOCOL_DATA_PROVIDER,
-  },
+  polygon: fromAddressBook(AaveV3Polygon),
+  arbitrum: fromAddressBook(AaveV3Arbitrum),
+  ethereum: fromAddressBook(AaveV3Ethereum),
+  optimism: fromAddressBook(AaveV3Optimism),
+  base: fromAddressBook(AaveV3Base),
+  avalanche: fromAddressBook(AaveV3Avalanche),
 } as const;
 
+export type AaveChain = keyof typeof AAVE_CONFIG;
+
 export const DEFAULT_AAVE_CHAIN: AaveChain = "polygon";
@@ -1,6 +1,95 @@
-import { AaveChain } from "@/lib/aave/addresses";
+import type { Chain } from "viem";
+import {
+  arbitrum,
+  avalanche,
+  base,
+  mainnet,
+  optimism,
+  polygon,
+} from "viem/chains";
 
-export const SUPPORTED_AAVE_CHAINS: AaveChain[] = ["polygon", "arbitrum"];
+import type { AaveChain } from "@/lib/aave/addresses";
+
+export type AaveChainInfo = {
+  label: string;
+  viemChain: Chain;
+  /** Variável de ambiente com o RPC (fallback: `defaultRpcUrl`). */
+  rpcEnv: string;
+  defaultRpcUrl: string;
+  /** Plataforma CoinGecko para preços por contrato. */
+  coingeckoPlatform: string;
+  /** Variável de ambiente com o subgraph Aave da chain. */
+  subgraphEnv: string;
+  /** Aproximação block number -> timestamp (genesis + blockTime). */
+  genesis: number;
+  blockTime: number;
+};
+
+// Adicionar uma chain: entrada aqui + address book em lib/aave/addresses.ts
+export const AAVE_CHAINS: Record<AaveChain, AaveChainInfo> = {
+  polygon: {
+    label: "Polygon",
+    viemChain: polygon,
+    rpcEnv: "POLYGON_RPC_URL",
+    defaultRpcUrl: "https://polygon-rpc.com",
+    coingeckoPlatform: "polygon-pos",
+    subgraphEnv: "AAVE_SUBGRAPH_POLYGON",
+    genesis: 1590796800, // ~May 2020
+    blockTime: 2,
+  },
+  arbitrum: {
+    label: "Arbitrum",
+    viemChain: arbitrum,
+    rpcEnv: "ARBITRUM_RPC_URL",
+    defaultRpcUrl: "https://arb1.arbitrum.io/rpc",
+    coingeckoPlatform: "arbitrum-one",
+    subgraphEnv: "AAVE_SUBGRAPH_ARBITRUM",
+    genesis: 1630368000, // ~Aug 2021
+    blockTime: 1,
+  },
+  ethereum: {
+    label: "Ethereum",
+    viemChain: mainnet,
+    rpcEnv: "ETHEREUM_RPC_URL",
+    defaultRpcUrl: "https://ethereum-rpc.publicnode.com",
+    coingeckoPlatform: "ethereum",
+    subgraphEnv: "AAVE_SUBGRAPH_ETHEREUM",
+    genesis: 1438269973, // Jul 2015
+    blockTime: 12,
+  },
+  optimism: {
+    label: "Optimism",
+    viemChain: optimism,
+    rpcEnv: "OPTIMISM_RPC_URL",
+    defaultRpcUrl: "https://mainnet.optimism.io",
+    coingeckoPlatform: "optimistic-ethereum",
+    subgraphEnv: "AAVE_SUBGRAPH_OPTIMISM",
+    genesis: 1475598777, // ancorado no Bedrock (bloco 105235063, jun 2023)
+    blockTime: 2,
+  },
+  base: {
+    label: "Base",
+    viemChain: base,
+    rpcEnv: "BASE_RPC_URL",
+    defaultRpcUrl: "https://mainnet.base.org",
+    coingeckoPlatform: "base",
+    subgraphEnv: "AAVE_SUBGRAPH_BASE",
+    genesis: 1691539200, // ~Aug 2023
+    blockTime: 2,
+  },
+  avalanche: {
+    label: "Avalanche",
+    viemChain: avalanche,
+    rpcEnv: "AVALANCHE_RPC_URL",
+    defaultRpcUrl: "https://api.avax.network/ext/bc/C/rpc",
+    coingeckoPlatform: "avalanche",
+    subgraphEnv: "AAVE_SUBGRAPH_AVALANCHE",
+    genesis: 1600858926, // C-Chain ~Sep 2020
+    blockTime: 2,
+  },
+};
+
+export const SUPPORTED_AAVE_CHAINS = Object.keys(AAVE_CHAINS) as AaveChain[];
 
 export function parseAaveChain(value: string | null): AaveChain | null {
   if (!value) return null;
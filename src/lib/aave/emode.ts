@@ -0,0 +1,159 @@
+import { IPool_ABI } from "@bgd-labs/aave-address-book/abis";
+import {
+  AbiDecodingDataSizeTooSmallError,
+  AbiDecodingZeroDataError,
+  BaseError,
+  ContractFunctionRevertedError,
+  ContractFunctionZeroDataError,
+} from "viem";
+
+import { AaveChain, DEFAULT_AAVE_CHAIN } from "@/lib/aave/addresses";
+import { getPublicClient } from "@/lib/aave/client";
+import { AaveEModeCategory, AaveReserveData } from "@/lib/aave/types";
+
+function bitmapToReserveIds(bitmap: bigint) {
+  const ids: number[] = [];
+  for (let id = 0; id < 128; id += 1) {
+    if ((bitmap >> BigInt(id)) & BigInt(1)) {
+      ids.push(id);
+    }
+  }
+  return ids;
+}
+
+/**
+ * Getter que o pool não tem (versão antiga ou fork): revert ou resposta vazia.
+ * Erros de RPC (timeout, HTTP, rate limit) não contam: esses devem subir.
+ */
+export function isMissingGetterError(error: unknown) {
+  return (
+    error instanceof BaseError &&
+    Boolean(
+      error.walk(
+        (cause) =>
+          cause instanceof ContractFunctionRevertedError ||
+          cause instanceof ContractFunctionZeroDataError ||
+          cause instanceof AbiDecodingZeroDataError ||
+          cause instanceof AbiDecodingDataSizeTooSmallError,
+      ),
+    )
+  );
+}
+
+export async function fetchUserEModeCategoryId(
+  poolAddress: `0x${string}`,
+  user: `0x${string}`,
+  chain: AaveChain = DEFAULT_AAVE_CHAIN,
+) {
+  const client = getPublicClient(chain);
+  const categoryId = await client.readContract({
+    address: poolAddress,
+    abi: IPool_ABI,
+    functionName: "getUserEMode",
+    args: [user],
+  });
+  return Number(categoryId);
+}
+
+export async function fetchEModeCategory(
+  poolAddress: `0x${string}`,
+  categoryId: number,
+  chain: AaveChain = DEFAULT_AAVE_CHAIN,
+): Promise<AaveEModeCategory | null> {
+  if (!categoryId) return null;
+  const client = getPublicClient(chain);
+  const [config, label, collateralBitmap, borrowableBitmap] =
+    await client.multicall({
+      allowFailure: false,
+      contracts: [
+        {
+          address: poolAddress,
+          abi: IPool_ABI,
+          functionName: "getEModeCategoryCollateralConfig",
+          args: [categoryId],
+        },
+        {
+          address: poolAddress,
+          abi: IPool_ABI,
+          functionName: "getEModeCategoryLabel",
+          args: [categoryId],
+        },
+        {
+          address: poolAddress,
+          abi: IPool_ABI,
+          functionName: "getEModeCategoryCollateralBitmap",
+          args: [categoryId],
+        },
+        {
+          address: poolAddress,
+          abi: IPool_ABI,
+          functionName: "getEModeCategoryBorrowableBitmap",
+          args: [categoryId],
+        },
+      ],
+    });
+
+  const collateralIds = bitmapToReserveIds(collateralBitmap);
+  const borrowableIds = bitmapToReserveIds(borrowableBitmap);
+  const reserveIds = Array.from(new Set([...collateralIds, ...borrowableIds]));
+  const addresses = reserveIds.length
+    ? await client.multicall({
+        allowFailure: false,
+        contracts: reserveIds.map(
+          (id) =>
+            ({
+              address: poolAddress,
+              abi: IPool_ABI,
+              functionName: "getReserveAddressById",
+              args: [id],
+            }) as const,
+        ),
+      })
+    : [];
+  const addressById = new Map(
+    reserveIds.map((id, index) => [id, addresses[index].toLowerCase()]),
+  );
+
+  return {
+    id: categoryId,
+    label,
+    ltv: Number(config.ltv),
+    liquidationThreshold: Number(config.liquidationThreshold),
+    liquidationBonus: Number(config.liquidationBonus),
+    collateralAssets: collateralIds.map((id) => addressById.get(id) ?? ""),
+    borrowableAssets: borrowableIds.map((id) => addressById.get(id) ?? ""),
+  };
+}
+
+/**
+ * Pools antes da v3.2 (e forks) não têm os getters por bitmap: a categoria
+ * vem de getEModeCategoryData e os assets do eModeCategoryId de cada reserve.
+ */
+export async function fetchLegacyEModeCategory(
+  poolAddress: `0x${string}`,
+  categoryId: number,
+  reserves: Pick<AaveReserveData, "underlyingAsset" | "eModeCategoryId">[],
+  chain: AaveChain = DEFAULT_AAVE_CHAIN,
+): Promise<AaveEModeCategory | null> {
+  if (!categoryId) return null;
+  const client = getPublicClient(chain);
+  const data = await client.readContract({
+    address: poolAddress,
+    abi: IPool_ABI,
+    functionName: "getEModeCategoryData",
+    args: [categoryId],
+  });
+  const assets = reserves
+    .filter((reserve) => reserve.eModeCategoryId === categoryId)
+    .map((reserve) => reserve.underlyingAsset.toLowerCase());
+
+  return {
+    id: categoryId,
+    label: data.label,
+    ltv: Number(data.ltv),
+    liquidationThreshold: Number(data.liquidationThreshold),
+    liquidationBonus: Number(data.liquidationBonus),
+    collateralAssets: assets,
+    borrowableAssets: assets,
+  };
+}
@@ -0,0 +1,92 @@
+import { AAVE_CONFIG, AaveChain } from "@/lib/aave/addresses";
+import { AAVE_CHAINS, SUPPORTED_AAVE_CHAINS } from "@/lib/aave/chains";
+import { AaveFork, isAaveFork } from "@/lib/protocols";
+
+export type AavePoolConfig = {
+  poolAddressesProvider: `0x${string}`;
+  uiPoolDataProvider: `0x${string}`;
+  priceOracle: `0x${string}`;
+  protocolDataProvider: `0x${string}`;
+};
+
+type AaveForkDeployment = AavePoolConfig & {
+  /** Variável de ambiente com o subgraph do fork na chain. */
+  subgraphEnv: string;
+};
+
+/**
+ * Address set de cada fork por chain. Registar um fork Aave v3 é só dados:
+ * os readers, HF, alertas e sync de histórico são os mesmos do Aave.
+ */
+export const AAVE_FORK_DEPLOYMENTS: Record<
+  AaveFork,
+  Partial<Record<AaveChain, AaveForkDeployment>>
+> = {
+  aave: Object.fromEntries(
+    SUPPORTED_AAVE_CHAINS.map((chain) => [
+      chain,
+      { ...AAVE_CONFIG[chain], subgraphEnv: AAVE_CHAINS[chain].subgraphEnv },
+    ]),
+  ),
+  spark: {
+    ethereum: {
+      poolAddressesProvider: "0x02C3eA4e34C0cBd694D2adFa2c690EECbC1793eE",
+      uiPoolDataProvider: "0xF028c2F4b19898718fD0F77b9b881CbfdAa5e8Bb",
+      priceOracle: "0x8105f69D9C41644c6A0803fDA7D03Aa70996cFD9",
+      protocolDataProvider: "0xFc21d6d146E6086B8359705C8b28512a983db0cb",
+      subgraphEnv: "SPARK_SUBGRAPH_ETHEREUM",
+    },
+  },
+};
+
+export function getAaveForkChains(fork: AaveFork): AaveChain[] {
+  return SUPPORTED_AAVE_CHAINS.filter(
+    (chain) => AAVE_FORK_DEPLOYMENTS[fork][chain],
+  );
+}
+
+export function parseAaveForkChain(
+  fork: AaveFork,
+  value: string | null,
+): AaveChain | null {
+  if (!value) return null;
+  return getAaveForkChains(fork).find((chain) => chain === value) ?? null;
+}
+
+/** Chain do fork, ou a primeira do registo se `value` não for suportada. */
+export function resolveAaveForkChain(
+  fork: AaveFork,
+  value: string | null,
+): AaveChain {
+  return parseAaveForkChain(fork, value) ?? getAaveForkChains(fork)[0];
+}
+
+export function getAaveConfig(
+  chain: AaveChain,
+  fork: AaveFork = "aave",
+): AavePoolConfig {
+  const deployment = AAVE_FORK_DEPLOYMENTS[fork][chain];
+  if (!deployment) {
+    throw new Error(`Unsupported ${fork} chain: ${chain}`);
+  }
+  return deployment;
+}
+
+export function getAaveForkSubgraphEnv(fork: AaveFork, chain: string | null) {
+  const parsed = parseAaveForkChain(fork, chain);
+  return parsed
+    ? (AAVE_FORK_DEPLOYMENTS[fork][parsed]?.subgraphEnv ?? null)
+    : null;
+}
+
+export function getAaveForkSubgraphUrl(fork: AaveFork, chain: string | null) {
+  const envVar = getAaveForkSubgraphEnv(fork, chain);
+  return envVar ? process.env[envVar] : undefined;
+}
+
+/** Fork e chain pedidos às rotas /api/aave (forks chegam com ?protocol=). */
+export function parseAaveForkQuery(searchParams: URLSearchParams) {
+  const protocol = searchParams.get("protocol");
+  const fork: AaveFork = isAaveFork(protocol) ? protocol : "aave";
+  return { fork, chain: resolveAaveForkChain(fork, searchParams.get("chain")) };
+}
@@ -1,5 +1,12 @@
-import { AAVE_CONFIG, AaveChain, DEFAULT_AAVE_CHAIN } from "@/lib/aave/addresses";
+import { AaveChain, DEFAULT_AAVE_CHAIN } from "@/lib/aave/addresses";
 import { getPublicClient } from "@/lib/aave/client";
+import { getAaveConfig } from "@/lib/aave/forks";
+import {
+  AaveBaseCurrency,
+  AaveReserveData,
+  AaveUserReserveData,
+} from "@/lib/aave/types";
+import { AaveFork } from "@/lib/protocols";
 
 const protocolDataProviderAbi = [
   {
@@ -66,6 +73,16 @@ const protocolDataProviderAbi = [
       { name: "variableDebtTokenAddress", type: "address" },
     ],
   },
+  {
+    type: "function",
+    name: "getReserveCaps",
+    stateMutability: "view",
+    inputs: [{ name: "asset", type: "address" }],
+    outputs: [
+      { name: "borrowCap", type: "uint256" },
+      { name: "supplyCap", type: "uint256" },
+    ],
+  },
   {
     type: "function",
     name: "getUserReserveData",
@@ -100,6 +117,20 @@ const oracleAbi = [
 
 const DEFAULT_CONCURRENCY = 2;
 const BATCH_DELAY_MS = 200;
+// Tamanho máximo (bytes de calldata) por chamada aggregate3 do Multicall3.
+const MULTICALL_BATCH_SIZE = 8_192;
+
+type ContractTuple = Record<string, unknown> | readonly unknown[];
+type PublicClient = ReturnType<typeof getPublicClient>;
+
+type ReserveReads = {
+  reserveData: ContractTuple;
+  reserveConfigData: ContractTuple;
+  tokenAddresses: ContractTuple;
+};
+
+/** null = caps desconhecidos (provider sem getReserveCaps, ex.: Aave v2). */
+type ReserveCapsRead = { borrowCap: bigint; supplyCap: bigint } | null;
 
 async function mapWithConcurrency<T, R>(
   items: T[],
@@ -120,206 +151,402 @@ async function mapWithConcurrency<T, R>(
   return results;
 }
 
-export async function fetchProtocolReservesData(
-  chain: AaveChain = DEFAULT_AAVE_CHAIN,
-) {
-  const client = getPublicClient(chain);
-  const config = AAVE_CONFIG[chain];
-  const reserves = await client.readContract({
-    address: config.protocolDataProvider,
-    abi: protocolDataProviderAbi,
-    functionName: "getAllReservesTokens",
-  });
-
-  type ReserveEntry = Record<string, unknown> | readonly unknown[];
-  const asTuple = <T extends Record<string, unknown>>(
-    value: T | unknown[] | readonly unknown[],
-  ): ReserveEntry => (Array.isArray(value) ? value : value);
-  const pick = (value: ReserveEntry, key: string, idx: number) =>
-    Array.isArray(value) ? value[idx] : (value as Record<string, unknown>)[key];
+function pick(value: ContractTuple, key: string, idx: number) {
+  return Array.isArray(value)
+    ? value[idx]
+    : (value as Record<string, unknown>)[key];
+}
 
-  const reserveList = Array.isArray(reserves)
-    ? reserves
-    : Object.values(reserves as unknown as Record<string, unknown>).filter(
-        (value) =>
-          Array.isArray(value) ||
-          (value && typeof value === "object" && "tokenAddress" in value),
-      );
+/**
+ * Corre as leituras via Multicall3 (poucos round trips) e, se o RPC ou a
+ * chain não suportarem multicall, repete-as uma a uma com o caminho antigo.
+ */
+async function withMulticallFallback<R>(
+  label: string,
+  chain: AaveChain,
+  multicallPath: () => Promise<R>,
+  sequentialPath: () => Promise<R>,
+) {
+  try {
+    return await multicallPath();
+  } catch (error) {
+    console.warn(`aave.multicall.${label}`, chain, error);
+    return sequentialPath();
+  }
+}
 
-  const mapped = await mapWithConcurrency(
-    reserveList,
-    DEFAULT_CONCURRENCY,
-    async (entry) => {
-      const symbol = pick(entry, "symbol", 0) as string;
-      const underlyingAsset = pick(entry, "tokenAddress", 1) as `0x${string}`;
-      const reserveData = await client.readContract({
-        address: config.protocolDataProvider,
+async function readReservesMulticall(
+  client: PublicClient,
+  dataProvider: `0x${string}`,
+  assets: `0x${string}`[],
+): Promise<ReserveReads[]> {
+  const results = (await client.multicall({
+    allowFailure: false,
+    batchSize: MULTICALL_BATCH_SIZE,
+    contracts: assets.flatMap((asset) => [
+      {
+        address: dataProvider,
         abi: protocolDataProviderAbi,
         functionName: "getReserveData",
-        args: [underlyingAsset],
-      });
-      const reserveConfigData = await client.readContract({
-        address: config.protocolDataProvider,
+        args: [asset],
+      } as const,
+      {
+        address: dataProvider,
         abi: protocolDataProviderAbi,
         functionName: "getReserveConfigurationData",
-        args: [underlyingAsset],
-      });
-      const tokenAddresses = await client.readContract({
-        address: config.protocolDataProvider,
+        args: [asset],
+      } as const,
+      {
+        address: dataProvider,
         abi: protocolDataProviderAbi,
         functionName: "getReserveTokensAddresses",
-        args: [underlyingAsset],
-      });
+        args: [asset],
+      } as const,
+    ]),
+  })) as unknown as ContractTuple[];
 
-      const reserve = asTuple(reserveData);
-      const reserveConfig = asTuple(reserveConfigData);
-      const tokens = asTuple(tokenAddresses);
+  return assets.map((_, index) => ({
+    reserveData: results[index * 3],
+    reserveConfigData: results[index * 3 + 1],
+    tokenAddresses: results[index * 3 + 2],
+  }));
+}
 
-      const totalAToken = pick(reserve, "totalAToken", 2) as bigint;
-      const totalStableDebt = pick(reserve, "totalStableDebt", 3) as bigint;
-      const totalVariableDebt = pick(reserve, "totalVariableDebt", 4) as bigint;
-      const availableLiquidity =
-        totalAToken > totalStableDebt + totalVariableDebt
-          ? totalAToken - totalStableDebt - totalVariableDebt
-          : BigInt(0);
+async function readReservesSequential(
+  client: PublicClient,
+  dataProvider: `0x${string}`,
+  assets: `0x${string}`[],
+): Promise<ReserveReads[]> {
+  return mapWithConcurrency(assets, DEFAULT_CONCURRENCY, async (asset) => {
+    const reserveData = await client.readContract({
+      address: dataProvider,
+      abi: protocolDataProviderAbi,
+      functionName: "getReserveData",
+      args: [asset],
+    });
+    const reserveConfigData = await client.readContract({
+      address: dataProvider,
+      abi: protocolDataProviderAbi,
+      functionName: "getReserveConfigurationData",
+      args: [asset],
+    });
+    const tokenAddresses = await client.readContract({
+      address: dataProvider,
+      abi: protocolDataProviderAbi,
+      functionName: "getReserveTokensAddresses",
+      args: [asset],
+    });
+    return { reserveData, reserveConfigData, tokenAddresses };
+  });
+}
 
-      return {
-        underlyingAsset,
-        name: symbol,
-        symbol,
-        decimals: pick(reserveConfig, "decimals", 0) as bigint,
-        baseLTVasCollateral: pick(reserveConfig, "ltv", 1) as bigint,
-        reserveLiquidationThreshold: pick(
-          reserveConfig,
-          "liquidationThreshold",
-          2,
-        ) as bigint,
-        reserveLiquidationBonus: pick(
-          reserveConfig,
-          "liquidationBonus",
-          3,
-        ) as bigint,
-        reserveFactor: pick(reserveConfig, "reserveFactor", 4) as bigint,
-        usageAsCollateralEnabled: pick(
-          reserveConfig,
-          "usageAsCollateralEnabled",
-          5,
-        ) as boolean,
-        borrowingEnabled: pick(reserveConfig, "borrowingEnabled", 6) as boolean,
-        stableBorrowRateEnabled: pick(
-          reserveConfig,
-          "stableBorrowRateEnabled",
-          7,
-        ) as boolean,
-        isActive: pick(reserveConfig, "isActive", 8) as boolean,
-        isFrozen: pick(reserveConfig, "isFrozen", 9) as boolean,
-        liquidityIndex: pick(reserve, "liquidityIndex", 9) as bigint,
-        variableBorrowIndex: pick(reserve, "variableBorrowIndex", 10) as bigint,
-        liquidityRate: pick(reserve, "liquidityRate", 5) as bigint,
-        variableBorrowRate: pick(reserve, "variableBorrowRate", 6) as bigint,
-        stableBorrowRate: pick(reserve, "stableBorrowRate", 7) as bigint,
-        lastUpdateTimestamp: pick(
-          reserve,
-          "lastUpdateTimestamp",
-          11,
-        ) as bigint,
-        aTokenAddress: pick(tokens, "aTokenAddress", 0) as `0x${string}`,
-        stableDebtTokenAddress: pick(
-          tokens,
-          "stableDebtTokenAddress",
-          1,
-        ) as `0x${string}`,
-        variableDebtTokenAddress: pick(
-          tokens,
-          "variableDebtTokenAddress",
-          2,
-        ) as `0x${string}`,
-        availableLiquidity,
-        priceInMarketReferenceCurrency: BigInt(0),
-      };
+// À parte das outras leituras: um provider sem getReserveCaps não as invalida
+async function readReserveCaps(
+  client: PublicClient,
+  chain: AaveChain,
+  dataProvider: `0x${string}`,
+  assets: `0x${string}`[],
+): Promise<ReserveCapsRead[]> {
+  const toCaps = (value: unknown): ReserveCapsRead => {
+    const [borrowCap, supplyCap] = value as readonly [bigint, bigint];
+    return { borrowCap, supplyCap };
+  };
+  return withMulticallFallback(
+    "caps",
+    chain,
+    async () => {
+      const results = await client.multicall({
+        allowFailure: true,
+        batchSize: MULTICALL_BATCH_SIZE,
+        contracts: assets.map(
+          (asset) =>
+            ({
+              address: dataProvider,
+              abi: protocolDataProviderAbi,
+              functionName: "getReserveCaps",
+              args: [asset],
+            }) as const,
+        ),
+      });
+      return results.map((result) =>
+        result.status === "success" ? toCaps(result.result) : null,
+      );
     },
+    () =>
+      mapWithConcurrency(assets, DEFAULT_CONCURRENCY, async (asset) => {
+        try {
+          return toCaps(
+            await client.readContract({
+              address: dataProvider,
+              abi: protocolDataProviderAbi,
+              functionName: "getReserveCaps",
+              args: [asset],
+            }),
+          );
+        } catch {
+          return null;
+        }
+      }),
+  );
+}
+
+function mapReserve(
+  symbol: string,
+  underlyingAsset: `0x${string}`,
+  {
+    reserveData: reserve,
+    reserveConfigData: reserveConfig,
+    tokenAddresses: tokens,
+  }: ReserveReads,
+  caps: ReserveCapsRead,
+): AaveReserveData {
+  const totalAToken = pick(reserve, "totalAToken", 2) as bigint;
+  const totalStableDebt = pick(reserve, "totalStableDebt", 3) as bigint;
+  const totalVariableDebt = pick(reserve, "totalVariableDebt", 4) as bigint;
+  const availableLiquidity =
+    totalAToken > totalStableDebt + totalVariableDebt
+      ? totalAToken - totalStableDebt - totalVariableDebt
+      : BigInt(0);
+
+  return {
+    underlyingAsset,
+    name: symbol,
+    symbol,
+    decimals: pick(reserveConfig, "decimals", 0) as bigint,
+    baseLTVasCollateral: pick(reserveConfig, "ltv", 1) as bigint,
+    reserveLiquidationThreshold: pick(
+      reserveConfig,
+      "liquidationThreshold",
+      2,
+    ) as bigint,
+    reserveLiquidationBonus: pick(
+      reserveConfig,
+      "liquidationBonus",
+      3,
+    ) as bigint,
+    reserveFactor: pick(reserveConfig, "reserveFactor", 4) as bigint,
+    usageAsCollateralEnabled: pick(
+      reserveConfig,
+      "usageAsCollateralEnabled",
+      5,
+    ) as boolean,
+    borrowingEnabled: pick(reserveConfig, "borrowingEnabled", 6) as boolean,
+    stableBorrowRateEnabled: pick(
+      reserveConfig,
+      "stableBorrowRateEnabled",
+      7,
+    ) as boolean,
+    isActive: pick(reserveConfig, "isActive", 8) as boolean,
+    isFrozen: pick(reserveConfig, "isFrozen", 9) as boolean,
+    isPaused: false,
+    liquidityIndex: pick(reserve, "liquidityIndex", 9) as bigint,
+    variableBorrowIndex: pick(reserve, "variableBorrowIndex", 10) as bigint,
+    liquidityRate: pick(reserve, "liquidityRate", 5) as bigint,
+    variableBorrowRate: pick(reserve, "variableBorrowRate", 6) as bigint,
+    stableBorrowRate: pick(reserve, "stableBorrowRate", 7) as bigint,
+    lastUpdateTimestamp: pick(reserve, "lastUpdateTimestamp", 11) as bigint,
+    aTokenAddress: pick(tokens, "aTokenAddress", 0) as `0x${string}`,
+    stableDebtTokenAddress: pick(
+      tokens,
+      "stableDebtTokenAddress",
+      1,
+    ) as `0x${string}`,
+    variableDebtTokenAddress: pick(
+      tokens,
+      "variableDebtTokenAddress",
+      2,
+    ) as `0x${string}`,
+    availableLiquidity,
+    totalDebt: totalStableDebt + totalVariableDebt,
+    priceInMarketReferenceCurrency: BigInt(0),
+    eModeCategoryId: 0,
+    eModeLtv: 0,
+    eModeLiquidationThreshold: 0,
+    eModeLiquidationBonus: 0,
+    eModeLabel: "",
+    borrowCap: caps?.borrowCap ?? null,
+    supplyCap: caps?.supplyCap ?? null,
+    debtCeiling: BigInt(0),
+    debtCeilingDecimals: 0,
+    isolationModeTotalDebt: BigInt(0),
+    borrowableInIsolation: false,
+    isSiloedBorrowing: false,
+  };
+}
+
+export async function fetchProtocolReservesData(
+  chain: AaveChain = DEFAULT_AAVE_CHAIN,
+  fork: AaveFork = "aave",
+) {
+  const client = getPublicClient(chain);
+  const config = getAaveConfig(chain, fork);
+  const reserves = await client.readContract({
+    address: config.protocolDataProvider,
+    abi: protocolDataProviderAbi,
+    functionName: "getAllReservesTokens",
+  });
+
+  const reserveList = (
+    Array.isArray(reserves)
+      ? reserves
+      : Object.values(reserves as unknown as Record<string, unknown>).filter(
+          (value) =>
+            Array.isArray(value) ||
+            (value && typeof value === "object" && "tokenAddress" in value),
+        )
+  ) as ContractTuple[];
+
+  const entries = reserveList.map((entry) => ({
+    symbol: pick(entry, "symbol", 0) as string,
+    underlyingAsset: pick(entry, "tokenAddress", 1) as `0x${string}`,
+  }));
+  const assets = entries.map((entry) => entry.underlyingAsset);
+
+  const reads = await withMulticallFallback(
+    "reserves",
+    chain,
+    () => readReservesMulticall(client, config.protocolDataProvider, assets),
+    () => readReservesSequential(client, config.protocolDataProvider, assets),
+  );
+  const caps = await readReserveCaps(
+    client,
+    chain,
+    config.protocolDataProvider,
+    assets,
   );
 
   return {
-    reserves: mapped,
+    reserves: entries.map((entry, index) =>
+      mapReserve(
+        entry.symbol,
+        entry.underlyingAsset,
+        reads[index],
+        caps[index] ?? null,
+      ),
+    ),
     baseCurrency: {
       marketReferenceCurrencyUnit: BigInt(100000000),
       marketReferenceCurrencyPriceInUsd: BigInt(100000000),
       networkBaseTokenPriceDecimals: 8,
-    },
+    } as AaveBaseCurrency,
   };
 }
 
 export async function fetchAssetPrices(
   assets: `0x${string}`[],
   chain: AaveChain = DEFAULT_AAVE_CHAIN,
+  fork: AaveFork = "aave",
 ) {
   const client = getPublicClient(chain);
-  const config = AAVE_CONFIG[chain];
-  const uniqueAssets = Array.from(new Set(assets.map((a) => a.toLowerCase())));
-  const entries = await mapWithConcurrency(
-    uniqueAssets,
-    DEFAULT_CONCURRENCY,
-    async (asset) => {
-      try {
-        const price = await client.readContract({
-          address: config.priceOracle,
-          abi: oracleAbi,
-          functionName: "getAssetPrice",
-          args: [asset as `0x${string}`],
-        });
-        return [asset, price] as const;
-      } catch (error) {
-        console.warn("price-oracle", asset, error);
-        return [asset, BigInt(0)] as const;
-      }
+  const config = getAaveConfig(chain, fork);
+  const uniqueAssets = Array.from(
+    new Set(assets.map((a) => a.toLowerCase())),
+  ) as `0x${string}`[];
+
+  const entries = await withMulticallFallback(
+    "prices",
+    chain,
+    async () => {
+      const results = await client.multicall({
+        batchSize: MULTICALL_BATCH_SIZE,
+        contracts: uniqueAssets.map(
+          (asset) =>
+            ({
+              address: config.priceOracle,
+              abi: oracleAbi,
+              functionName: "getAssetPrice",
+              args: [asset],
+            }) as const,
+        ),
+      });
+      return uniqueAssets.map((asset, index) => {
+        const result = results[index];
+        if (result.status === "failure") {
+          console.warn("price-oracle", asset, result.error);
+          return [asset, BigInt(0)] as const;
+        }
+        return [asset, result.result as bigint] as const;
+      });
     },
+    () =>
+      mapWithConcurrency(uniqueAssets, DEFAULT_CONCURRENCY, async (asset) => {
+        try {
+          const price = await client.readContract({
+            address: config.priceOracle,
+            abi: oracleAbi,
+            functionName: "getAssetPrice",
+            args: [asset],
+          });
+          return [asset, price] as const;
+        } catch (error) {
+          console.warn("price-oracle", asset, error);
+          return [asset, BigInt(0)] as const;
+        }
+      }),
   );
 
-  return new Map(entries);
+  return new Map<string, bigint>(entries);
+}
+
+function mapUserReserve(
+  underlyingAsset: `0x${string}`,
+  data: ContractTuple,
+): AaveUserReserveData {
+  return {
+    underlyingAsset,
+    scaledATokenBalance: pick(data, "currentATokenBalance", 0) as bigint,
+    scaledVariableDebt: pick(data, "currentVariableDebt", 2) as bigint,
+    principalStableDebt: pick(data, "currentStableDebt", 1) as bigint,
+    usageAsCollateralEnabledOnUser: pick(
+      data,
+      "usageAsCollateralEnabled",
+      8,
+    ) as boolean,
+    isScaled: false,
+  };
 }
 
 export async function fetchProtocolUserReserves(
   user: `0x${string}`,
   reserves: { underlyingAsset: `0x${string}` }[],
   chain: AaveChain = DEFAULT_AAVE_CHAIN,
+  fork: AaveFork = "aave",
 ) {
   const client = getPublicClient(chain);
-  const config = AAVE_CONFIG[chain];
-  const userReserves = await mapWithConcurrency(
-    reserves,
-    DEFAULT_CONCURRENCY,
-    async (reserve) => {
-      const data = await client.readContract({
-        address: config.protocolDataProvider,
-        abi: protocolDataProviderAbi,
-        functionName: "getUserReserveData",
-        args: [reserve.underlyingAsset, user],
-      });
+  const config = getAaveConfig(chain, fork);
+  const assets = reserves.map((reserve) => reserve.underlyingAsset);
 
-      const pick = (
-        value: Record<string, unknown> | unknown[] | readonly unknown[],
-        key: string,
-        idx: number,
-      ) =>
-        Array.isArray(value)
-          ? value[idx]
-          : (value as Record<string, unknown>)[key];
-
-      return {
-        underlyingAsset: reserve.underlyingAsset,
-        scaledATokenBalance: pick(data, "currentATokenBalance", 0) as bigint,
-        scaledVariableDebt: pick(data, "currentVariableDebt", 2) as bigint,
-        principalStableDebt: pick(data, "currentStableDebt", 1) as bigint,
-        usageAsCollateralEnabledOnUser: pick(
-          data,
-          "usageAsCollateralEnabled",
-          8,
-        ) as boolean,
-        isScaled: false,
-      };
-    },
+  const reads = await withMulticallFallback(
+    "user-reserves",
+    chain,
+    async () =>
+      (await client.multicall({
+        allowFailure: false,
+        batchSize: MULTICALL_BATCH_SIZE,
+        contracts: assets.map(
+          (asset) =>
+            ({
+              address: config.protocolDataProvider,
+              abi: protocolDataProviderAbi,
+              functionName: "getUserReserveData",
+              args: [asset, user],
+            }) as const,
+        ),
+      })) as unknown as ContractTuple[],
+    () =>
+      mapWithConcurrency(assets, DEFAULT_CONCURRENCY, (asset) =>
+        client.readContract({
+          address: config.protocolDataProvider,
+          abi: protocolDataProviderAbi,
+          functionName: "getUserReserveData",
+          args: [asset, user],
+        }),
+      ),
   );
 
-  return { userReserves };
+  return {
+    userReserves: assets.map((asset, index) =>
+      mapUserReserve(asset, reads[index]),
+    ),
+  };
 }
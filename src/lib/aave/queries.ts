@@ -3,20 +3,39 @@ import {
   IPoolAddressesProvider_ABI,
 } from "@bgd-labs/aave-address-book/abis";
 
-import { AAVE_CONFIG, AaveChain, DEFAULT_AAVE_CHAIN } from "@/lib/aave/addresses";
+import { AaveChain, DEFAULT_AAVE_CHAIN } from "@/lib/aave/addresses";
 import { getPublicClient } from "@/lib/aave/client";
+import { getAaveConfig } from "@/lib/aave/forks";
 import { withCache } from "@/lib/cache";
 import {
+  fetchAssetPrices,
   fetchProtocolReservesData,
   fetchProtocolUserReserves,
 } from "@/lib/aave/protocolDataProvider";
+import {
+  fetchUiPoolReservesData,
+  fetchUiPoolUserReserves,
+} from "@/lib/aave/uiPoolDataProvider";
+import {
+  fetchEModeCategory,
+  fetchLegacyEModeCategory,
+  fetchUserEModeCategoryId,
+  isMissingGetterError,
+} from "@/lib/aave/emode";
+import { AaveReserveData, AaveReservesSource } from "@/lib/aave/types";
+import { AaveFork } from "@/lib/protocols";
+import { rpcCacheKey } from "@/lib/rpc/context";
 
 const RESERVES_TTL = 60_000;
+// Dados do user vão para HF e alertas: sem servir valores stale (staleMs 0)
 const USER_TTL = 20_000;
 
-export async function getPoolAddress(chain: AaveChain = DEFAULT_AAVE_CHAIN) {
+export async function getPoolAddress(
+  chain: AaveChain = DEFAULT_AAVE_CHAIN,
+  fork: AaveFork = "aave",
+) {
   const client = getPublicClient(chain);
-  const config = AAVE_CONFIG[chain];
+  const config = getAaveConfig(chain, fork);
   return client.readContract({
     address: config.poolAddressesProvider,
     abi: IPoolAddressesProvider_ABI,
@@ -24,9 +43,12 @@ export async function getPoolAddress(chain: AaveChain = DEFAULT_AAVE_CHAIN) {
   });
 }
 
-export async function getPriceOracle(chain: AaveChain = DEFAULT_AAVE_CHAIN) {
+export async function getPriceOracle(
+  chain: AaveChain = DEFAULT_AAVE_CHAIN,
+  fork: AaveFork = "aave",
+) {
   const client = getPublicClient(chain);
-  const config = AAVE_CONFIG[chain];
+  const config = getAaveConfig(chain, fork);
   return client.readContract({
     address: config.poolAddressesProvider,
     abi: IPoolAddressesProvider_ABI,
@@ -34,36 +56,150 @@ export async function getPriceOracle(chain: AaveChain = DEFAULT_AAVE_CHAIN) {
   });
 }
 
-export async function fetchReservesData(chain: AaveChain = DEFAULT_AAVE_CHAIN) {
-  return withCache(`aave:reserves:${chain}`, RESERVES_TTL, async () => {
-    return fetchProtocolReservesData(chain);
+export async function fetchUserEMode(
+  address: `0x${string}`,
+  chain: AaveChain = DEFAULT_AAVE_CHAIN,
+  fork: AaveFork = "aave",
+) {
+  const poolAddress = await withCache(
+    rpcCacheKey(chain, `${fork}:pool:${chain}`),
+    RESERVES_TTL,
+    () => getPoolAddress(chain, fork),
+  );
+  // Pools sem e-mode (sem o getter) ficam sem categoria; erros de RPC sobem
+  let categoryId: number;
+  try {
+    categoryId = await withCache(
+      rpcCacheKey(chain, `${fork}:user-emode:${chain}:${address}`),
+      USER_TTL,
+      () => fetchUserEModeCategoryId(poolAddress, address, chain),
+      { staleMs: 0 },
+    );
+  } catch (error) {
+    if (!isMissingGetterError(error)) throw error;
+    console.warn("aave.emode.user", fork, chain, error);
+    return null;
+  }
+  if (!categoryId) return null;
+  // Só a leitura v3.2 fica em cache; os fallbacks repetem-se a cada pedido
+  try {
+    return await withCache(
+      rpcCacheKey(chain, `${fork}:emode-category:${chain}:${categoryId}`),
+      RESERVES_TTL,
+      () => fetchEModeCategory(poolAddress, categoryId, chain),
+    );
+  } catch (error) {
+    if (!isMissingGetterError(error)) throw error;
+    console.warn("aave.emode.category", fork, chain, categoryId, error);
+  }
+  // Sem os getters da v3.2: categoria legacy e, sem ela, LTs da reserve
+  try {
+    const { reserves } = await fetchReservesData(chain, fork);
+    return await fetchLegacyEModeCategory(
+      poolAddress,
+      categoryId,
+      reserves,
+      chain,
+    );
+  } catch (error) {
+    if (!isMissingGetterError(error)) throw error;
+    console.warn("aave.emode.legacy", fork, chain, categoryId, error);
+    return null;
+  }
+}
+
+export async function fetchReservesData(
+  chain: AaveChain = DEFAULT_AAVE_CHAIN,
+  fork: AaveFork = "aave",
+) {
+  const cacheKey = rpcCacheKey(chain, `${fork}:reserves:${chain}`);
+  return withCache(cacheKey, RESERVES_TTL, async () => {
+    try {
+      const data = await fetchUiPoolReservesData(chain, fork);
+      return { ...data, source: "ui-pool-data-provider" as AaveReservesSource };
+    } catch (error) {
+      console.warn("aave.ui-pool.reserves", fork, chain, error);
+      const data = await fetchProtocolReservesData(chain, fork);
+      return { ...data, source: "protocol-data-provider" as AaveReservesSource };
+    }
   });
 }
 
 export async function fetchUserReservesData(
   address: `0x${string}`,
   chain: AaveChain = DEFAULT_AAVE_CHAIN,
+  fork: AaveFork = "aave",
 ) {
   return withCache(
-    `aave:user-reserves:${chain}:${address}`,
+    rpcCacheKey(chain, `${fork}:user-reserves:${chain}:${address}`),
     USER_TTL,
     async () => {
-      const { reserves } = await fetchProtocolReservesData(chain);
-      return fetchProtocolUserReserves(address, reserves, chain);
+      try {
+        const data = await fetchUiPoolUserReserves(address, chain, fork);
+        return {
+          ...data,
+          source: "ui-pool-data-provider" as AaveReservesSource,
+        };
+      } catch (error) {
+        console.warn("aave.ui-pool.user-reserves", fork, chain, error);
+        const { reserves } = await fetchReservesData(chain, fork);
+        const data = await fetchProtocolUserReserves(
+          address,
+          reserves,
+          chain,
+          fork,
+        );
+        return {
+          ...data,
+          userEmodeCategoryId: 0,
+          source: "protocol-data-provider" as AaveReservesSource,
+        };
+      }
     },
+    { staleMs: 0 },
   );
 }
 
+/**
+ * Preço de cada reserva na moeda de referência do mercado. Usa o preço que
+ * já veio do UiPoolDataProvider e só consulta o oracle para as que vieram a 0.
+ */
+export async function fetchReservePrices(
+  reserves: Pick<
+    AaveReserveData,
+    "underlyingAsset" | "priceInMarketReferenceCurrency"
+  >[],
+  chain: AaveChain = DEFAULT_AAVE_CHAIN,
+  fork: AaveFork = "aave",
+) {
+  const prices = new Map<string, bigint>();
+  const missing: `0x${string}`[] = [];
+  reserves.forEach((reserve) => {
+    const key = reserve.underlyingAsset.toLowerCase();
+    if (reserve.priceInMarketReferenceCurrency > BigInt(0)) {
+      prices.set(key, reserve.priceInMarketReferenceCurrency);
+    } else {
+      missing.push(reserve.underlyingAsset);
+    }
+  });
+  if (missing.length) {
+    const oraclePrices = await fetchAssetPrices(missing, chain, fork);
+    oraclePrices.forEach((price, asset) => prices.set(asset, price));
+  }
+  return prices;
+}
+
 export async function fetchUserAccountData(
   address: `0x${string}`,
   chain: AaveChain = DEFAULT_AAVE_CHAIN,
+  fork: AaveFork = "aave",
 ) {
   return withCache(
-    `aave:user-account:${chain}:${address}`,
+    rpcCacheKey(chain, `${fork}:user-account:${chain}:${address}`),
     USER_TTL,
     async () => {
       const client = getPublicClient(chain);
-      const poolAddress = await getPoolAddress(chain);
+      const poolAddress = await getPoolAddress(chain, fork);
     return client.readContract({
       address: poolAddress,
       abi: IPool_ABI,
@@ -71,5 +207,6 @@ export async function fetchUserAccountData(
       args: [address],
     });
     },
+    { staleMs: 0 },
   );
 }
@@ -0,0 +1,73 @@
+export type AaveBaseCurrency = {
+  marketReferenceCurrencyUnit: bigint;
+  marketReferenceCurrencyPriceInUsd: bigint;
+  networkBaseTokenPriceDecimals: number;
+};
+
+export type AaveReserveData = {
+  underlyingAsset: `0x${string}`;
+  name: string;
+  symbol: string;
+  decimals: bigint;
+  baseLTVasCollateral: bigint;
+  reserveLiquidationThreshold: bigint;
+  reserveLiquidationBonus: bigint;
+  reserveFactor: bigint;
+  usageAsCollateralEnabled: boolean;
+  borrowingEnabled: boolean;
+  stableBorrowRateEnabled: boolean;
+  isActive: boolean;
+  isFrozen: boolean;
+  isPaused: boolean;
+  liquidityIndex: bigint;
+  variableBorrowIndex: bigint;
+  liquidityRate: bigint;
+  variableBorrowRate: bigint;
+  stableBorrowRate: bigint;
+  lastUpdateTimestamp: bigint;
+  aTokenAddress: `0x${string}`;
+  stableDebtTokenAddress: `0x${string}`;
+  variableDebtTokenAddress: `0x${string}`;
+  availableLiquidity: bigint;
+  /** Dívida total (variável + estável) em unidades do token. */
+  totalDebt: bigint;
+  /** 0 quando a fonte não devolve preços (fallback protocolDataProvider). */
+  priceInMarketReferenceCurrency: bigint;
+  eModeCategoryId: number;
+  eModeLtv: number;
+  eModeLiquidationThreshold: number;
+  eModeLiquidationBonus: number;
+  eModeLabel: string;
+  /** Caps em unidades inteiras do token (0 = sem cap, null = desconhecido). */
+  borrowCap: bigint | null;
+  supplyCap: bigint | null;
+  debtCeiling: bigint;
+  debtCeilingDecimals: number;
+  isolationModeTotalDebt: bigint;
+  borrowableInIsolation: boolean;
+  isSiloedBorrowing: boolean;
+};
+
+export type AaveUserReserveData = {
+  underlyingAsset: `0x${string}`;
+  scaledATokenBalance: bigint;
+  scaledVariableDebt: bigint;
+  principalStableDebt: bigint;
+  usageAsCollateralEnabledOnUser: boolean;
+  /** true quando os saldos ainda precisam de ser multiplicados pelo índice. */
+  isScaled: boolean;
+};
+
+export type AaveReservesSource = "ui-pool-data-provider" | "protocol-data-provider";
+
+export type AaveEModeCategory = {
+  id: number;
+  label: string;
+  /** Valores em bps, tal como no contrato. */
+  ltv: number;
+  liquidationThreshold: number;
+  liquidationBonus: number;
+  /** Endereços (lowercase) que contam como colateral dentro da categoria. */
+  collateralAssets: string[];
+  borrowableAssets: string[];
+};
@@ -0,0 +1,210 @@
+import { isAddress, zeroAddress } from "viem";
+
+import { AaveChain, DEFAULT_AAVE_CHAIN } from "@/lib/aave/addresses";
+import { getPublicClient } from "@/lib/aave/client";
+import { getAaveConfig } from "@/lib/aave/forks";
+import { applyIndex } from "@/lib/aave/math";
+import { coerceBool } from "@/lib/aave/normalize";
+import { UI_POOL_DATA_PROVIDER_ABI } from "@/lib/aave/uiPoolAbi";
+import {
+  AaveBaseCurrency,
+  AaveReserveData,
+  AaveUserReserveData,
+} from "@/lib/aave/types";
+import { AaveFork } from "@/lib/protocols";
+
+type ContractStruct = Record<string, unknown>;
+
+// O ABI de uiPoolAbi.ts converte bool/uintN em uint256, por isso tudo o que
+// vem do contrato chega como bigint e é normalizado aqui.
+function asBigInt(value: unknown) {
+  if (typeof value === "bigint") return value;
+  if (value === undefined || value === null) return BigInt(0);
+  return BigInt(value as number | string | boolean);
+}
+
+function asNumber(value: unknown) {
+  return Number(asBigInt(value));
+}
+
+function asBool(value: unknown) {
+  return coerceBool(value as boolean | bigint | number);
+}
+
+const RESERVE_BOOL_FIELDS = [
+  "usageAsCollateralEnabled",
+  "borrowingEnabled",
+  "stableBorrowRateEnabled",
+  "isActive",
+  "isFrozen",
+  "isPaused",
+  "borrowableInIsolation",
+  "isSiloedBorrowing",
+];
+const MAX_BPS = BigInt(10000);
+const MAX_DECIMALS = BigInt(36);
+const MAX_BOOL = BigInt(1);
+
+function isTokenAddress(value: unknown) {
+  return typeof value === "string" && isAddress(value) && value !== zeroAddress;
+}
+
+// Com tudo alargado a uint256, uma struct com outra ordem de campos (versão
+// do periphery diferente) descodifica sem erro. Valores impossíveis fazem
+// falhar a leitura para o fallback ProtocolDataProvider.
+function assertUiReserve(reserve: ContractStruct, chain: AaveChain) {
+  const invalid = (field: string) =>
+    new Error(
+      `UiPoolDataProvider returned an invalid ${field} on ${chain}: ABI layout mismatch?`,
+    );
+  for (const field of [
+    "underlyingAsset",
+    "aTokenAddress",
+    "variableDebtTokenAddress",
+  ]) {
+    if (!isTokenAddress(reserve[field])) throw invalid(field);
+  }
+  if (asBigInt(reserve.decimals) > MAX_DECIMALS) throw invalid("decimals");
+  for (const field of [
+    "baseLTVasCollateral",
+    "reserveLiquidationThreshold",
+    "reserveFactor",
+  ]) {
+    if (asBigInt(reserve[field]) > MAX_BPS) throw invalid(field);
+  }
+  if (
+    asBigInt(reserve.baseLTVasCollateral) >
+    asBigInt(reserve.reserveLiquidationThreshold)
+  ) {
+    throw invalid("baseLTVasCollateral");
+  }
+  for (const field of RESERVE_BOOL_FIELDS) {
+    if (asBigInt(reserve[field]) > MAX_BOOL) throw invalid(field);
+  }
+}
+
+function mapUiReserve(reserve: ContractStruct): AaveReserveData {
+  return {
+    underlyingAsset: reserve.underlyingAsset as `0x${string}`,
+    name: String(reserve.name ?? reserve.symbol ?? ""),
+    symbol: String(reserve.symbol ?? ""),
+    decimals: asBigInt(reserve.decimals),
+    baseLTVasCollateral: asBigInt(reserve.baseLTVasCollateral),
+    reserveLiquidationThreshold: asBigInt(reserve.reserveLiquidationThreshold),
+    reserveLiquidationBonus: asBigInt(reserve.reserveLiquidationBonus),
+    reserveFactor: asBigInt(reserve.reserveFactor),
+    usageAsCollateralEnabled: asBool(reserve.usageAsCollateralEnabled),
+    borrowingEnabled: asBool(reserve.borrowingEnabled),
+    stableBorrowRateEnabled: asBool(reserve.stableBorrowRateEnabled),
+    isActive: asBool(reserve.isActive),
+    isFrozen: asBool(reserve.isFrozen),
+    isPaused: asBool(reserve.isPaused),
+    liquidityIndex: asBigInt(reserve.liquidityIndex),
+    variableBorrowIndex: asBigInt(reserve.variableBorrowIndex),
+    liquidityRate: asBigInt(reserve.liquidityRate),
+    variableBorrowRate: asBigInt(reserve.variableBorrowRate),
+    stableBorrowRate: asBigInt(reserve.stableBorrowRate),
+    lastUpdateTimestamp: asBigInt(reserve.lastUpdateTimestamp),
+    aTokenAddress: reserve.aTokenAddress as `0x${string}`,
+    stableDebtTokenAddress: reserve.stableDebtTokenAddress as `0x${string}`,
+    variableDebtTokenAddress: reserve.variableDebtTokenAddress as `0x${string}`,
+    availableLiquidity: asBigInt(reserve.availableLiquidity),
+    totalDebt:
+      applyIndex(
+        asBigInt(reserve.totalScaledVariableDebt),
+        asBigInt(reserve.variableBorrowIndex),
+      ) + asBigInt(reserve.totalPrincipalStableDebt),
+    priceInMarketReferenceCurrency: asBigInt(
+      reserve.priceInMarketReferenceCurrency,
+    ),
+    eModeCategoryId: asNumber(reserve.eModeCategoryId),
+    eModeLtv: asNumber(reserve.eModeLtv),
+    eModeLiquidationThreshold: asNumber(reserve.eModeLiquidationThreshold),
+    eModeLiquidationBonus: asNumber(reserve.eModeLiquidationBonus),
+    eModeLabel: String(reserve.eModeLabel ?? ""),
+    borrowCap: asBigInt(reserve.borrowCap),
+    supplyCap: asBigInt(reserve.supplyCap),
+    debtCeiling: asBigInt(reserve.debtCeiling),
+    debtCeilingDecimals: asNumber(reserve.debtCeilingDecimals),
+    isolationModeTotalDebt: asBigInt(reserve.isolationModeTotalDebt),
+    borrowableInIsolation: asBool(reserve.borrowableInIsolation),
+    isSiloedBorrowing: asBool(reserve.isSiloedBorrowing),
+  };
+}
+
+export async function fetchUiPoolReservesData(
+  chain: AaveChain = DEFAULT_AAVE_CHAIN,
+  fork: AaveFork = "aave",
+) {
+  const client = getPublicClient(chain);
+  const config = getAaveConfig(chain, fork);
+  const [reserves, baseCurrency] = (await client.readContract({
+    address: config.uiPoolDataProvider,
+    abi: UI_POOL_DATA_PROVIDER_ABI,
+    functionName: "getReservesData",
+    args: [config.poolAddressesProvider],
+  })) as readonly [readonly ContractStruct[], ContractStruct];
+
+  if (!reserves.length) {
+    throw new Error(`UiPoolDataProvider returned no reserves on ${chain}`);
+  }
+
+  reserves.forEach((reserve) => assertUiReserve(reserve, chain));
+
+  return {
+    reserves: reserves.map(mapUiReserve),
+    baseCurrency: {
+      marketReferenceCurrencyUnit: asBigInt(
+        baseCurrency.marketReferenceCurrencyUnit,
+      ),
+      marketReferenceCurrencyPriceInUsd: asBigInt(
+        baseCurrency.marketReferenceCurrencyPriceInUsd,
+      ),
+      networkBaseTokenPriceDecimals: asNumber(
+        baseCurrency.networkBaseTokenPriceDecimals,
+      ),
+    } as AaveBaseCurrency,
+  };
+}
+
+export async function fetchUiPoolUserReserves(
+  user: `0x${string}`,
+  chain: AaveChain = DEFAULT_AAVE_CHAIN,
+  fork: AaveFork = "aave",
+) {
+  const client = getPublicClient(chain);
+  const config = getAaveConfig(chain, fork);
+  const [userReserves, userEmodeCategoryId] = (await client.readContract({
+    address: config.uiPoolDataProvider,
+    abi: UI_POOL_DATA_PROVIDER_ABI,
+    functionName: "getUserReservesData",
+    args: [config.poolAddressesProvider, user],
+  })) as readonly [readonly ContractStruct[], unknown];
+
+  userReserves.forEach((reserve) => {
+    if (
+      !isTokenAddress(reserve.underlyingAsset) ||
+      asBigInt(reserve.usageAsCollateralEnabledOnUser) > MAX_BOOL
+    ) {
+      throw new Error(
+        `UiPoolDataProvider returned an invalid user reserve on ${chain}: ABI layout mismatch?`,
+      );
+    }
+  });
+
+  return {
+    userReserves: userReserves.map(
+      (reserve): AaveUserReserveData => ({
+        underlyingAsset: reserve.underlyingAsset as `0x${string}`,
+        scaledATokenBalance: asBigInt(reserve.scaledATokenBalance),
+        scaledVariableDebt: asBigInt(reserve.scaledVariableDebt),
+        principalStableDebt: asBigInt(reserve.principalStableDebt),
+        usageAsCollateralEnabledOnUser: asBool(
+          reserve.usageAsCollateralEnabledOnUser,
+        ),
+        isScaled: true,
+      }),
+    ),
+    userEmodeCategoryId: asNumber(userEmodeCategoryId),
+  };
+}
@@ -0,0 +1,150 @@
+import { formatUnits } from "viem";
+
+import { AaveChain, DEFAULT_AAVE_CHAIN } from "@/lib/aave/addresses";
+import { applyIndex, rayToPercent, toUsd } from "@/lib/aave/math";
+import { coerceBool } from "@/lib/aave/normalize";
+import {
+  fetchReservePrices,
+  fetchReservesData,
+  fetchUserEMode,
+  fetchUserReservesData,
+} from "@/lib/aave/queries";
+import { effectiveLiquidationThresholdBps } from "@/lib/calculations";
+import { computeReserveCaps } from "@/lib/caps";
+import { AaveFork } from "@/lib/protocols";
+
+/**
+ * Posições do user por reserve, com quantidades já indexadas, valores em USD
+ * e o LT efetivo (e-mode incluído) de cada colateral.
+ */
+export async function fetchUserReservesSummary(
+  address: `0x${string}`,
+  chain: AaveChain = DEFAULT_AAVE_CHAIN,
+  fork: AaveFork = "aave",
+) {
+  const [reservesData, userReservesData, eMode] = await Promise.all([
+    fetchReservesData(chain, fork),
+    fetchUserReservesData(address, chain, fork),
+    fetchUserEMode(address, chain, fork),
+  ]);
+
+  const { reserves, baseCurrency } = reservesData;
+  const { userReserves } = userReservesData;
+
+  const reserveMap = new Map(
+    reserves.map((reserve) => [reserve.underlyingAsset.toLowerCase(), reserve]),
+  );
+
+  const priceAssets = userReserves
+    .filter(
+      (reserve) =>
+        reserve.scaledATokenBalance > BigInt(0) ||
+        reserve.scaledVariableDebt > BigInt(0) ||
+        reserve.principalStableDebt > BigInt(0),
+    )
+    .map((reserve) => reserveMap.get(reserve.underlyingAsset.toLowerCase()))
+    .filter((reserve) => reserve !== undefined);
+  const priceMap = await fetchReservePrices(priceAssets, chain, fork);
+
+  const normalized = userReserves.map((reserve) => {
+    const asset = reserveMap.get(reserve.underlyingAsset.toLowerCase());
+    if (!asset) {
+      return null;
+    }
+
+    const isScaled = "isScaled" in reserve ? Boolean(reserve.isScaled) : true;
+    const aTokenBalance = isScaled
+      ? applyIndex(reserve.scaledATokenBalance, asset.liquidityIndex)
+      : reserve.scaledATokenBalance;
+    const variableDebt = isScaled
+      ? applyIndex(reserve.scaledVariableDebt, asset.variableBorrowIndex)
+      : reserve.scaledVariableDebt;
+    const stableDebt = reserve.principalStableDebt;
+    const totalDebt = variableDebt + stableDebt;
+
+    const collateralAmount = Number(
+      formatUnits(aTokenBalance, Number(asset.decimals)),
+    );
+    const debtAmount = Number(formatUnits(totalDebt, Number(asset.decimals)));
+
+    const priceInMarketReferenceCurrency =
+      priceMap.get(reserve.underlyingAsset.toLowerCase()) ?? BigInt(0);
+    const usdParams = {
+      decimals: Number(asset.decimals),
+      priceInMarketReferenceCurrency,
+      marketReferenceCurrencyUnit: baseCurrency.marketReferenceCurrencyUnit,
+      marketReferenceCurrencyPriceInUsd:
+        baseCurrency.marketReferenceCurrencyPriceInUsd,
+      priceDecimals: baseCurrency.networkBaseTokenPriceDecimals,
+    };
+
+    const priceInUsd = toUsd({
+      amount: BigInt(10) ** BigInt(asset.decimals),
+      ...usdParams,
+    });
+    const decimals = Number(asset.decimals);
+    // Total fornecido ≈ liquidez + dívida (ignora o acumulado da treasury).
+    // Caps desconhecidos ficam sem `caps` (não é o mesmo que sem cap)
+    const caps =
+      asset.supplyCap === null || asset.borrowCap === null
+        ? undefined
+        : computeReserveCaps({
+            supplyCap: Number(asset.supplyCap),
+            borrowCap: Number(asset.borrowCap),
+            totalSupplied: Number(
+              formatUnits(asset.availableLiquidity + asset.totalDebt, decimals),
+            ),
+            totalBorrowed: Number(formatUnits(asset.totalDebt, decimals)),
+            availableLiquidity: Number(
+              formatUnits(asset.availableLiquidity, decimals),
+            ),
+            priceInUsd,
+          });
+
+    const usageAsCollateralEnabledOnUser = coerceBool(
+      reserve.usageAsCollateralEnabledOnUser,
+    );
+    const liquidationThresholdBps = usageAsCollateralEnabledOnUser
+      ? effectiveLiquidationThresholdBps({
+          asset: reserve.underlyingAsset,
+          reserveLiquidationThresholdBps: Number(
+            asset.reserveLiquidationThreshold,
+          ),
+          eMode,
+        })
+      : 0;
+
+    return {
+      underlyingAsset: reserve.underlyingAsset,
+      symbol: asset.symbol,
+      decimals: Number(asset.decimals),
+      collateralAmount,
+      debtAmount,
+      usageAsCollateralEnabledOnUser,
+      liquidationThresholdBps,
+      inEMode: Boolean(
+        eMode?.collateralAssets.includes(reserve.underlyingAsset.toLowerCase()),
+      ),
+      scaledATokenBalance: reserve.scaledATokenBalance.toString(),
+      scaledVariableDebt: reserve.scaledVariableDebt.toString(),
+      principalStableDebt: reserve.principalStableDebt.toString(),
+      aTokenBalance: aTokenBalance.toString(),
+      variableDebt: variableDebt.toString(),
+      stableDebt: stableDebt.toString(),
+      totalDebt: totalDebt.toString(),
+      collateralUsd: toUsd({ amount: aTokenBalance, ...usdParams }),
+      debtUsd: toUsd({ amount: totalDebt, ...usdParams }),
+      priceInUsd,
+      caps,
+      supplyApr: rayToPercent(asset.liquidityRate),
+      borrowApr: rayToPercent(asset.variableBorrowRate),
+    };
+  });
+
+  return {
+    reserves: normalized.filter((reserve) => reserve !== null),
+    userEmodeCategory: eMode?.id ?? userReservesData.userEmodeCategoryId,
+    eMode,
+    source: reservesData.source,
+  };
+}
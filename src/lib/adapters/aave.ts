@@ -0,0 +1,163 @@
+import { formatUnits } from "viem";
+
+import type { LendingProtocolAdapter } from "@/lib/adapters/types";
+import type { AaveChain } from "@/lib/aave/addresses";
+import { resolveAaveForkChain } from "@/lib/aave/forks";
+import { rayToPercent } from "@/lib/aave/math";
+import {
+  baseToUsd,
+  DEFAULT_BASE_CURRENCY,
+  reservePriceUsd,
+} from "@/lib/aave/normalize";
+import {
+  fetchReservePrices,
+  fetchReservesData,
+  fetchUserAccountData,
+  fetchUserEMode,
+} from "@/lib/aave/queries";
+import { fetchUserReservesSummary } from "@/lib/aave/userReserves";
+import { aprToApy, parseRayToNumber } from "@/lib/calculations";
+import { BORROW_CANDIDATES } from "@/lib/constants";
+import { fetchSubgraphEvents } from "@/lib/history/subgraph";
+import type { AaveFork } from "@/lib/protocols";
+
+/** Aave v3 e forks (Spark): mesmos readers, address set por fork. */
+export function createAaveAdapter(
+  fork: AaveFork,
+): LendingProtocolAdapter<AaveChain, null> {
+  return {
+    protocol: fork,
+
+    resolveTarget(chain) {
+      return { chain: resolveAaveForkChain(fork, chain), market: null };
+    },
+
+    async accountData(address, { chain }) {
+      const [accountData, eMode] = await Promise.all([
+        fetchUserAccountData(address, chain, fork),
+        fetchUserEMode(address, chain, fork),
+      ]);
+      const baseCurrency = DEFAULT_BASE_CURRENCY;
+      const [
+        totalCollateralBase,
+        totalDebtBase,
+        availableBorrowsBase,
+        currentLiquidationThreshold,
+        ltv,
+        healthFactor,
+      ] = accountData;
+
+      const collateralUsd = baseToUsd(totalCollateralBase, baseCurrency);
+      const debtUsd = baseToUsd(totalDebtBase, baseCurrency);
+      const ltBps = Number(currentLiquidationThreshold);
+      // O HF do contrato vem em ray; valores absurdos caem no HF dos totais
+      const hfFromTotals =
+        debtUsd > 0 && ltBps > 0
+          ? (collateralUsd * (ltBps / 10000)) / debtUsd
+          : Infinity;
+      const hfValue = parseRayToNumber(healthFactor);
+      const healthFactorValue =
+        Number.isFinite(hfValue) && hfValue > 0.05 ? hfValue : hfFromTotals;
+
+      return {
+        totalCollateralUsd: collateralUsd,
+        totalDebtUsd: debtUsd,
+        availableBorrowsUsd: baseToUsd(availableBorrowsBase, baseCurrency),
+        currentLiquidationThreshold: ltBps,
+        ltv: Number(ltv),
+        healthFactorValue,
+        details: {
+          totalCollateralBase: totalCollateralBase.toString(),
+          totalDebtBase: totalDebtBase.toString(),
+          availableBorrowsBase: availableBorrowsBase.toString(),
+          healthFactorRay: healthFactor.toString(),
+          userEmodeCategory: eMode?.id ?? 0,
+          eMode,
+          baseCurrency: {
+            marketReferenceCurrencyUnit:
+              baseCurrency.marketReferenceCurrencyUnit.toString(),
+            marketReferenceCurrencyPriceInUsd:
+              baseCurrency.marketReferenceCurrencyPriceInUsd.toString(),
+            networkBaseTokenPriceDecimals:
+              baseCurrency.networkBaseTokenPriceDecimals,
+          },
+        },
+      };
+    },
+
+    async userReserves(address, { chain }) {
+      const { reserves, ...details } = await fetchUserReservesSummary(
+        address,
+        chain,
+        fork,
+      );
+      return { reserves, details };
+    },
+
+    async rates({ chain }, options) {
+      const { reserves, baseCurrency } = await fetchReservesData(chain, fork);
+      const symbols = options?.symbols?.length
+        ? options.symbols
+        : [...BORROW_CANDIDATES];
+      const filtered = reserves.filter((reserve) =>
+        symbols.includes(reserve.symbol.toUpperCase()),
+      );
+      const priceMap = await fetchReservePrices(filtered, chain, fork);
+
+      const candidates = filtered.map((reserve) => {
+        const availableLiquidity =
+          typeof reserve.availableLiquidity === "bigint"
+            ? reserve.availableLiquidity
+            : BigInt(reserve.availableLiquidity ?? 0);
+        const available =
+          reserve.borrowingEnabled &&
+          reserve.isActive &&
+          !reserve.isFrozen &&
+          availableLiquidity > BigInt(0);
+        const priceInMarketReferenceCurrency =
+          priceMap.get(reserve.underlyingAsset.toLowerCase()) ?? BigInt(0);
+        const priceInUsd = reservePriceUsd(
+          { priceInMarketReferenceCurrency, decimals: reserve.decimals },
+          baseCurrency,
+        );
+        const decimals = Number(reserve.decimals);
+        const variableBorrowApr = rayToPercent(reserve.variableBorrowRate);
+        const liquidityApr = rayToPercent(reserve.liquidityRate);
+        // borrowCap vem em unidades inteiras do token (0 = sem cap)
+        const borrowCap = Number(reserve.borrowCap ?? 0);
+        const totalDebt = Number(formatUnits(reserve.totalDebt, decimals));
+        const liquidity = Number(formatUnits(availableLiquidity, decimals));
+
+        return {
+          symbol: reserve.symbol,
+          underlyingAsset: reserve.underlyingAsset,
+          borrowingEnabled: reserve.borrowingEnabled,
+          isActive: reserve.isActive,
+          isFrozen: reserve.isFrozen,
+          availableLiquidity: availableLiquidity.toString(),
+          availableLiquidityUsd: liquidity * priceInUsd,
+          borrowCapHeadroomPct:
+            borrowCap > 0 ? ((borrowCap - totalDebt) / borrowCap) * 100 : null,
+          borrowCapUnknown: reserve.borrowCap === null,
+          available,
+          priceInUsd,
+          variableBorrowApr,
+          liquidityApr,
+          variableBorrowApy: aprToApy(variableBorrowApr),
+          liquidityApy: aprToApy(liquidityApr),
+          utilization:
+            totalDebt + liquidity > 0 ? totalDebt / (totalDebt + liquidity) : 0,
+        };
+      });
+
+      return {
+        candidates,
+        details: {},
+      };
+    },
+
+    events(address, { chain }, range) {
+      return fetchSubgraphEvents({ protocol: fork, chain, address, ...range });
+    },
+  };
+}
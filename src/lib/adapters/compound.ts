@@ -0,0 +1,101 @@
+import { formatUnits } from "viem";
+
+import type { LendingProtocolAdapter } from "@/lib/adapters/types";
+import {
+  CompoundChain,
+  parseCompoundChain,
+  parseCompoundMarket,
+} from "@/lib/compound/chains";
+import {
+  fetchCompoundAccountData,
+  fetchCompoundBaseAsset,
+  fetchCompoundMarketRates,
+  fetchCompoundRewards,
+  fetchCompoundUserReserves,
+} from "@/lib/compound/queries";
+import { fetchSubgraphEvents } from "@/lib/history/subgraph";
+
+export const compoundAdapter: LendingProtocolAdapter<CompoundChain> = {
+  protocol: "compound",
+
+  resolveTarget(chain, market) {
+    const compoundChain = parseCompoundChain(chain) ?? "arbitrum";
+    const parsedMarket = parseCompoundMarket(compoundChain, market);
+    if (market && !parsedMarket) return null;
+    return { chain: compoundChain, market: parsedMarket };
+  },
+
+  async accountData(address, { chain, market }) {
+    const { market: marketInfo, ...accountData } =
+      await fetchCompoundAccountData(address, chain, market);
+    return { ...accountData, details: { market: marketInfo } };
+  },
+
+  async userReserves(address, { chain, market }, options) {
+    const {
+      reserves,
+      baseSymbol,
+      comet,
+      debug: debugInfo,
+    } = await fetchCompoundUserReserves(
+      address,
+      chain,
+      options?.debug ?? false,
+      market,
+    );
+    return {
+      reserves,
+      details: { market: { id: market, baseSymbol, comet }, debug: debugInfo },
+    };
+  },
+
+  async rates({ chain, market }) {
+    const [baseAsset, rates] = await Promise.all([
+      fetchCompoundBaseAsset(chain, market),
+      fetchCompoundMarketRates(chain, market),
+    ]);
+    const available = rates.availableLiquidity > BigInt(0);
+
+    // No Comet só o base asset é emprestável
+    return {
+      candidates: [
+        {
+          symbol: baseAsset.symbol,
+          underlyingAsset: rates.baseToken,
+          borrowingEnabled: true,
+          isActive: true,
+          isFrozen: false,
+          availableLiquidity: rates.availableLiquidity.toString(),
+          availableLiquidityUsd:
+            Number(formatUnits(rates.availableLiquidity, rates.baseDecimals)) *
+            baseAsset.priceInUsd,
+          // O Comet não tem borrow cap
+          borrowCapHeadroomPct: null,
+          available,
+          priceInUsd: baseAsset.priceInUsd,
+          variableBorrowApr: rates.borrowApr,
+          liquidityApr: rates.supplyApr,
+          variableBorrowApy: rates.borrowApy,
+          liquidityApy: rates.supplyApy,
+          utilization: rates.utilization,
+          totalSupply: rates.totalSupply,
+          totalBorrow: rates.totalBorrow,
+        },
+      ],
+      details: { market: { id: market, baseSymbol: baseAsset.symbol } },
+    };
+  },
+
+  rewards(address, { chain, market }) {
+    return fetchCompoundRewards(address, chain, market);
+  },
+
+  events(address, { chain }, range) {
+    return fetchSubgraphEvents({
+      protocol: "compound",
+      chain,
+      address,
+      ...range,
+    });
+  },
+};
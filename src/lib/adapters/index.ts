@@ -0,0 +1,24 @@
+import { createAaveAdapter } from "@/lib/adapters/aave";
+import { compoundAdapter } from "@/lib/adapters/compound";
+import { morphoAdapter } from "@/lib/adapters/morpho";
+import type { LendingProtocolAdapter } from "@/lib/adapters/types";
+import { Protocol } from "@/lib/protocols";
+
+export type {
+  LendingProtocolAdapter,
+  ProtocolAccountData,
+  ProtocolReserve,
+  ProtocolRewards,
+  ProtocolTarget,
+} from "@/lib/adapters/types";
+
+const ADAPTERS: Record<Protocol, LendingProtocolAdapter> = {
+  aave: createAaveAdapter("aave"),
+  spark: createAaveAdapter("spark"),
+  compound: compoundAdapter,
+  morpho: morphoAdapter,
+};
+
+export function getLendingAdapter(protocol: Protocol): LendingProtocolAdapter {
+  return ADAPTERS[protocol];
+}
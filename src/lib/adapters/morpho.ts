@@ -0,0 +1,108 @@
+import { formatUnits } from "viem";
+
+import type { LendingProtocolAdapter } from "@/lib/adapters/types";
+import { aprToApy } from "@/lib/calculations";
+import {
+  MorphoChain,
+  parseMorphoChain,
+  parseMorphoMarketId,
+} from "@/lib/morpho/chains";
+import {
+  fetchMorphoAccountData,
+  fetchMorphoMarket,
+  fetchMorphoUserReserves,
+} from "@/lib/morpho/queries";
+
+/** Morpho Blue: um market isolado por wallet, sem fonte de eventos. */
+export const morphoAdapter: LendingProtocolAdapter<MorphoChain, `0x${string}`> =
+  {
+    protocol: "morpho",
+
+    resolveTarget(chain, market) {
+      const marketId = parseMorphoMarketId(market);
+      if (!marketId) return null;
+      return { chain: parseMorphoChain(chain) ?? "ethereum", market: marketId };
+    },
+
+    async accountData(address, { chain, market }) {
+      const { market: marketInfo, ...accountData } =
+        await fetchMorphoAccountData(address, chain, market);
+      return { ...accountData, details: { market: marketInfo } };
+    },
+
+    async userReserves(address, { chain, market }) {
+      const { reserves, market: marketData } = await fetchMorphoUserReserves(
+        address,
+        chain,
+        market,
+      );
+      return {
+        reserves,
+        details: {
+          market: {
+            id: market,
+            label: marketData.label,
+            loanSymbol: marketData.loanSymbol,
+            collateralSymbol: marketData.collateralSymbol,
+            lltvBps: marketData.lltvBps,
+          },
+        },
+      };
+    },
+
+    async rates({ chain, market }) {
+      const marketData = await fetchMorphoMarket(chain, market);
+      const available = marketData.availableLiquidity > BigInt(0);
+
+      // Num market isolado só o loan token é emprestável
+      return {
+        candidates: [
+          {
+            symbol: marketData.loanSymbol,
+            underlyingAsset: marketData.marketParams.loanToken,
+            borrowingEnabled: true,
+            isActive: true,
+            isFrozen: false,
+            availableLiquidity: marketData.availableLiquidity.toString(),
+            availableLiquidityUsd:
+              Number(
+                formatUnits(
+                  marketData.availableLiquidity,
+                  marketData.loanDecimals,
+                ),
+              ) * marketData.loanPriceUsd,
+            // Markets Morpho Blue não têm borrow cap
+            borrowCapHeadroomPct: null,
+            available,
+            priceInUsd: marketData.loanPriceUsd,
+            variableBorrowApr: marketData.borrowApr,
+            liquidityApr: marketData.supplyApr,
+            variableBorrowApy: aprToApy(marketData.borrowApr),
+            liquidityApy: aprToApy(marketData.supplyApr),
+            utilization: marketData.utilization,
+            totalSupply: Number(
+              formatUnits(
+                marketData.totalSupplyAssets,
+                marketData.loanDecimals,
+              ),
+            ),
+            totalBorrow: Number(
+              formatUnits(
+                marketData.totalBorrowAssets,
+                marketData.loanDecimals,
+              ),
+            ),
+          },
+        ],
+        details: {
+          market: {
+            id: market,
+            label: marketData.label,
+            loanSymbol: marketData.loanSymbol,
+            collateralSymbol: marketData.collateralSymbol,
+            lltvBps: marketData.lltvBps,
+          },
+        },
+      };
+    },
+  };
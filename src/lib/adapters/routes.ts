@@ -0,0 +1,265 @@
+import { NextResponse } from "next/server";
+import { isAddress } from "viem";
+
+import { getLendingAdapter } from "@/lib/adapters";
+import {
+  BORROW_RANKING_WEIGHTS,
+  fetchPriceStats,
+  normalizeCandidateSymbols,
+  rankBorrowCandidates,
+} from "@/lib/borrowRanking";
+import { DEFAULT_HF_MIN } from "@/lib/constants";
+import { computeLiquidationPrices } from "@/lib/liquidation";
+import { projectInterestAccrual } from "@/lib/projection";
+import { withUserRpc } from "@/lib/rpc/userEndpoints";
+import {
+  getProtocolApi,
+  Protocol,
+  ProtocolApi,
+  SUPPORTED_PROTOCOLS,
+} from "@/lib/protocols";
+
+/**
+ * Handlers GET das rotas /api/<família>/... partilhados por todos os
+ * protocolos. A família vem do caminho; forks chegam com ?protocol=. As
+ * leituras usam os RPCs do user autenticado (Settings), se existirem.
+ */
+function resolveRequest(api: ProtocolApi, request: Request) {
+  const { searchParams } = new URL(request.url);
+  const requested = searchParams.get("protocol");
+  const protocol: Protocol =
+    SUPPORTED_PROTOCOLS.find(
+      (item) => item === requested && getProtocolApi(item) === api,
+    ) ?? api;
+  const adapter = getLendingAdapter(protocol);
+  const target = adapter.resolveTarget(
+    searchParams.get("chain"),
+    searchParams.get("market"),
+  );
+  return { searchParams, protocol, adapter, target };
+}
+
+function parseAddressParam(searchParams: URLSearchParams) {
+  const address = searchParams.get("address");
+  return address && isAddress(address) ? address : null;
+}
+
+function parseHfMinParam(searchParams: URLSearchParams) {
+  const hfMin = Number(searchParams.get("hfMin") ?? DEFAULT_HF_MIN);
+  return Number.isFinite(hfMin) && hfMin > 0 ? hfMin : null;
+}
+
+function failure(
+  api: ProtocolApi,
+  route: string,
+  message: string,
+  error: unknown,
+) {
+  console.error(`${api}.${route}`, error);
+  return NextResponse.json(
+    {
+      error: message,
+      detail: error instanceof Error ? error.message : "Unknown error",
+    },
+    { status: 500 },
+  );
+}
+
+export function accountDataHandler(api: ProtocolApi) {
+  return withUserRpc(async function GET(request: Request) {
+    const { searchParams, protocol, adapter, target } = resolveRequest(
+      api,
+      request,
+    );
+    const address = parseAddressParam(searchParams);
+    if (!address) {
+      return NextResponse.json({ error: "Invalid address" }, { status: 400 });
+    }
+    if (!target) {
+      return NextResponse.json({ error: "Invalid market" }, { status: 400 });
+    }
+
+    try {
+      const [{ details, ...accountData }, rewards] = await Promise.all([
+        adapter.accountData(address, target),
+        adapter.rewards
+          ? adapter.rewards(address, target).catch((error) => {
+              console.warn(`${api}.rewards`, error);
+              return null;
+            })
+          : Promise.resolve(undefined),
+      ]);
+
+      return NextResponse.json({
+        ...accountData,
+        ...details,
+        ...(rewards !== undefined ? { rewards } : {}),
+        protocol,
+        chain: target.chain,
+      });
+    } catch (error) {
+      return failure(
+        api,
+        "user-account-data",
+        "Failed to fetch account data",
+        error,
+      );
+    }
+  });
+}
+
+export function userReservesHandler(api: ProtocolApi) {
+  return withUserRpc(async function GET(request: Request) {
+    const { searchParams, protocol, adapter, target } = resolveRequest(
+      api,
+      request,
+    );
+    const address = parseAddressParam(searchParams);
+    if (!address) {
+      return NextResponse.json({ error: "Invalid address" }, { status: 400 });
+    }
+    if (!target) {
+      return NextResponse.json({ error: "Invalid market" }, { status: 400 });
+    }
+
+    try {
+      const { reserves, details } = await adapter.userReserves(
+        address,
+        target,
+        { debug: searchParams.get("debug") === "1" },
+      );
+      return NextResponse.json({
+        reserves,
+        ...details,
+        protocol,
+        chain: target.chain,
+      });
+    } catch (error) {
+      return failure(
+        api,
+        "user-reserves",
+        "Failed to fetch user reserves",
+        error,
+      );
+    }
+  });
+}
+
+export function ratesHandler(api: ProtocolApi) {
+  return withUserRpc(async function GET(request: Request) {
+    const { searchParams, protocol, adapter, target } = resolveRequest(
+      api,
+      request,
+    );
+    if (!target) {
+      return NextResponse.json({ error: "Invalid market" }, { status: 400 });
+    }
+
+    try {
+      const { candidates, details } = await adapter.rates(target, {
+        symbols: normalizeCandidateSymbols(searchParams.get("candidates")),
+      });
+      const priceStats = await fetchPriceStats(
+        candidates.map((candidate) => candidate.symbol),
+      );
+      const ranking = rankBorrowCandidates(candidates, priceStats);
+      return NextResponse.json({
+        candidates: ranking.candidates,
+        recommended: ranking.recommended,
+        rankingWeights: BORROW_RANKING_WEIGHTS,
+        ...details,
+        protocol,
+        chain: target.chain,
+      });
+    } catch (error) {
+      return failure(api, "rates", "Failed to fetch rates", error);
+    }
+  });
+}
+
+export function liquidationPricesHandler(api: ProtocolApi) {
+  return withUserRpc(async function GET(request: Request) {
+    const { searchParams, protocol, adapter, target } = resolveRequest(
+      api,
+      request,
+    );
+    const address = parseAddressParam(searchParams);
+    const hfMin = parseHfMinParam(searchParams);
+    if (!address) {
+      return NextResponse.json({ error: "Invalid address" }, { status: 400 });
+    }
+    if (!target) {
+      return NextResponse.json({ error: "Invalid market" }, { status: 400 });
+    }
+    if (hfMin === null) {
+      return NextResponse.json({ error: "Invalid hfMin" }, { status: 400 });
+    }
+
+    try {
+      const { reserves, details } = await adapter.userReserves(address, target);
+      return NextResponse.json({
+        hfMin,
+        prices: computeLiquidationPrices({ positions: reserves, hfMin }),
+        market: details.market ?? null,
+        protocol,
+        chain: target.chain,
+      });
+    } catch (error) {
+      return failure(
+        api,
+        "liquidation-prices",
+        "Failed to compute liquidation prices",
+        error,
+      );
+    }
+  });
+}
+
+export function projectionHandler(api: ProtocolApi) {
+  return withUserRpc(async function GET(request: Request) {
+    const { searchParams, protocol, adapter, target } = resolveRequest(
+      api,
+      request,
+    );
+    const address = parseAddressParam(searchParams);
+    const hfMin = parseHfMinParam(searchParams);
+    if (!address) {
+      return NextResponse.json({ error: "Invalid address" }, { status: 400 });
+    }
+    if (!target) {
+      return NextResponse.json({ error: "Invalid market" }, { status: 400 });
+    }
+    if (hfMin === null) {
+      return NextResponse.json({ error: "Invalid hfMin" }, { status: 400 });
+    }
+
+    try {
+      const { reserves, details } = await adapter.userReserves(address, target);
+      // Dívida sem taxa daria uma projeção plana, não um resultado
+      if (
+        reserves.some(
+          (reserve) => reserve.debtUsd > 0 && reserve.borrowApr === undefined,
+        )
+      ) {
+        return NextResponse.json(
+          { error: "Interest rates not available for this protocol" },
+          { status: 501 },
+        );
+      }
+      return NextResponse.json({
+        hfMin,
+        ...projectInterestAccrual({ positions: reserves, hfMin }),
+        market: details.market ?? null,
+        protocol,
+        chain: target.chain,
+      });
+    } catch (error) {
+      return failure(
+        api,
+        "projection",
+        "Failed to project interest accrual",
+        error,
+      );
+    }
+  });
+}
@@ -0,0 +1,130 @@
+import type { ReserveCaps } from "@/lib/caps";
+import type { NormalizedEvent } from "@/lib/history/subgraph";
+import type { AccrualPosition } from "@/lib/projection";
+import type { Protocol } from "@/lib/protocols";
+
+/** Chain e market (Comet, market id Morpho) já validados pelo adapter. */
+export type ProtocolTarget<
+  TChain extends string = string,
+  TMarket extends string | null = string | null,
+> = {
+  chain: TChain;
+  market: TMarket;
+};
+
+export type ProtocolAccountData = {
+  totalCollateralUsd: number;
+  totalDebtUsd: number;
+  availableBorrowsUsd: number;
+  /** LT efetivo da conta (bps). */
+  currentLiquidationThreshold: number;
+  /** Dívida / colateral (bps). */
+  ltv: number;
+  healthFactorValue: number;
+  /** Campos próprios do protocolo (e-mode, market, ...) devolvidos pela API. */
+  details: Record<string, unknown>;
+};
+
+export type ProtocolReserve = AccrualPosition & {
+  underlyingAsset?: string;
+  /** Supply/borrow caps da reserve; ausente em protocolos sem caps. */
+  caps?: ReserveCaps;
+};
+
+export type ProtocolUserReserves = {
+  reserves: ProtocolReserve[];
+  details: Record<string, unknown>;
+};
+
+export type BorrowCandidate = {
+  symbol: string;
+  underlyingAsset: string;
+  borrowingEnabled: boolean;
+  isActive: boolean;
+  isFrozen: boolean;
+  availableLiquidity: string;
+  availableLiquidityUsd: number;
+  /** % do borrow cap ainda livre; null quando o protocolo não tem cap. */
+  borrowCapHeadroomPct: number | null;
+  /** Cap não lido (fallback sem getReserveCaps): não conta como sem cap. */
+  borrowCapUnknown?: boolean;
+  available: boolean;
+  priceInUsd: number;
+  variableBorrowApr: number;
+  liquidityApr: number;
+  /** APR capitalizado por segundo (Settings → "Mostrar taxas como"). */
+  variableBorrowApy: number;
+  liquidityApy: number;
+  /** Dívida / (dívida + liquidez), 0-1. */
+  utilization?: number;
+  totalSupply?: number;
+  totalBorrow?: number;
+};
+
+export type ProtocolRates = {
+  /** Sem ordem: o ranking e a recomendação vêm de rankBorrowCandidates. */
+  candidates: BorrowCandidate[];
+  details: Record<string, unknown>;
+};
+
+export type ProtocolRatesOptions = {
+  /** Símbolos a considerar (lista do user); vazio = default do protocolo. */
+  symbols?: string[];
+};
+
+/** Rewards de liquidez (ex: COMP) reclamadas e por reclamar. */
+export type ProtocolRewards = {
+  token: string;
+  symbol: string;
+  priceUsd: number;
+  claimableAmount: number;
+  claimableUsd: number;
+  claimedAmount: number;
+  accruedAmount: number;
+  accruedUsd: number;
+};
+
+export type ProtocolEventsRange = {
+  fromTimestamp: number;
+  maxEvents?: number;
+};
+
+/**
+ * Leitura normalizada de um protocolo de lending. Rotas, cron e histórico só
+ * falam com esta interface; um protocolo novo é um adapter novo.
+ */
+export interface LendingProtocolAdapter<
+  TChain extends string = string,
+  TMarket extends string | null = string | null,
+> {
+  protocol: Protocol;
+  /** null quando o market pedido não existe (ou falta e é obrigatório). */
+  resolveTarget(
+    chain: string | null,
+    market: string | null,
+  ): ProtocolTarget<TChain, TMarket> | null;
+  accountData(
+    address: `0x${string}`,
+    target: ProtocolTarget<TChain, TMarket>,
+  ): Promise<ProtocolAccountData>;
+  userReserves(
+    address: `0x${string}`,
+    target: ProtocolTarget<TChain, TMarket>,
+    options?: { debug?: boolean },
+  ): Promise<ProtocolUserReserves>;
+  rates(
+    target: ProtocolTarget<TChain, TMarket>,
+    options?: ProtocolRatesOptions,
+  ): Promise<ProtocolRates>;
+  /** Rewards acumuladas (ex: COMP); ausente se o protocolo não as tem. */
+  rewards?(
+    address: `0x${string}`,
+    target: ProtocolTarget<TChain, TMarket>,
+  ): Promise<ProtocolRewards | null>;
+  /** Eventos on-chain para o histórico; ausente sem fonte de eventos. */
+  events?(
+    address: string,
+    target: ProtocolTarget<TChain, TMarket>,
+    range: ProtocolEventsRange,
+  ): Promise<NormalizedEvent[]>;
+}
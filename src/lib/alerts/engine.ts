@@ -0,0 +1,126 @@
+export type AlertStatus = "OK" | "Acima do alvo" | "Risco" | "Crítico";
+
+/** Porque é que um alerta é enviado. */
+export type AlertKind = "triggered" | "escalated" | "reminder" | "resolved";
+
+/** Estado persistido por wallet (tabela `wallet_alert_state`). */
+export type WalletAlertState = {
+  wallet_id: string;
+  user_id: string;
+  status: AlertStatus;
+  hf: number | null;
+  /** Quando o HF foi lido (base de hfDropPerHour nas regras). */
+  hf_at: string | null;
+  status_since: string;
+  last_notified_at: string | null;
+  last_notified_status: AlertStatus | null;
+  acknowledged_at: string | null;
+  updated_at: string;
+};
+
+export type AlertDecision = {
+  kind: AlertKind | null;
+  /** Estado a gravar; sempre escrito para guardar o último HF lido. */
+  next: WalletAlertState;
+};
+
+const SEVERITY: Record<AlertStatus, number> = {
+  OK: 0,
+  "Acima do alvo": 1,
+  Risco: 2,
+  Crítico: 3,
+};
+
+const MINUTE_MS = 60_000;
+
+function envMinutes(name: string, fallback: number) {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+/** Intervalo mínimo entre lembretes do mesmo estado (ALERTS_COOLDOWN_*_MIN). */
+export const ALERT_COOLDOWNS_MS: Record<Exclude<AlertStatus, "OK">, number> = {
+  Crítico: envMinutes("ALERTS_COOLDOWN_CRITICO_MIN", 60) * MINUTE_MS,
+  Risco: envMinutes("ALERTS_COOLDOWN_RISCO_MIN", 6 * 60) * MINUTE_MS,
+  "Acima do alvo": envMinutes("ALERTS_COOLDOWN_ACIMA_MIN", 24 * 60) * MINUTE_MS,
+};
+
+export function isEscalation(from: AlertStatus, to: AlertStatus) {
+  return from !== "OK" && SEVERITY[to] > SEVERITY[from];
+}
+
+/**
+ * Decide se o novo estado de uma wallet gera notificação:
+ * - OK → não-OK: "triggered";
+ * - subida de severidade (ex.: Risco → Crítico): "escalated", mesmo em
+ *   cooldown ou reconhecido;
+ * - mesmo estado: "reminder" depois do cooldown, se não foi reconhecido;
+ * - volta a OK depois de ter sido notificado: "resolved".
+ * Descer de severidade sem chegar a OK só atualiza o estado. Qualquer mudança
+ * de estado limpa o reconhecimento.
+ */
+export function decideAlert(params: {
+  previous: WalletAlertState | null;
+  walletId: string;
+  userId: string;
+  status: AlertStatus;
+  hf: number | null;
+  now: Date;
+}): AlertDecision {
+  const { previous, status, now } = params;
+  const nowIso = now.toISOString();
+  const previousStatus = previous?.status ?? "OK";
+  const changed = previousStatus !== status;
+
+  const base: WalletAlertState = {
+    wallet_id: params.walletId,
+    user_id: params.userId,
+    status,
+    hf: params.hf,
+    hf_at: nowIso,
+    status_since: changed || !previous ? nowIso : previous.status_since,
+    last_notified_at: previous?.last_notified_at ?? null,
+    last_notified_status: previous?.last_notified_status ?? null,
+    acknowledged_at: changed ? null : (previous?.acknowledged_at ?? null),
+    updated_at: nowIso,
+  };
+  const notify = (kind: AlertKind): AlertDecision => ({
+    kind,
+    next: {
+      ...base,
+      last_notified_at: nowIso,
+      last_notified_status: status,
+    },
+  });
+
+  if (status === "OK") {
+    if (!changed) return { kind: null, next: base };
+    // Só há "resolvido" se o problema chegou a ser notificado
+    return previous?.last_notified_status
+      ? {
+          kind: "resolved",
+          next: {
+            ...base,
+            last_notified_at: nowIso,
+            last_notified_status: null,
+          },
+        }
+      : { kind: null, next: base };
+  }
+
+  if (previousStatus === "OK") return notify("triggered");
+  if (isEscalation(previousStatus, status)) return notify("escalated");
+  if (changed) return { kind: null, next: base };
+
+  const lastNotifiedMs = previous?.last_notified_at
+    ? Date.parse(previous.last_notified_at)
+    : 0;
+  if (
+    !previous?.acknowledged_at &&
+    now.getTime() - lastNotifiedMs >= ALERT_COOLDOWNS_MS[status]
+  ) {
+    return notify("reminder");
+  }
+  // Mesmo estado, sem notificação: só o HF muda
+  return { kind: null, next: base };
+}
@@ -0,0 +1,386 @@
+/**
+ * Expressões das regras de alerta, ex.:
+ *   hf < 1.5 and debtUsd > 10000
+ *   price("WETH") < 2000 or borrowApr("USDC") > 8
+ *   hfDropPerHour > 0.05
+ * Números, variáveis, funções com um símbolo, + - * /, comparações,
+ * and/or/not (ou && || !) e parênteses. Lógica de três valores: um valor em
+ * falta (null) deixa a comparação indefinida (null), `not` de null é null e
+ * and/or só ficam indefinidos quando o outro lado não decide (`x or true` é
+ * true, `x and false` é false).
+ */
+
+export const RULE_VARIABLES = {
+  hf: "Health factor atual",
+  hfMin: "HF mínimo da wallet",
+  hfMax: "HF máximo da wallet",
+  collateralUsd: "Colateral total (USD)",
+  debtUsd: "Dívida total (USD)",
+  hfDropPerHour: "Queda do HF por hora desde o último poll",
+} as const;
+
+export const RULE_FUNCTIONS = {
+  price: "Preço do asset em USD",
+  borrowApr: "APR variável de borrow (%)",
+  supplyApr: "APR de supply (%)",
+  utilization: "Utilização da reserve (%)",
+} as const;
+
+export type RuleVariable = keyof typeof RULE_VARIABLES;
+export type RuleFunction = keyof typeof RULE_FUNCTIONS;
+
+type ComparisonOp = "<" | "<=" | ">" | ">=" | "==" | "!=";
+type ArithmeticOp = "+" | "-" | "*" | "/";
+
+export type RuleNode =
+  | { type: "number"; value: number }
+  | { type: "variable"; name: RuleVariable }
+  | { type: "call"; name: RuleFunction; symbol: string }
+  | { type: "negate"; operand: RuleNode }
+  | { type: "not"; operand: RuleNode }
+  | { type: "arithmetic"; op: ArithmeticOp; left: RuleNode; right: RuleNode }
+  | { type: "compare"; op: ComparisonOp; left: RuleNode; right: RuleNode }
+  | { type: "logical"; op: "and" | "or"; left: RuleNode; right: RuleNode };
+
+/** Valores disponíveis para avaliar uma regra; null = sem dados. */
+export type RuleContext = {
+  variables: Record<RuleVariable, number | null>;
+  /** Por função e símbolo (maiúsculas). */
+  assets: Record<RuleFunction, Record<string, number>>;
+};
+
+export type ParsedRule = {
+  ast: RuleNode;
+  /** Símbolos pedidos por cada função (para só ler o que a regra usa). */
+  symbols: Record<RuleFunction, string[]>;
+  variables: RuleVariable[];
+};
+
+const MAX_EXPRESSION_LENGTH = 500;
+
+type Token =
+  | { kind: "number"; value: number }
+  | { kind: "identifier"; value: string }
+  | { kind: "string"; value: string }
+  | { kind: "operator"; value: string };
+
+const OPERATORS = [
+  "<=",
+  ">=",
+  "==",
+  "!=",
+  "&&",
+  "||",
+  "<",
+  ">",
+  "+",
+  "-",
+  "*",
+  "/",
+  "(",
+  ")",
+  "!",
+  ",",
+];
+
+function tokenize(source: string) {
+  const tokens: Token[] = [];
+  let index = 0;
+  while (index < source.length) {
+    const rest = source.slice(index);
+    const space = rest.match(/^\s+/);
+    if (space) {
+      index += space[0].length;
+      continue;
+    }
+    const number = rest.match(/^(\d+(\.\d+)?|\.\d+)/);
+    if (number) {
+      tokens.push({ kind: "number", value: Number(number[0]) });
+      index += number[0].length;
+      continue;
+    }
+    const identifier = rest.match(/^[A-Za-z_][A-Za-z0-9_]*/);
+    if (identifier) {
+      tokens.push({ kind: "identifier", value: identifier[0] });
+      index += identifier[0].length;
+      continue;
+    }
+    const string = rest.match(/^"([^"]*)"|^'([^']*)'/);
+    if (string) {
+      tokens.push({ kind: "string", value: string[1] ?? string[2] });
+      index += string[0].length;
+      continue;
+    }
+    const operator = OPERATORS.find((op) => rest.startsWith(op));
+    if (!operator) {
+      throw new Error(
+        `Caractere inesperado "${rest[0]}" na posição ${index + 1}.`,
+      );
+    }
+    tokens.push({ kind: "operator", value: operator });
+    index += operator.length;
+  }
+  return tokens;
+}
+
+// Parser descendente: or > and > not > comparação > soma > produto > unário
+function parseTokens(tokens: Token[]) {
+  let position = 0;
+  const peek = () => tokens[position];
+  const isOperator = (...values: string[]) => {
+    const token = peek();
+    return token?.kind === "operator" && values.includes(token.value);
+  };
+  const isKeyword = (value: string) => {
+    const token = peek();
+    return token?.kind === "identifier" && token.value.toLowerCase() === value;
+  };
+  const expectOperator = (value: string) => {
+    if (!isOperator(value)) throw new Error(`Falta "${value}".`);
+    position += 1;
+  };
+
+  const parseOr = (): RuleNode => {
+    let left = parseAnd();
+    while (isOperator("||") || isKeyword("or")) {
+      position += 1;
+      left = { type: "logical", op: "or", left, right: parseAnd() };
+    }
+    return left;
+  };
+  const parseAnd = (): RuleNode => {
+    let left = parseNot();
+    while (isOperator("&&") || isKeyword("and")) {
+      position += 1;
+      left = { type: "logical", op: "and", left, right: parseNot() };
+    }
+    return left;
+  };
+  const parseNot = (): RuleNode => {
+    if (isOperator("!") || isKeyword("not")) {
+      position += 1;
+      return { type: "not", operand: parseNot() };
+    }
+    return parseComparison();
+  };
+  const parseComparison = (): RuleNode => {
+    const left = parseSum();
+    const token = peek();
+    if (isOperator("<", "<=", ">", ">=", "==", "!=") && token) {
+      position += 1;
+      return {
+        type: "compare",
+        op: token.value as ComparisonOp,
+        left,
+        right: parseSum(),
+      };
+    }
+    return left;
+  };
+  const parseSum = (): RuleNode => {
+    let left = parseProduct();
+    while (isOperator("+", "-")) {
+      const op = tokens[position].value as ArithmeticOp;
+      position += 1;
+      left = { type: "arithmetic", op, left, right: parseProduct() };
+    }
+    return left;
+  };
+  const parseProduct = (): RuleNode => {
+    let left = parseUnary();
+    while (isOperator("*", "/")) {
+      const op = tokens[position].value as ArithmeticOp;
+      position += 1;
+      left = { type: "arithmetic", op, left, right: parseUnary() };
+    }
+    return left;
+  };
+  const parseUnary = (): RuleNode => {
+    if (isOperator("-")) {
+      position += 1;
+      return { type: "negate", operand: parseUnary() };
+    }
+    return parsePrimary();
+  };
+  const parsePrimary = (): RuleNode => {
+    const token = peek();
+    if (!token) throw new Error("Expressão incompleta.");
+    position += 1;
+    if (token.kind === "number") return { type: "number", value: token.value };
+    if (token.kind === "operator" && token.value === "(") {
+      const inner = parseOr();
+      expectOperator(")");
+      return inner;
+    }
+    if (token.kind === "identifier") {
+      if (isOperator("(")) {
+        if (!Object.hasOwn(RULE_FUNCTIONS, token.value)) {
+          throw new Error(`Função desconhecida "${token.value}".`);
+        }
+        position += 1;
+        const argument = peek();
+        if (argument?.kind !== "string" || !argument.value.trim()) {
+          throw new Error(
+            `${token.value}() espera um símbolo, ex.: ${token.value}("WETH").`,
+          );
+        }
+        position += 1;
+        expectOperator(")");
+        return {
+          type: "call",
+          name: token.value as RuleFunction,
+          symbol: argument.value.trim().toUpperCase(),
+        };
+      }
+      if (!Object.hasOwn(RULE_VARIABLES, token.value)) {
+        throw new Error(`Variável desconhecida "${token.value}".`);
+      }
+      return { type: "variable", name: token.value as RuleVariable };
+    }
+    throw new Error(`Token inesperado "${token.value}".`);
+  };
+
+  const ast = parseOr();
+  if (position < tokens.length) {
+    throw new Error(`Token inesperado "${tokens[position].value}".`);
+  }
+  return ast;
+}
+
+// Garante que a expressão final é uma condição (e que não se soma booleanos)
+function checkTypes(node: RuleNode): "number" | "boolean" {
+  const expect = (child: RuleNode, kind: "number" | "boolean") => {
+    if (checkTypes(child) !== kind) {
+      throw new Error(
+        kind === "number"
+          ? "Operação aritmética ou comparação com uma condição."
+          : "and/or/not precisam de condições (ex.: hf < 1.5).",
+      );
+    }
+  };
+  switch (node.type) {
+    case "number":
+    case "variable":
+    case "call":
+      return "number";
+    case "negate":
+      expect(node.operand, "number");
+      return "number";
+    case "arithmetic":
+      expect(node.left, "number");
+      expect(node.right, "number");
+      return "number";
+    case "compare":
+      expect(node.left, "number");
+      expect(node.right, "number");
+      return "boolean";
+    case "not":
+      expect(node.operand, "boolean");
+      return "boolean";
+    case "logical":
+      expect(node.left, "boolean");
+      expect(node.right, "boolean");
+      return "boolean";
+  }
+}
+
+function collect(node: RuleNode, parsed: Omit<ParsedRule, "ast">) {
+  if (node.type === "variable" && !parsed.variables.includes(node.name)) {
+    parsed.variables.push(node.name);
+  }
+  if (
+    node.type === "call" &&
+    !parsed.symbols[node.name].includes(node.symbol)
+  ) {
+    parsed.symbols[node.name].push(node.symbol);
+  }
+  if ("operand" in node) collect(node.operand, parsed);
+  if ("left" in node) {
+    collect(node.left, parsed);
+    collect(node.right, parsed);
+  }
+}
+
+/** Valida e compila uma expressão; devolve a AST ou a mensagem de erro. */
+export function parseRuleExpression(
+  source: string,
+): ParsedRule | { error: string } {
+  const trimmed = source.trim();
+  if (!trimmed) return { error: "Expressão vazia." };
+  if (trimmed.length > MAX_EXPRESSION_LENGTH) {
+    return { error: `Máximo de ${MAX_EXPRESSION_LENGTH} caracteres.` };
+  }
+  try {
+    const ast = parseTokens(tokenize(trimmed));
+    if (checkTypes(ast) !== "boolean") {
+      return { error: "A expressão tem de ser uma condição (ex.: hf < 1.5)." };
+    }
+    const parsed: ParsedRule = {
+      ast,
+      symbols: { price: [], borrowApr: [], supplyApr: [], utilization: [] },
+      variables: [],
+    };
+    collect(ast, parsed);
+    return parsed;
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+function evaluateNode(
+  node: RuleNode,
+  context: RuleContext,
+): number | boolean | null {
+  switch (node.type) {
+    case "number":
+      return node.value;
+    case "variable":
+      return context.variables[node.name];
+    case "call":
+      return context.assets[node.name][node.symbol] ?? null;
+    case "negate": {
+      const value = evaluateNode(node.operand, context);
+      return typeof value === "number" ? -value : null;
+    }
+    case "arithmetic": {
+      const left = evaluateNode(node.left, context);
+      const right = evaluateNode(node.right, context);
+      if (typeof left !== "number" || typeof right !== "number") return null;
+      if (node.op === "+") return left + right;
+      if (node.op === "-") return left - right;
+      if (node.op === "*") return left * right;
+      return right === 0 ? null : left / right;
+    }
+    case "compare": {
+      const left = evaluateNode(node.left, context);
+      const right = evaluateNode(node.right, context);
+      if (typeof left !== "number" || typeof right !== "number") return null;
+      if (node.op === "<") return left < right;
+      if (node.op === "<=") return left <= right;
+      if (node.op === ">") return left > right;
+      if (node.op === ">=") return left >= right;
+      if (node.op === "==") return left === right;
+      return left !== right;
+    }
+    case "not": {
+      const value = evaluateNode(node.operand, context);
+      return typeof value === "boolean" ? !value : null;
+    }
+    case "logical": {
+      // Lógica de três valores: null (dados em falta) só decide se o outro
+      // lado não chegar (false em "and", true em "or")
+      const left = evaluateNode(node.left, context);
+      const right = evaluateNode(node.right, context);
+      const decisive = node.op === "and" ? false : true;
+      if (left === decisive || right === decisive) return decisive;
+      if (typeof left !== "boolean" || typeof right !== "boolean") return null;
+      return !decisive;
+    }
+  }
+}
+
+/** true/false, ou null quando faltam dados para decidir. */
+export function evaluateRule(ast: RuleNode, context: RuleContext) {
+  const value = evaluateNode(ast, context);
+  return typeof value === "boolean" ? value : null;
+}
@@ -0,0 +1,146 @@
+import type {
+  LendingProtocolAdapter,
+  ProtocolAccountData,
+  ProtocolTarget,
+} from "@/lib/adapters/types";
+import type { WalletAlertState } from "@/lib/alerts/engine";
+import type {
+  ParsedRule,
+  RuleContext,
+  RuleFunction,
+} from "@/lib/alerts/expression";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** Linha de `wallet_alert_rules`. */
+export type WalletAlertRule = {
+  id: string;
+  wallet_id: string;
+  user_id: string;
+  name: string;
+  expression: string;
+  enabled: boolean;
+  active: boolean;
+  active_since: string | null;
+  last_notified_at: string | null;
+};
+
+export type RuleStateUpdate = Pick<
+  WalletAlertRule,
+  "id" | "active" | "active_since" | "last_notified_at"
+>;
+
+/**
+ * Uma regra notifica quando a condição passa a verdadeira ("triggered") e
+ * quando deixa de o ser ("resolved"); enquanto se mantém, fica calada e não
+ * há nada a gravar. Sem resultado (null, dados em falta) o estado não muda.
+ */
+export function decideRule(
+  rule: WalletAlertRule,
+  matched: boolean | null,
+  now: Date,
+): { kind: "triggered" | "resolved"; update: RuleStateUpdate } | null {
+  if (matched === null || matched === rule.active) return null;
+  const nowIso = now.toISOString();
+  return {
+    kind: matched ? "triggered" : "resolved",
+    update: {
+      id: rule.id,
+      active: matched,
+      active_since: matched ? nowIso : null,
+      last_notified_at: nowIso,
+    },
+  };
+}
+
+/**
+ * Valores usados pelas regras de uma wallet. Preços, taxas e utilização só
+ * são lidos para os símbolos que as regras pedem; falhas ficam a null.
+ */
+export async function buildRuleContext(params: {
+  adapter: LendingProtocolAdapter;
+  address: `0x${string}`;
+  target: ProtocolTarget;
+  account: ProtocolAccountData;
+  hfMin: number;
+  hfMax: number;
+  previous: WalletAlertState | null;
+  now: Date;
+  rules: ParsedRule[];
+}): Promise<RuleContext> {
+  const { account, previous } = params;
+  const hf = account.healthFactorValue;
+  const hours = previous?.hf_at
+    ? (params.now.getTime() - Date.parse(previous.hf_at)) / HOUR_MS
+    : 0;
+  const hfDropPerHour =
+    previous?.hf != null && Number.isFinite(hf) && hours > 0
+      ? (previous.hf - hf) / hours
+      : null;
+
+  const context: RuleContext = {
+    variables: {
+      hf,
+      hfMin: params.hfMin,
+      hfMax: params.hfMax,
+      collateralUsd: account.totalCollateralUsd,
+      debtUsd: account.totalDebtUsd,
+      hfDropPerHour,
+    },
+    assets: { price: {}, borrowApr: {}, supplyApr: {}, utilization: {} },
+  };
+
+  const wanted = (name: RuleFunction) =>
+    new Set(params.rules.flatMap((rule) => rule.symbols[name]));
+  const priceSymbols = wanted("price");
+  const rateSymbols = new Set([
+    ...wanted("borrowApr"),
+    ...wanted("supplyApr"),
+    ...wanted("utilization"),
+  ]);
+
+  if (priceSymbols.size) {
+    try {
+      const { reserves } = await params.adapter.userReserves(
+        params.address,
+        params.target,
+      );
+      reserves.forEach((reserve) => {
+        if (reserve.priceInUsd > 0) {
+          context.assets.price[reserve.symbol.toUpperCase()] =
+            reserve.priceInUsd;
+        }
+      });
+    } catch (error) {
+      console.warn("alerts.rules.reserves", params.address, error);
+    }
+  }
+
+  // Preços de assets fora das posições vêm das reserves do market
+  const missingPrices = Array.from(priceSymbols).filter(
+    (symbol) => context.assets.price[symbol] === undefined,
+  );
+  const marketSymbols = Array.from(new Set([...rateSymbols, ...missingPrices]));
+  if (marketSymbols.length) {
+    try {
+      const { candidates } = await params.adapter.rates(params.target, {
+        symbols: marketSymbols,
+      });
+      candidates.forEach((candidate) => {
+        const symbol = candidate.symbol.toUpperCase();
+        if (candidate.priceInUsd > 0) {
+          context.assets.price[symbol] ??= candidate.priceInUsd;
+        }
+        context.assets.borrowApr[symbol] = candidate.variableBorrowApr;
+        context.assets.supplyApr[symbol] = candidate.liquidityApr;
+        if (candidate.utilization !== undefined) {
+          context.assets.utilization[symbol] = candidate.utilization * 100;
+        }
+      });
+    } catch (error) {
+      console.warn("alerts.rules.rates", params.address, error);
+    }
+  }
+
+  return context;
+}
@@ -0,0 +1,30 @@
+import type { AlertKind, AlertStatus } from "@/lib/alerts/engine";
+import type { getTargetedRecommendations } from "@/lib/calculations";
+import type { CapWarning } from "@/lib/caps";
+import type { Protocol } from "@/lib/protocols";
+
+/** Alerta devolvido pelo cron e enviado pelos canais de notificação. */
+export type AlertItem = {
+  walletId: string;
+  userId: string;
+  address: string;
+  name: string;
+  chain: string;
+  protocol: Protocol;
+  market: string | null;
+  status: AlertStatus;
+  /** Transição que gerou o alerta (ver decideAlert). */
+  kind: AlertKind;
+  previousStatus: AlertStatus;
+  hf: number;
+  hfMin: number;
+  hfMax: number;
+  collateralUsd: number;
+  debtUsd: number;
+  liquidationThresholdBps: number;
+  recommendations: ReturnType<typeof getTargetedRecommendations>;
+  /** Ações recomendadas que não cabem nos supply/borrow caps. */
+  capWarnings: CapWarning[];
+  /** Presente quando o alerta vem de uma regra do user e não do intervalo de HF. */
+  rule?: { id: string; name: string; expression: string };
+};
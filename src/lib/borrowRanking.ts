@@ -0,0 +1,262 @@
+import type { BorrowCandidate } from "@/lib/adapters/types";
+import { withCache } from "@/lib/cache";
+import { formatNumber, formatUsd } from "@/lib/format";
+import { fetchCoinPriceSeriesUsd } from "@/lib/history/prices";
+import { getCoinGeckoId } from "@/lib/history/stress";
+
+/** Peso de cada fator no score (soma 1). */
+export const BORROW_RANKING_WEIGHTS = {
+  borrowApr: 0.35,
+  liquidity: 0.2,
+  capHeadroom: 0.15,
+  drawdown: 0.15,
+  volatility: 0.15,
+} as const;
+
+export const PRICE_STATS_WINDOW_DAYS = 30;
+
+const PRICE_STATS_TTL = 60 * 60 * 1000;
+const MAX_CANDIDATE_SYMBOLS = 20;
+const HOURS_PER_YEAR = 24 * 365;
+
+export type PriceStats = {
+  /** Variação desde o máximo da janela (%, ≤ 0). */
+  drawdownPct: number;
+  /** Volatilidade anualizada dos retornos horários (%). */
+  volatilityPct: number;
+};
+
+export type BorrowRankingFactors = {
+  borrowApr: number;
+  availableLiquidityUsd: number;
+  /** % do borrow cap ainda livre; null sem cap. */
+  borrowCapHeadroomPct: number | null;
+  /** Cap não lido: o fator sai da média ponderada. */
+  borrowCapUnknown: boolean;
+  drawdownPct: number | null;
+  volatilityPct: number | null;
+};
+
+export type RankedBorrowCandidate<T extends BorrowCandidate = BorrowCandidate> =
+  T & {
+    /** 1 = melhor; null quando o asset não pode ser emprestado. */
+    rank: number | null;
+    /** 0-100. */
+    score: number | null;
+    factors: BorrowRankingFactors;
+    rationale: string[];
+  };
+
+type FactorKey = keyof typeof BORROW_RANKING_WEIGHTS;
+
+/**
+ * Símbolos da lista de candidatos (Settings ou ?candidates=) em maiúsculas,
+ * sem duplicados. Lista vazia = usar o default do protocolo.
+ */
+export function normalizeCandidateSymbols(value: unknown): string[] {
+  const items = Array.isArray(value)
+    ? value
+    : typeof value === "string"
+      ? value.split(",")
+      : [];
+  const symbols = items
+    .filter((item): item is string => typeof item === "string")
+    .map((item) => item.trim().toUpperCase())
+    .filter((item) => /^[A-Z0-9.]{1,16}$/.test(item));
+  return Array.from(new Set(symbols)).slice(0, MAX_CANDIDATE_SYMBOLS);
+}
+
+export function computePriceStats(
+  series: Array<[number, number]>,
+): PriceStats | null {
+  const prices = series.map(([, price]) => price).filter((price) => price > 0);
+  if (prices.length < 2) return null;
+
+  const peak = Math.max(...prices);
+  const last = prices[prices.length - 1];
+  const returns = prices
+    .slice(1)
+    .map((price, index) => Math.log(price / prices[index]));
+  const mean = returns.reduce((acc, value) => acc + value, 0) / returns.length;
+  const variance =
+    returns.reduce((acc, value) => acc + (value - mean) ** 2, 0) /
+    returns.length;
+
+  return {
+    drawdownPct: (last / peak - 1) * 100,
+    volatilityPct: Math.sqrt(variance * HOURS_PER_YEAR) * 100,
+  };
+}
+
+/** Drawdown e volatilidade dos últimos 30 dias (CoinGecko), por símbolo. */
+export async function fetchPriceStats(symbols: string[]) {
+  const nowSec = Math.floor(Date.now() / 1000);
+  const entries = await Promise.all(
+    symbols.map(async (symbol) => {
+      const coinId = getCoinGeckoId(symbol);
+      if (!coinId) return [symbol, null] as const;
+      try {
+        const stats = await withCache(
+          `price-stats:${coinId}:${PRICE_STATS_WINDOW_DAYS}`,
+          PRICE_STATS_TTL,
+          async () =>
+            computePriceStats(
+              await fetchCoinPriceSeriesUsd({
+                coinId,
+                fromSec: nowSec - PRICE_STATS_WINDOW_DAYS * 24 * 60 * 60,
+                toSec: nowSec,
+              }),
+            ),
+          { cacheIf: (value) => value !== null },
+        );
+        return [symbol, stats] as const;
+      } catch (error) {
+        console.warn("borrow-ranking.prices", symbol, error);
+        return [symbol, null] as const;
+      }
+    }),
+  );
+  return Object.fromEntries(entries) as Record<string, PriceStats | null>;
+}
+
+function unavailableReason(candidate: BorrowCandidate) {
+  if (!candidate.isActive) return "reserve inativa";
+  if (candidate.isFrozen) return "reserve congelada";
+  if (!candidate.borrowingEnabled) return "borrowing desativado";
+  if (
+    candidate.borrowCapHeadroomPct !== null &&
+    candidate.borrowCapHeadroomPct <= 0
+  ) {
+    return "borrow cap atingido";
+  }
+  if (!candidate.available) return "sem liquidez disponível";
+  return null;
+}
+
+// 0-1 entre o pior e o melhor candidato; 1 quando todos empatam
+function normalize(value: number, values: number[], higherIsBetter: boolean) {
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  if (max - min < 1e-9) return 1;
+  const position = (value - min) / (max - min);
+  return higherIsBetter ? position : 1 - position;
+}
+
+/**
+ * Ordena candidatos para a estratégia de short via borrow: APR baixo,
+ * liquidez e folga no borrow cap altas, drawdown recente (tendência de
+ * queda) e volatilidade baixa (menos risco de squeeze no HF). Cada fator é
+ * normalizado entre os candidatos disponíveis; fatores sem dados saem da
+ * média ponderada.
+ */
+export function rankBorrowCandidates<T extends BorrowCandidate>(
+  candidates: T[],
+  priceStats: Record<string, PriceStats | null>,
+) {
+  const withFactors = candidates.map((candidate) => {
+    const stats = priceStats[candidate.symbol] ?? null;
+    const factors: BorrowRankingFactors = {
+      borrowApr: candidate.variableBorrowApr,
+      availableLiquidityUsd: candidate.availableLiquidityUsd,
+      borrowCapHeadroomPct: candidate.borrowCapHeadroomPct,
+      borrowCapUnknown: candidate.borrowCapUnknown ?? false,
+      drawdownPct: stats?.drawdownPct ?? null,
+      volatilityPct: stats?.volatilityPct ?? null,
+    };
+    return { candidate, factors, blocked: unavailableReason(candidate) };
+  });
+
+  const eligible = withFactors.filter((item) => !item.blocked);
+  const factorValues: Record<
+    FactorKey,
+    (factors: BorrowRankingFactors) => number | null
+  > = {
+    borrowApr: (factors) => factors.borrowApr,
+    // Escala log: $1M vs $10M pesa o mesmo que $10M vs $100M
+    liquidity: (factors) => Math.log10(1 + factors.availableLiquidityUsd),
+    // Sem cap conta como folga total; cap desconhecido não conta
+    capHeadroom: (factors) =>
+      factors.borrowCapUnknown ? null : (factors.borrowCapHeadroomPct ?? 100),
+    drawdown: (factors) => factors.drawdownPct,
+    volatility: (factors) => factors.volatilityPct,
+  };
+  const higherIsBetter: Record<FactorKey, boolean> = {
+    borrowApr: false,
+    liquidity: true,
+    capHeadroom: true,
+    drawdown: false,
+    volatility: false,
+  };
+  const pools = Object.fromEntries(
+    (Object.keys(factorValues) as FactorKey[]).map((key) => [
+      key,
+      eligible
+        .map((item) => factorValues[key](item.factors))
+        .filter((value): value is number => value !== null),
+    ]),
+  ) as Record<FactorKey, number[]>;
+
+  const scored = withFactors.map(({ candidate, factors, blocked }) => {
+    const rationale: string[] = [
+      `Borrow APR ${formatNumber(factors.borrowApr, 2)}%`,
+      `Liquidez disponível ${formatUsd(factors.availableLiquidityUsd)}`,
+      factors.borrowCapUnknown
+        ? "Borrow cap desconhecido"
+        : factors.borrowCapHeadroomPct === null
+          ? "Sem borrow cap"
+          : `Borrow cap ${formatNumber(Math.max(0, factors.borrowCapHeadroomPct), 1)}% livre`,
+      factors.drawdownPct === null
+        ? "Sem histórico de preço (drawdown e volatilidade ignorados)"
+        : `Drawdown ${PRICE_STATS_WINDOW_DAYS}d ${formatNumber(factors.drawdownPct, 1)}%`,
+    ];
+    if (factors.volatilityPct !== null) {
+      rationale.push(
+        `Volatilidade ${PRICE_STATS_WINDOW_DAYS}d ${formatNumber(factors.volatilityPct, 0)}% anualizada`,
+      );
+    }
+    if (blocked) {
+      return {
+        ...candidate,
+        rank: null,
+        score: null,
+        factors,
+        rationale: [`Indisponível: ${blocked}`, ...rationale],
+      };
+    }
+
+    let weighted = 0;
+    let totalWeight = 0;
+    (Object.keys(factorValues) as FactorKey[]).forEach((key) => {
+      const value = factorValues[key](factors);
+      if (value === null) return;
+      weighted +=
+        BORROW_RANKING_WEIGHTS[key] *
+        normalize(value, pools[key], higherIsBetter[key]);
+      totalWeight += BORROW_RANKING_WEIGHTS[key];
+    });
+    return {
+      ...candidate,
+      rank: null,
+      score: totalWeight > 0 ? (weighted / totalWeight) * 100 : null,
+      factors,
+      rationale,
+    };
+  });
+
+  const ranked = scored
+    .sort(
+      (a, b) =>
+        (b.score ?? -1) - (a.score ?? -1) ||
+        a.variableBorrowApr - b.variableBorrowApr,
+    )
+    .map((candidate, index) => ({
+      ...candidate,
+      rank: candidate.score === null ? null : index + 1,
+    })) as RankedBorrowCandidate<T>[];
+
+  return {
+    candidates: ranked,
+    recommended:
+      ranked.find((candidate) => candidate.rank === 1)?.symbol ?? null,
+  };
+}
@@ -1,22 +0,0 @@
-type CacheEntry<T> = {
-  expiresAt: number;
-  value: T;
-};
-
-const cache = new Map<string, CacheEntry<unknown>>();
-
-export async function withCache<T>(
-  key: string,
-  ttlMs: number,
-  getter: () => Promise<T>,
-) {
-  const now = Date.now();
-  const existing = cache.get(key) as CacheEntry<T> | undefined;
-  if (existing && existing.expiresAt > now) {
-    return existing.value;
-  }
-
-  const value = await getter();
-  cache.set(key, { value, expiresAt: now + ttlMs });
-  return value;
-}
@@ -0,0 +1,116 @@
+import { createMemoryCache } from "@/lib/cache/memory";
+import { createRedisCache } from "@/lib/cache/redis";
+import { createSupabaseCache } from "@/lib/cache/supabase";
+import type { CacheBackend, CacheEntry } from "@/lib/cache/types";
+
+export type { CacheBackend, CacheEntry } from "@/lib/cache/types";
+
+export type CacheOptions<T> = {
+  /** Tempo após o TTL em que o valor antigo ainda é servido enquanto revalida (default: ttl). */
+  staleMs?: number;
+  /** Só guarda valores que passem (ex.: não guardar preços em falta). */
+  cacheIf?: (value: T) => boolean;
+};
+
+const MAX_ENTRIES = Number(process.env.CACHE_MAX_ENTRIES ?? 1000);
+const MAX_VALUE_BYTES = Number(process.env.CACHE_MAX_VALUE_BYTES ?? 256_000);
+
+// L1 por instância; o backend partilhado (se houver) fica por trás
+const memory = createMemoryCache(
+  Number.isFinite(MAX_ENTRIES) && MAX_ENTRIES > 0 ? MAX_ENTRIES : 1000,
+);
+let shared: CacheBackend | null | undefined;
+const inflight = new Map<string, Promise<unknown>>();
+
+function getSharedBackend() {
+  if (shared !== undefined) return shared;
+  const kind = process.env.CACHE_BACKEND ?? "memory";
+  try {
+    shared =
+      kind === "supabase"
+        ? createSupabaseCache(MAX_VALUE_BYTES)
+        : kind === "redis"
+          ? createRedisCache(MAX_VALUE_BYTES)
+          : null;
+  } catch (error) {
+    console.warn("cache.backend", kind, error);
+    shared = null;
+  }
+  return shared;
+}
+
+async function readEntry(key: string) {
+  const local = await memory.get(key);
+  if (local) return local;
+
+  const backend = getSharedBackend();
+  if (!backend) return null;
+  try {
+    const entry = await backend.get(key);
+    if (entry) await memory.set(key, entry);
+    return entry;
+  } catch (error) {
+    console.warn(`cache.${backend.name}.get`, key, error);
+    return null;
+  }
+}
+
+function refresh<T>(
+  key: string,
+  ttlMs: number,
+  getter: () => Promise<T>,
+  options: CacheOptions<T>,
+) {
+  // Single-flight: pedidos concorrentes à mesma chave partilham o getter
+  const pending = inflight.get(key) as Promise<T> | undefined;
+  if (pending) return pending;
+
+  const promise = (async () => {
+    try {
+      const value = await getter();
+      if (options.cacheIf && !options.cacheIf(value)) return value;
+
+      const now = Date.now();
+      const entry: CacheEntry<T> = {
+        value,
+        expiresAt: now + ttlMs,
+        staleUntil: now + ttlMs + (options.staleMs ?? ttlMs),
+      };
+      await memory.set(key, entry);
+      const backend = getSharedBackend();
+      backend?.set(key, entry).catch((error) => {
+        console.warn(`cache.${backend.name}.set`, key, error);
+      });
+      return value;
+    } finally {
+      inflight.delete(key);
+    }
+  })();
+  inflight.set(key, promise);
+  return promise;
+}
+
+/**
+ * Lê `key` da cache (memória e, se configurado, backend partilhado) ou corre
+ * `getter`. Valores expirados mas dentro de `staleMs` são devolvidos de
+ * imediato e revalidados em background (stale-while-revalidate).
+ */
+export async function withCache<T>(
+  key: string,
+  ttlMs: number,
+  getter: () => Promise<T>,
+  options: CacheOptions<T> = {},
+): Promise<T> {
+  const entry = (await readEntry(key)) as CacheEntry<T> | null;
+  const now = Date.now();
+  if (entry && entry.expiresAt > now) {
+    return entry.value;
+  }
+  if (entry && entry.staleUntil > now) {
+    refresh(key, ttlMs, getter, options).catch((error) => {
+      console.warn("cache.revalidate", key, error);
+    });
+    return entry.value;
+  }
+  return refresh(key, ttlMs, getter, options);
+}
@@ -0,0 +1,33 @@
+import type { CacheBackend, CacheEntry } from "@/lib/cache/types";
+
+/**
+ * LRU em memória: o Map mantém a ordem de inserção, por isso cada leitura
+ * reinsere a chave no fim e a mais antiga sai quando passa de `maxEntries`.
+ */
+export function createMemoryCache(maxEntries: number): CacheBackend {
+  const entries = new Map<string, CacheEntry>();
+
+  return {
+    name: "memory",
+    async get(key) {
+      const entry = entries.get(key);
+      if (!entry) return null;
+      if (entry.staleUntil <= Date.now()) {
+        entries.delete(key);
+        return null;
+      }
+      entries.delete(key);
+      entries.set(key, entry);
+      return entry;
+    },
+    async set(key, entry) {
+      entries.delete(key);
+      entries.set(key, entry);
+      while (entries.size > maxEntries) {
+        const oldest = entries.keys().next().value;
+        if (oldest === undefined) break;
+        entries.delete(oldest);
+      }
+    },
+  };
+}
@@ -0,0 +1,52 @@
+import { deserializeEntry, serializeEntry } from "@/lib/cache/serialize";
+import type { CacheBackend } from "@/lib/cache/types";
+
+const REDIS_TIMEOUT_MS = 2_000;
+
+/**
+ * Redis via API REST (Upstash, ou qualquer proxy compatível): cada comando é
+ * um POST com o array `["SET", key, value, ...]` e a resposta `{ result }`.
+ */
+export function createRedisCache(maxValueBytes: number): CacheBackend {
+  const baseUrl = process.env.CACHE_REDIS_URL ?? "";
+  const token = process.env.CACHE_REDIS_TOKEN ?? "";
+  if (!baseUrl) {
+    throw new Error("Missing CACHE_REDIS_URL.");
+  }
+
+  const command = async (args: Array<string | number>) => {
+    const response = await fetch(baseUrl, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      body: JSON.stringify(args),
+      signal: AbortSignal.timeout(REDIS_TIMEOUT_MS),
+      cache: "no-store",
+    });
+    const payload = (await response.json().catch(() => null)) as {
+      result?: unknown;
+      error?: string;
+    } | null;
+    if (!response.ok || payload?.error) {
+      throw new Error(payload?.error ?? `Redis HTTP ${response.status}`);
+    }
+    return payload?.result ?? null;
+  };
+
+  return {
+    name: "redis",
+    async get(key) {
+      const result = await command(["GET", key]);
+      return typeof result === "string" ? deserializeEntry(result) : null;
+    },
+    async set(key, entry) {
+      const value = serializeEntry(entry);
+      if (value.length > maxValueBytes) return;
+      // A chave expira sozinha quando deixa de poder ser servida (stale)
+      const ttlMs = Math.max(1, Math.ceil(entry.staleUntil - Date.now()));
+      await command(["SET", key, value, "PX", ttlMs]);
+    },
+  };
+}
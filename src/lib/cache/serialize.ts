@@ -0,0 +1,24 @@
+import type { CacheEntry } from "@/lib/cache/types";
+
+// Os readers devolvem bigints (ex.: totais Morpho), que o JSON não suporta
+const BIGINT_TAG = "__bigint";
+
+export function serializeEntry(entry: CacheEntry) {
+  return JSON.stringify(entry, (_key, value) =>
+    typeof value === "bigint" ? { [BIGINT_TAG]: value.toString() } : value,
+  );
+}
+
+export function deserializeEntry(raw: string): CacheEntry | null {
+  try {
+    return JSON.parse(raw, (_key, value) =>
+      value &&
+      typeof value === "object" &&
+      typeof value[BIGINT_TAG] === "string"
+        ? BigInt(value[BIGINT_TAG])
+        : value,
+    ) as CacheEntry;
+  } catch {
+    return null;
+  }
+}
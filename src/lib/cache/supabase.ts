@@ -0,0 +1,75 @@
+import { createClient } from "@supabase/supabase-js";
+
+import { deserializeEntry, serializeEntry } from "@/lib/cache/serialize";
+import type { CacheBackend } from "@/lib/cache/types";
+
+// Entradas que já não podem ser servidas saem em lotes, no máximo uma vez por
+// intervalo e por instância (a partir das escritas)
+const CLEANUP_INTERVAL_MS = 10 * 60 * 1000;
+const CLEANUP_BATCH = 100;
+
+/** Tabela `cache_entries` (supabase/cache_entries.sql), escrita com a service role. */
+export function createSupabaseCache(maxValueBytes: number): CacheBackend {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL ?? "";
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY ?? "";
+  if (!url || !serviceKey) {
+    throw new Error("Missing Supabase service role configuration.");
+  }
+  const supabase = createClient(url, serviceKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+  let lastCleanupAt = 0;
+
+  const deleteExpired = async () => {
+    const { data, error } = await supabase
+      .from("cache_entries")
+      .select("key")
+      .lt("stale_until", new Date().toISOString())
+      .limit(CLEANUP_BATCH);
+    if (error) throw new Error(error.message);
+    if (!data?.length) return;
+    const { error: deleteError } = await supabase
+      .from("cache_entries")
+      .delete()
+      .in(
+        "key",
+        data.map((row) => row.key),
+      );
+    if (deleteError) throw new Error(deleteError.message);
+  };
+
+  return {
+    name: "supabase",
+    async get(key) {
+      const { data, error } = await supabase
+        .from("cache_entries")
+        .select("value,stale_until")
+        .eq("key", key)
+        .maybeSingle();
+      if (error) throw new Error(error.message);
+      if (!data || Date.parse(data.stale_until) <= Date.now()) return null;
+      return deserializeEntry(data.value);
+    },
+    async set(key, entry) {
+      const value = serializeEntry(entry);
+      if (value.length > maxValueBytes) return;
+      const { error } = await supabase.from("cache_entries").upsert(
+        {
+          key,
+          value,
+          stale_until: new Date(entry.staleUntil).toISOString(),
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: "key" },
+      );
+      if (error) throw new Error(error.message);
+
+      if (Date.now() - lastCleanupAt >= CLEANUP_INTERVAL_MS) {
+        lastCleanupAt = Date.now();
+        deleteExpired().catch((cleanupError) => {
+          console.warn("cache.supabase.cleanup", cleanupError);
+        });
+      }
+    },
+  };
+}
@@ -0,0 +1,13 @@
+export type CacheEntry<T = unknown> = {
+  value: T;
+  /** Até aqui o valor é fresco. */
+  expiresAt: number;
+  /** Até aqui ainda é servido (stale) enquanto revalida em background. */
+  staleUntil: number;
+};
+
+export type CacheBackend = {
+  name: string;
+  get: (key: string) => Promise<CacheEntry | null>;
+  set: (key: string, entry: CacheEntry) => Promise<void>;
+};
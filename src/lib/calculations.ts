@@ -17,6 +17,131 @@ export function computeHealthFactor(
   return (collateralUsd * lt) / debtUsd;
 }
 
+export type EModeThresholds = {
+  liquidationThreshold: number;
+  collateralAssets: string[];
+};
+
+/**
+ * Liquidation threshold que o Aave aplica a um colateral: o da categoria
+ * e-mode quando o user está em e-mode e o asset pertence à categoria.
+ */
+export function effectiveLiquidationThresholdBps(params: {
+  asset: string;
+  reserveLiquidationThresholdBps: number;
+  eMode?: EModeThresholds | null;
+}) {
+  const inEMode = params.eMode?.collateralAssets.includes(
+    params.asset.toLowerCase(),
+  );
+  return inEMode && params.eMode
+    ? params.eMode.liquidationThreshold
+    : params.reserveLiquidationThresholdBps;
+}
+
+/**
+ * LT aplicado a colateral adicionado/retirado: o do maior colateral atual,
+ * assumindo que é esse que se reforça. undefined se não houver dados.
+ */
+export function marginalLiquidationThresholdBps(
+  reserves: { collateralUsd: number; liquidationThresholdBps?: number }[],
+) {
+  const largest = reserves
+    .filter(
+      (reserve) =>
+        reserve.collateralUsd > 0 && (reserve.liquidationThresholdBps ?? 0) > 0,
+    )
+    .sort((a, b) => b.collateralUsd - a.collateralUsd)[0];
+  return largest?.liquidationThresholdBps;
+}
+
+const SECONDS_PER_YEAR = 60 * 60 * 24 * 365;
+const SECONDS_PER_DAY = 60 * 60 * 24;
+
+/** Forma de mostrar taxas (preferência do user em Settings). */
+export type RateDisplay = "apr" | "apy";
+
+export const DEFAULT_RATE_DISPLAY: RateDisplay = "apr";
+
+export function parseRateDisplay(value: unknown): RateDisplay | null {
+  return value === "apr" || value === "apy" ? value : null;
+}
+
+/** Fator de crescimento de um APR (%) ao fim de `days`, capitalizado por segundo. */
+export function compoundGrowth(aprPct: number, days: number) {
+  return Math.pow(
+    1 + aprPct / 100 / SECONDS_PER_YEAR,
+    days * SECONDS_PER_DAY,
+  );
+}
+
+/** APY (%) equivalente a um APR (%) com capitalização por segundo. */
+export function aprToApy(aprPct: number) {
+  return (compoundGrowth(aprPct, 365) - 1) * 100;
+}
+
+/** Taxa (%) na forma pedida a partir do APR. */
+export function displayRate(aprPct: number, display: RateDisplay) {
+  return display === "apy" ? aprToApy(aprPct) : aprPct;
+}
+
+/** Taxas de borrow/supply de um candidato de /rates na forma pedida. */
+export function candidateRates(
+  candidate: {
+    variableBorrowApr: number;
+    liquidityApr: number;
+    variableBorrowApy?: number;
+    liquidityApy?: number;
+  },
+  display: RateDisplay,
+) {
+  if (display === "apr") {
+    return {
+      borrow: candidate.variableBorrowApr,
+      supply: candidate.liquidityApr,
+    };
+  }
+  return {
+    borrow: candidate.variableBorrowApy ?? aprToApy(candidate.variableBorrowApr),
+    supply: candidate.liquidityApy ?? aprToApy(candidate.liquidityApr),
+  };
+}
+
+/**
+ * Taxa líquida sobre o património (colateral - dívida): juros de supply e
+ * rewards menos juros de borrow, em APR ou APY. null sem património positivo.
+ */
+export function computeNetRate(
+  reserves: {
+    collateralUsd: number;
+    debtUsd: number;
+    supplyApr?: number;
+    borrowApr?: number;
+    supplyRewardApr?: number;
+    borrowRewardApr?: number;
+  }[],
+  display: RateDisplay = "apy",
+) {
+  let collateralUsd = 0;
+  let debtUsd = 0;
+  let yearlyUsd = 0;
+  reserves.forEach((reserve) => {
+    collateralUsd += reserve.collateralUsd;
+    debtUsd += reserve.debtUsd;
+    yearlyUsd +=
+      (reserve.collateralUsd *
+        (displayRate(reserve.supplyApr ?? 0, display) +
+          (reserve.supplyRewardApr ?? 0)) -
+        reserve.debtUsd *
+          (displayRate(reserve.borrowApr ?? 0, display) -
+            (reserve.borrowRewardApr ?? 0))) /
+      100;
+  });
+  const equityUsd = collateralUsd - debtUsd;
+  if (equityUsd <= 0) return null;
+  return (yearlyUsd / equityUsd) * 100;
+}
+
 export function riskState(hf: number, hfMin: number) {
   if (!Number.isFinite(hf)) return "OK";
   if (hf < 1) return "Crítico";
@@ -28,12 +153,17 @@ export function getTargetedRecommendations(params: {
   collateralUsd: number;
   debtUsd: number;
   liquidationThresholdBps: number;
+  /** LT do colateral a adicionar/retirar (e-mode); por defeito o da conta. */
+  collateralLiquidationThresholdBps?: number;
   hfMin?: number;
   hfMax?: number;
 }) {
   const hfMin = params.hfMin ?? DEFAULT_HF_MIN;
   const hfMax = params.hfMax ?? DEFAULT_HF_MAX;
   const lt = params.liquidationThresholdBps / 10000;
+  const marginalLt =
+    (params.collateralLiquidationThresholdBps ??
+      params.liquidationThresholdBps) / 10000;
   const hf = computeHealthFactor(
     params.collateralUsd,
     params.debtUsd,
@@ -41,8 +171,10 @@ export function getTargetedRecommendations(params: {
   );
 
   if (hf < hfMin) {
-    const collateralTarget = (hfMin * params.debtUsd) / lt;
-    const addCollateralUsd = Math.max(0, collateralTarget - params.collateralUsd);
+    const addCollateralUsd = Math.max(
+      0,
+      (hfMin * params.debtUsd - params.collateralUsd * lt) / marginalLt,
+    );
     const debtTarget = (params.collateralUsd * lt) / hfMin;
     const repayDebtUsd = Math.max(0, params.debtUsd - debtTarget);
 
@@ -55,10 +187,12 @@ export function getTargetedRecommendations(params: {
   }
 
   if (hf > hfMax) {
-    const collateralTarget = (hfMax * params.debtUsd) / lt;
-    const withdrawCollateralUsd = Math.max(
-      0,
-      params.collateralUsd - collateralTarget,
+    const withdrawCollateralUsd = Math.min(
+      params.collateralUsd,
+      Math.max(
+        0,
+        (params.collateralUsd * lt - hfMax * params.debtUsd) / marginalLt,
+      ),
     );
     const debtTarget = (params.collateralUsd * lt) / hfMax;
     const additionalBorrowUsd = Math.max(0, debtTarget - params.debtUsd);
@@ -98,10 +232,15 @@ export function borrowToTargetWithReinvest(params: {
   collateralUsd: number;
   debtUsd: number;
   liquidationThresholdBps: number;
+  /** LT do colateral comprado com o borrow (e-mode); por defeito o da conta. */
+  collateralLiquidationThresholdBps?: number;
   targetHf: number;
 }) {
   const lt = params.liquidationThresholdBps / 10000;
-  const denominator = lt - params.targetHf;
+  const marginalLt =
+    (params.collateralLiquidationThresholdBps ??
+      params.liquidationThresholdBps) / 10000;
+  const denominator = marginalLt - params.targetHf;
   if (!Number.isFinite(denominator) || Math.abs(denominator) < 1e-9) {
     return 0;
   }
@@ -0,0 +1,139 @@
+import { formatUsd } from "@/lib/format";
+
+/** Capacidade restante de uma reserve (Aave v3), em tokens e USD. */
+export type ReserveCaps = {
+  /** Caps em tokens; null = sem cap. */
+  supplyCap: number | null;
+  borrowCap: number | null;
+  totalSupplied: number;
+  totalBorrowed: number;
+  /** Quanto ainda cabe até ao cap (null sem cap). */
+  supplyHeadroom: number | null;
+  supplyHeadroomUsd: number | null;
+  borrowHeadroom: number | null;
+  borrowHeadroomUsd: number | null;
+  /** Liquidez disponível para borrow (limita o borrow mesmo sem cap). */
+  availableLiquidityUsd: number;
+  supplyCapUsedPct: number | null;
+  borrowCapUsedPct: number | null;
+};
+
+export type CapWarning = {
+  action: "addCollateral" | "borrow";
+  symbol: string;
+  requiredUsd: number;
+  headroomUsd: number;
+  message: string;
+};
+
+export function computeReserveCaps(params: {
+  supplyCap: number;
+  borrowCap: number;
+  totalSupplied: number;
+  totalBorrowed: number;
+  availableLiquidity: number;
+  priceInUsd: number;
+}): ReserveCaps {
+  const supplyHeadroom =
+    params.supplyCap > 0
+      ? Math.max(0, params.supplyCap - params.totalSupplied)
+      : null;
+  const borrowHeadroom =
+    params.borrowCap > 0
+      ? Math.max(0, params.borrowCap - params.totalBorrowed)
+      : null;
+  return {
+    supplyCap: params.supplyCap > 0 ? params.supplyCap : null,
+    borrowCap: params.borrowCap > 0 ? params.borrowCap : null,
+    totalSupplied: params.totalSupplied,
+    totalBorrowed: params.totalBorrowed,
+    supplyHeadroom,
+    supplyHeadroomUsd:
+      supplyHeadroom === null ? null : supplyHeadroom * params.priceInUsd,
+    borrowHeadroom,
+    borrowHeadroomUsd:
+      borrowHeadroom === null ? null : borrowHeadroom * params.priceInUsd,
+    availableLiquidityUsd: params.availableLiquidity * params.priceInUsd,
+    supplyCapUsedPct:
+      params.supplyCap > 0
+        ? (params.totalSupplied / params.supplyCap) * 100
+        : null,
+    borrowCapUsedPct:
+      params.borrowCap > 0
+        ? (params.totalBorrowed / params.borrowCap) * 100
+        : null,
+  };
+}
+
+/** Espaço para mais borrow: o menor entre o cap e a liquidez da reserve. */
+export function borrowCapacityUsd(caps: ReserveCaps) {
+  return caps.borrowHeadroomUsd === null
+    ? caps.availableLiquidityUsd
+    : Math.min(caps.borrowHeadroomUsd, caps.availableLiquidityUsd);
+}
+
+type CapsReserve = {
+  symbol: string;
+  collateralUsd: number;
+  debtUsd: number;
+  caps?: ReserveCaps;
+};
+
+/**
+ * Avisos quando uma ação recomendada não cabe na capacidade restante: o
+ * colateral a adicionar vai para o maior colateral atual (como em
+ * marginalLiquidationThresholdBps) e o borrow para `borrowSymbol` ou, sem
+ * ele, para a maior dívida.
+ */
+export function checkRecommendationCaps(params: {
+  recommendations: { addCollateralUsd?: number; additionalBorrowUsd?: number };
+  reserves: CapsReserve[];
+  borrowSymbol?: string | null;
+}): CapWarning[] {
+  const warnings: CapWarning[] = [];
+  const { addCollateralUsd, additionalBorrowUsd } = params.recommendations;
+
+  if (addCollateralUsd && addCollateralUsd > 0) {
+    const collateral = [...params.reserves]
+      .filter((reserve) => reserve.collateralUsd > 0)
+      .sort((a, b) => b.collateralUsd - a.collateralUsd)[0];
+    const headroomUsd = collateral?.caps?.supplyHeadroomUsd;
+    if (
+      collateral &&
+      typeof headroomUsd === "number" &&
+      addCollateralUsd > headroomUsd
+    ) {
+      warnings.push({
+        action: "addCollateral",
+        symbol: collateral.symbol,
+        requiredUsd: addCollateralUsd,
+        headroomUsd,
+        message: `Supply cap de ${collateral.symbol}: só cabem ${formatUsd(headroomUsd)} dos ${formatUsd(addCollateralUsd)} de colateral recomendados.`,
+      });
+    }
+  }
+
+  if (additionalBorrowUsd && additionalBorrowUsd > 0) {
+    const debt =
+      params.reserves.find(
+        (reserve) => reserve.symbol === params.borrowSymbol,
+      ) ??
+      [...params.reserves]
+        .filter((reserve) => reserve.debtUsd > 0)
+        .sort((a, b) => b.debtUsd - a.debtUsd)[0];
+    if (debt?.caps) {
+      const headroomUsd = borrowCapacityUsd(debt.caps);
+      if (additionalBorrowUsd > headroomUsd) {
+        warnings.push({
+          action: "borrow",
+          symbol: debt.symbol,
+          requiredUsd: additionalBorrowUsd,
+          headroomUsd,
+          message: `Borrow cap/liquidez de ${debt.symbol}: só cabem ${formatUsd(headroomUsd)} dos ${formatUsd(additionalBorrowUsd)} de borrow recomendados.`,
+        });
+      }
+    }
+  }
+
+  return warnings;
+}
@@ -4,6 +4,26 @@ export const SUPPORTED_COMPOUND_CHAINS: CompoundChain[] = ["arbitrum", "base"];
 
 export const DEFAULT_COMPOUND_CHAIN: CompoundChain = "arbitrum";
 
+// Comets por chain, indexados pelo símbolo do base asset
+export const COMPOUND_MARKETS: Record<
+  CompoundChain,
+  Record<string, `0x${string}`>
+> = {
+  arbitrum: {
+    USDC: "0x9c4ec768c28520B50860ea7a15bd7213a9fF58bf",
+    "USDC.e": "0xA5EDBDD9646f8dFF606d7448e414884C7d905dCA",
+    WETH: "0x6f7D514bbD4aFf3BcD1140B7344b32f063dEe486",
+    USDT: "0xd98Be00b5D27fc98112BdE293e487f8D4cA57d07",
+  },
+  base: {
+    USDC: "0xb125E6687d4313864e53df431d5425969c15Eb2F",
+    USDbC: "0x9c4ec768c28520B50860ea7a15bd7213a9fF58bf",
+    WETH: "0x46e6b214b524310239732D51387075E0e70970bf",
+  },
+};
+
+export const DEFAULT_COMPOUND_MARKET = "USDC";
+
 export function parseCompoundChain(value: string | null): CompoundChain | null {
   if (!value) return null;
   return SUPPORTED_COMPOUND_CHAINS.includes(value as CompoundChain)
@@ -11,20 +31,60 @@ export function parseCompoundChain(value: string | null): CompoundChain | null {
     : null;
 }
 
-export function getCometAddress(chain: CompoundChain): `0x${string}` {
-  if (chain === "arbitrum") {
-    const address = process.env.COMPOUND_COMET_ARBITRUM;
-    if (!address) {
-      throw new Error("Missing COMPOUND_COMET_ARBITRUM");
-    }
-    return address as `0x${string}`;
+export function getCompoundMarkets(chain: CompoundChain) {
+  return Object.keys(COMPOUND_MARKETS[chain] ?? {});
+}
+
+export function parseCompoundMarket(
+  chain: CompoundChain,
+  value: string | null,
+): string | null {
+  if (!value) return null;
+  return getCompoundMarkets(chain).find((market) => market === value) ?? null;
+}
+
+function getLegacyCometAddress(chain: CompoundChain) {
+  if (chain === "arbitrum") return process.env.COMPOUND_COMET_ARBITRUM;
+  if (chain === "base") return process.env.COMPOUND_COMET_BASE;
+  return undefined;
+}
+
+/**
+ * Comet de um market. Sem market (wallets antigas), usa o env
+ * COMPOUND_COMET_<CHAIN> se existir, senão o market por defeito.
+ */
+export function getCometAddress(
+  chain: CompoundChain,
+  market?: string | null,
+): `0x${string}` {
+  const markets = COMPOUND_MARKETS[chain];
+  if (!markets) {
+    throw new Error(`Unsupported Compound chain: ${chain}`);
   }
-  if (chain === "base") {
-    const address = process.env.COMPOUND_COMET_BASE;
+  if (market) {
+    const address = markets[market];
     if (!address) {
-      throw new Error("Missing COMPOUND_COMET_BASE");
+      throw new Error(`Unsupported Compound market: ${chain}/${market}`);
     }
-    return address as `0x${string}`;
+    return address;
   }
-  throw new Error(`Unsupported Compound chain: ${chain}`);
+  const legacy = getLegacyCometAddress(chain);
+  if (legacy) return legacy as `0x${string}`;
+  return markets[DEFAULT_COMPOUND_MARKET];
+}
+
+// CometRewards (mesmo contrato para todos os Comets da chain)
+const DEFAULT_COMET_REWARDS: Record<CompoundChain, `0x${string}`> = {
+  arbitrum: "0x88730d254A2f7e6AC8388c3198aFd694bA9f7fae",
+  base: "0x123964802e6ABabBE1Bc9547D72Ef1B69B00A6b1",
+};
+
+export function getCometRewardsAddress(chain: CompoundChain): `0x${string}` {
+  const override =
+    chain === "arbitrum"
+      ? process.env.COMPOUND_REWARDS_ARBITRUM
+      : process.env.COMPOUND_REWARDS_BASE;
+  return (
+    (override as `0x${string}` | undefined) ?? DEFAULT_COMET_REWARDS[chain]
+  );
 }
@@ -72,6 +72,106 @@ export const cometAbi = [
     inputs: [{ name: "priceFeed", type: "address" }],
     outputs: [{ type: "uint256" }],
   },
+  {
+    type: "function",
+    name: "getUtilization",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ type: "uint256" }],
+  },
+  {
+    type: "function",
+    name: "getSupplyRate",
+    stateMutability: "view",
+    inputs: [{ name: "utilization", type: "uint256" }],
+    outputs: [{ type: "uint64" }],
+  },
+  {
+    type: "function",
+    name: "getBorrowRate",
+    stateMutability: "view",
+    inputs: [{ name: "utilization", type: "uint256" }],
+    outputs: [{ type: "uint64" }],
+  },
+  {
+    type: "function",
+    name: "totalSupply",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ type: "uint256" }],
+  },
+  {
+    type: "function",
+    name: "totalBorrow",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ type: "uint256" }],
+  },
+  {
+    type: "function",
+    name: "baseTrackingSupplySpeed",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ type: "uint64" }],
+  },
+  {
+    type: "function",
+    name: "baseTrackingBorrowSpeed",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ type: "uint64" }],
+  },
+  {
+    type: "function",
+    name: "trackingIndexScale",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ type: "uint64" }],
+  },
+] as const;
+
+export const cometRewardsAbi = [
+  {
+    // Não é view on-chain (acumula antes de devolver), mas via eth_call
+    // devolve o valor a reclamar sem alterar estado
+    type: "function",
+    name: "getRewardOwed",
+    stateMutability: "view",
+    inputs: [
+      { name: "comet", type: "address" },
+      { name: "account", type: "address" },
+    ],
+    outputs: [
+      {
+        type: "tuple",
+        components: [
+          { name: "token", type: "address" },
+          { name: "owed", type: "uint256" },
+        ],
+      },
+    ],
+  },
+  {
+    type: "function",
+    name: "rewardsClaimed",
+    stateMutability: "view",
+    inputs: [
+      { name: "comet", type: "address" },
+      { name: "account", type: "address" },
+    ],
+    outputs: [{ type: "uint256" }],
+  },
+  {
+    type: "function",
+    name: "rewardConfig",
+    stateMutability: "view",
+    inputs: [{ name: "comet", type: "address" }],
+    outputs: [
+      { name: "token", type: "address" },
+      { name: "rescaleFactor", type: "uint64" },
+      { name: "shouldUpscale", type: "bool" },
+    ],
+  },
 ] as const;
 
 export const erc20Abi = [
@@ -2,16 +2,22 @@ import { formatUnits, isAddress } from "viem";
 
 import { getCompoundPublicClient } from "@/lib/compound/client";
 import { withCache } from "@/lib/cache";
-import { cometAbi, erc20Abi } from "@/lib/compound/cometAbi";
+import { aprToApy } from "@/lib/calculations";
+import { cometAbi, cometRewardsAbi, erc20Abi } from "@/lib/compound/cometAbi";
 import {
   CompoundChain,
   DEFAULT_COMPOUND_CHAIN,
   getCometAddress,
+  getCometRewardsAddress,
 } from "@/lib/compound/chains";
+import { fetchHistoricalTokenPriceUsd } from "@/lib/history/prices";
+import { rpcCacheKey } from "@/lib/rpc/context";
 
 const PRICE_DECIMALS = 8;
 const PRICE_SCALE = Number(BigInt(10) ** BigInt(PRICE_DECIMALS));
 const MARKET_TTL = 5 * 60 * 1000;
+const RATES_TTL = 60 * 1000;
+const SECONDS_PER_YEAR = 60 * 60 * 24 * 365;
 const DEFAULT_CONCURRENCY = 1;
 const BATCH_DELAY_MS = 200;
 
@@ -57,59 +63,42 @@ function scaleToDecimals(scale: bigint) {
   return Math.max(0, digits - 1);
 }
 
-function isRateLimitError(error: unknown) {
-  const message = error instanceof Error ? error.message : String(error);
-  return message.includes("429") || message.includes("Too Many Requests");
-}
-
-async function readContractWithRetry<T>(
+// Retry, backoff e failover ficam no client RPC partilhado (lib/rpc)
+async function readContract<T>(
   client: ReturnType<typeof getCompoundPublicClient>,
   args: Parameters<typeof client.readContract>[0],
-  retries = 3,
-  baseDelayMs = 400,
 ) {
-  for (let attempt = 0; attempt <= retries; attempt += 1) {
-    try {
-      return (await client.readContract(args)) as T;
-    } catch (error) {
-      if (!isRateLimitError(error) || attempt === retries) {
-        throw error;
-      }
-      const delay = baseDelayMs * (attempt + 1);
-      await new Promise((resolve) => setTimeout(resolve, delay));
-    }
-  }
-  throw new Error("readContractWithRetry failed unexpectedly");
+  return (await client.readContract(args)) as T;
 }
 
-async function fetchMarketData(chain: CompoundChain) {
-  return withCache(`compound:market:${chain}`, MARKET_TTL, async () => {
-    const comet = getCometAddress(chain);
+async function fetchMarketData(chain: CompoundChain, comet: `0x${string}`) {
+  const cacheKey = rpcCacheKey(chain, `compound:market:${chain}:${comet}`);
+  return withCache(cacheKey, MARKET_TTL, async () => {
     const client = getCompoundPublicClient(chain);
 
-    const baseToken = await readContractWithRetry<`0x${string}`>(client, {
+    const baseToken = await readContract<`0x${string}`>(client, {
       address: comet,
       abi: cometAbi,
       functionName: "baseToken",
     });
     const [basePriceFeed, baseDecimals, baseSymbol, assetCount] =
       await Promise.all([
-        readContractWithRetry<`0x${string}`>(client, {
+        readContract<`0x${string}`>(client, {
           address: comet,
           abi: cometAbi,
           functionName: "baseTokenPriceFeed",
         }),
-        readContractWithRetry<number>(client, {
+        readContract<number>(client, {
           address: baseToken,
           abi: erc20Abi,
           functionName: "decimals",
         }),
-        readContractWithRetry<string>(client, {
+        readContract<string>(client, {
           address: baseToken,
           abi: erc20Abi,
           functionName: "symbol",
         }),
-        readContractWithRetry<bigint>(client, {
+        readContract<bigint>(client, {
           address: comet,
           abi: cometAbi,
           functionName: "numAssets",
@@ -122,7 +111,7 @@ async function fetchMarketData(chain: CompoundChain) {
       indices,
       DEFAULT_CONCURRENCY,
       async (index) => {
-        const info = await readContractWithRetry<CompoundAssetInfo>(client, {
+        const info = await readContract<CompoundAssetInfo>(client, {
           address: comet,
           abi: cometAbi,
           functionName: "getAssetInfo",
@@ -169,7 +158,7 @@ async function fetchPriceInBase(
 ) {
   const client = getCompoundPublicClient(chain);
   try {
-    const price = await readContractWithRetry<bigint>(client, {
+    const price = await readContract<bigint>(client, {
       address: comet,
       abi: cometAbi,
       functionName: "getPrice",
@@ -185,7 +174,7 @@ async function fetchEthUsdPrice(chain: CompoundChain) {
   if (chain !== "arbitrum") return 0;
   const client = getCompoundPublicClient(chain);
   try {
-    const price = await readContractWithRetry<bigint>(client, {
+    const price = await readContract<bigint>(client, {
       address: CHAINLINK_ETH_USD_ARBITRUM,
       abi: chainlinkAbi,
       functionName: "latestAnswer",
@@ -215,21 +204,231 @@ function pricesAreUsd(baseSymbol: string, basePriceInBase: number) {
   return basePriceInBase > 0 && basePriceInBase < 1000;
 }
 
+// Taxas do Comet são por segundo, escaladas a 1e18
+function ratePerSecondToApr(rate: bigint) {
+  return (Number(rate) / 1e18) * SECONDS_PER_YEAR * 100;
+}
+
+function ratePerSecondToApy(rate: bigint) {
+  return aprToApy(ratePerSecondToApr(rate));
+}
+
+export async function fetchCompoundMarketRates(
+  chain: CompoundChain = DEFAULT_COMPOUND_CHAIN,
+  market?: string | null,
+) {
+  const comet = getCometAddress(chain, market);
+  const cacheKey = rpcCacheKey(chain, `compound:rates:${chain}:${comet}`);
+  return withCache(cacheKey, RATES_TTL, async () => {
+    const client = getCompoundPublicClient(chain);
+    const marketData = await fetchMarketData(chain, comet);
+
+    const utilization = await readContract<bigint>(client, {
+      address: comet,
+      abi: cometAbi,
+      functionName: "getUtilization",
+    });
+    const [supplyRate, borrowRate, totalSupply, totalBorrow] =
+      await Promise.all([
+        readContract<bigint>(client, {
+          address: comet,
+          abi: cometAbi,
+          functionName: "getSupplyRate",
+          args: [utilization],
+        }),
+        readContract<bigint>(client, {
+          address: comet,
+          abi: cometAbi,
+          functionName: "getBorrowRate",
+          args: [utilization],
+        }),
+        readContract<bigint>(client, {
+          address: comet,
+          abi: cometAbi,
+          functionName: "totalSupply",
+        }),
+        readContract<bigint>(client, {
+          address: comet,
+          abi: cometAbi,
+          functionName: "totalBorrow",
+        }),
+      ]);
+
+    const availableLiquidity =
+      totalSupply > totalBorrow ? totalSupply - totalBorrow : BigInt(0);
+
+    return {
+      baseToken: marketData.baseToken,
+      baseSymbol: marketData.baseSymbol,
+      baseDecimals: marketData.baseDecimals,
+      utilization: Number(utilization) / 1e18,
+      supplyApr: ratePerSecondToApr(supplyRate),
+      borrowApr: ratePerSecondToApr(borrowRate),
+      supplyApy: ratePerSecondToApy(supplyRate),
+      borrowApy: ratePerSecondToApy(borrowRate),
+      totalSupply: Number(formatUnits(totalSupply, marketData.baseDecimals)),
+      totalBorrow: Number(formatUnits(totalBorrow, marketData.baseDecimals)),
+      availableLiquidity,
+    };
+  });
+}
+
+async function fetchRewardToken(chain: CompoundChain, comet: `0x${string}`) {
+  const cacheKey = rpcCacheKey(chain, `compound:reward-token:${chain}:${comet}`);
+  return withCache(cacheKey, MARKET_TTL, async () => {
+    const client = getCompoundPublicClient(chain);
+    const [token] = await readContract<
+      readonly [`0x${string}`, bigint, boolean]
+    >(client, {
+      address: getCometRewardsAddress(chain),
+      abi: cometRewardsAbi,
+      functionName: "rewardConfig",
+      args: [comet],
+    });
+    const [symbol, decimals] = await Promise.all([
+      readContract<string>(client, {
+        address: token,
+        abi: erc20Abi,
+        functionName: "symbol",
+      }),
+      readContract<number>(client, {
+        address: token,
+        abi: erc20Abi,
+        functionName: "decimals",
+      }),
+    ]);
+    return { token, symbol, decimals: Number(decimals) };
+  });
+}
+
+async function fetchRewardPriceUsd(chain: CompoundChain, token: string) {
+  return withCache(
+    `compound:reward-price:${chain}:${token}`,
+    RATES_TTL,
+    async () => {
+      const price = await fetchHistoricalTokenPriceUsd({
+        chain,
+        tokenAddress: token,
+        timestampSec: Math.floor(Date.now() / 1000),
+      });
+      return price ?? 0;
+    },
+    // Preço em falta (CoinGecko) não fica em cache a zerar o reward APR
+    { cacheIf: (price) => price > 0 },
+  );
+}
+
+/**
+ * APR (%) das rewards (COMP) para suppliers e borrowers do base asset, a
+ * partir das tracking speeds do Comet. 0 se a chain não tiver rewards ativas.
+ */
+export async function fetchCompoundRewardRates(
+  chain: CompoundChain = DEFAULT_COMPOUND_CHAIN,
+  market?: string | null,
+) {
+  const comet = getCometAddress(chain, market);
+  const cacheKey = rpcCacheKey(chain, `compound:reward-rates:${chain}:${comet}`);
+  return withCache(cacheKey, RATES_TTL, async () => {
+    const client = getCompoundPublicClient(chain);
+    const [rewardToken, rates, baseAsset] = await Promise.all([
+      fetchRewardToken(chain, comet),
+      fetchCompoundMarketRates(chain, market),
+      fetchCompoundBaseAsset(chain, market),
+    ]);
+    const [supplySpeed, borrowSpeed, trackingIndexScale] = await Promise.all([
+      readContract<bigint>(client, {
+        address: comet,
+        abi: cometAbi,
+        functionName: "baseTrackingSupplySpeed",
+      }),
+      readContract<bigint>(client, {
+        address: comet,
+        abi: cometAbi,
+        functionName: "baseTrackingBorrowSpeed",
+      }),
+      readContract<bigint>(client, {
+        address: comet,
+        abi: cometAbi,
+        functionName: "trackingIndexScale",
+      }),
+    ]);
+    const priceUsd = await fetchRewardPriceUsd(chain, rewardToken.token);
+
+    const rewardAprPct = (speed: bigint, totalBase: number) => {
+      const totalUsd = totalBase * baseAsset.priceInUsd;
+      if (totalUsd <= 0 || trackingIndexScale <= BigInt(0)) return 0;
+      const rewardsPerYear =
+        (Number(speed) / Number(trackingIndexScale)) * SECONDS_PER_YEAR;
+      return ((rewardsPerYear * priceUsd) / totalUsd) * 100;
+    };
+
+    return {
+      ...rewardToken,
+      priceUsd,
+      supplyRewardApr: rewardAprPct(supplySpeed, rates.totalSupply),
+      borrowRewardApr: rewardAprPct(borrowSpeed, rates.totalBorrow),
+    };
+  }, { cacheIf: (rewards) => rewards.priceUsd > 0 });
+}
+
+/** Rewards acumuladas por wallet: por reclamar (owed) e já reclamadas. */
+export async function fetchCompoundRewards(
+  address: `0x${string}`,
+  chain: CompoundChain = DEFAULT_COMPOUND_CHAIN,
+  market?: string | null,
+) {
+  const comet = getCometAddress(chain, market);
+  const rewards = getCometRewardsAddress(chain);
+  const client = getCompoundPublicClient(chain);
+
+  const [owed, claimed, rewardToken] = await Promise.all([
+    readContract<{ token: `0x${string}`; owed: bigint }>(client, {
+      address: rewards,
+      abi: cometRewardsAbi,
+      functionName: "getRewardOwed",
+      args: [comet, address],
+    }),
+    readContract<bigint>(client, {
+      address: rewards,
+      abi: cometRewardsAbi,
+      functionName: "rewardsClaimed",
+      args: [comet, address],
+    }),
+    fetchRewardToken(chain, comet),
+  ]);
+  const priceUsd = await fetchRewardPriceUsd(chain, rewardToken.token);
+
+  const claimableAmount = Number(formatUnits(owed.owed, rewardToken.decimals));
+  const claimedAmount = Number(formatUnits(claimed, rewardToken.decimals));
+
+  return {
+    token: rewardToken.token,
+    symbol: rewardToken.symbol,
+    priceUsd,
+    claimableAmount,
+    claimableUsd: claimableAmount * priceUsd,
+    claimedAmount,
+    accruedAmount: claimableAmount + claimedAmount,
+    accruedUsd: (claimableAmount + claimedAmount) * priceUsd,
+  };
+}
+
 export async function fetchCompoundBaseAsset(
   chain: CompoundChain = DEFAULT_COMPOUND_CHAIN,
+  market?: string | null,
 ) {
-  const comet = getCometAddress(chain);
-  const market = await fetchMarketData(chain);
+  const comet = getCometAddress(chain, market);
+  const marketData = await fetchMarketData(chain, comet);
   const basePriceInBase = await fetchPriceInBase(
     chain,
     comet,
-    market.basePriceFeed,
+    marketData.basePriceFeed,
   );
-  const basePriceUsd = pricesAreUsd(market.baseSymbol, basePriceInBase)
+  const basePriceUsd = pricesAreUsd(marketData.baseSymbol, basePriceInBase)
     ? basePriceInBase
-    : await resolveBaseUsdPrice(chain, market.baseSymbol, basePriceInBase);
+    : await resolveBaseUsdPrice(chain, marketData.baseSymbol, basePriceInBase);
   return {
-    symbol: market.baseSymbol,
+    symbol: marketData.baseSymbol,
     priceInUsd: basePriceUsd,
   };
 }
@@ -238,40 +437,44 @@ export async function fetchCompoundUserReserves(
   address: `0x${string}`,
   chain: CompoundChain = DEFAULT_COMPOUND_CHAIN,
   debug = false,
+  market?: string | null,
 ) {
-  const comet = getCometAddress(chain);
+  const comet = getCometAddress(chain, market);
   const client = getCompoundPublicClient(chain);
-  const market = await fetchMarketData(chain);
+  const marketData = await fetchMarketData(chain, comet);
 
-  const [borrowBalance, baseSupplyBalance] = await Promise.all([
-    readContractWithRetry<bigint>(client, {
-      address: comet,
-      abi: cometAbi,
-      functionName: "borrowBalanceOf",
-      args: [address],
-    }),
-    readContractWithRetry<bigint>(client, {
-      address: comet,
-      abi: cometAbi,
-      functionName: "balanceOf",
-      args: [address],
-    }),
-  ]);
+  const [borrowBalance, baseSupplyBalance, rates, rewardRates] =
+    await Promise.all([
+      readContract<bigint>(client, {
+        address: comet,
+        abi: cometAbi,
+        functionName: "borrowBalanceOf",
+        args: [address],
+      }),
+      readContract<bigint>(client, {
+        address: comet,
+        abi: cometAbi,
+        functionName: "balanceOf",
+        args: [address],
+      }),
+      fetchCompoundMarketRates(chain, market),
+      fetchCompoundRewardRates(chain, market).catch(() => null),
+    ]);
   const basePriceInBase = await fetchPriceInBase(
     chain,
     comet,
-    market.basePriceFeed,
+    marketData.basePriceFeed,
   );
-  const basePricesAreUsd = pricesAreUsd(market.baseSymbol, basePriceInBase);
+  const basePricesAreUsd = pricesAreUsd(marketData.baseSymbol, basePriceInBase);
   const basePriceUsd = basePricesAreUsd
     ? basePriceInBase
-    : await resolveBaseUsdPrice(chain, market.baseSymbol, basePriceInBase);
+    : await resolveBaseUsdPrice(chain, marketData.baseSymbol, basePriceInBase);
 
   const collateralBalances = await mapWithConcurrency(
-    market.assets,
+    marketData.assets,
     DEFAULT_CONCURRENCY,
     async (asset) => {
-      const balance = await readContractWithRetry<bigint>(client, {
+      const balance = await readContract<bigint>(client, {
         address: comet,
         abi: cometAbi,
         functionName: "collateralBalanceOf",
@@ -289,7 +492,7 @@ export async function fetchCompoundUserReserves(
     collateralWithBalance,
     DEFAULT_CONCURRENCY,
     async ({ asset }) => {
-      const symbol = await readContractWithRetry<string>(client, {
+      const symbol = await readContract<string>(client, {
         address: asset.asset,
         abi: erc20Abi,
         functionName: "symbol",
@@ -299,7 +502,7 @@ export async function fetchCompoundUserReserves(
   );
 
   const debugAssets = debug
-    ? await mapWithConcurrency(market.assets, DEFAULT_CONCURRENCY, async (asset) => {
+    ? await mapWithConcurrency(marketData.assets, DEFAULT_CONCURRENCY, async (asset) => {
         const balanceEntry = collateralBalances.find(
           (entry) => entry.asset.asset === asset.asset,
         );
@@ -309,7 +512,7 @@ export async function fetchCompoundUserReserves(
         let symbol = isNativePlaceholder ? "ETH" : "UNKNOWN";
         if (!isNativePlaceholder && isAddress(asset.asset)) {
           try {
-            symbol = await readContractWithRetry<string>(client, {
+            symbol = await readContract<string>(client, {
               address: asset.asset,
               abi: erc20Abi,
               functionName: "symbol",
@@ -355,38 +558,45 @@ export async function fetchCompoundUserReserves(
         debtUsd: 0,
         priceInUsd: priceUsd,
         liquidationFactor,
+        liquidationThresholdBps: liquidationFactor * 10000,
         borrowCollateralFactor,
       };
     }),
   );
 
   const baseSupplyAmount = Number(
-    formatUnits(baseSupplyBalance, market.baseDecimals),
+    formatUnits(baseSupplyBalance, marketData.baseDecimals),
   );
   const baseSupplyEntry =
     baseSupplyAmount > 0
       ? {
-          symbol: market.baseSymbol,
+          symbol: marketData.baseSymbol,
           collateralAmount: baseSupplyAmount,
           collateralUsd: baseSupplyAmount * basePriceUsd,
           debtAmount: 0,
           debtUsd: 0,
           priceInUsd: basePriceUsd,
-          liquidationFactor: 1,
-          borrowCollateralFactor: 1,
+          // No Comet o base fornecido não é colateral: não conta para HF nem limites
+          liquidationFactor: 0,
+          liquidationThresholdBps: 0,
+          borrowCollateralFactor: 0,
+          supplyApr: rates.supplyApr,
+          supplyRewardApr: rewardRates?.supplyRewardApr ?? 0,
         }
       : null;
 
-  const debtAmount = Number(formatUnits(borrowBalance, market.baseDecimals));
+  const debtAmount = Number(formatUnits(borrowBalance, marketData.baseDecimals));
   const debtEntry =
     debtAmount > 0
       ? {
-          symbol: market.baseSymbol,
+          symbol: marketData.baseSymbol,
           collateralAmount: 0,
           collateralUsd: 0,
           debtAmount,
           debtUsd: debtAmount * basePriceUsd,
           priceInUsd: basePriceUsd,
+          borrowApr: rates.borrowApr,
+          borrowRewardApr: rewardRates?.borrowRewardApr ?? 0,
         }
       : null;
 
@@ -399,11 +609,12 @@ export async function fetchCompoundUserReserves(
   return {
     reserves,
     comet,
-    baseSymbol: market.baseSymbol,
+    market: market ?? null,
+    baseSymbol: marketData.baseSymbol,
     basePriceUsd,
     debug: debug
       ? {
-          baseDecimals: market.baseDecimals,
+          baseDecimals: marketData.baseDecimals,
           basePriceUsd,
           basePriceInBase,
         basePricesAreUsd,
@@ -418,10 +629,13 @@ export async function fetchCompoundUserReserves(
 export async function fetchCompoundAccountData(
   address: `0x${string}`,
   chain: CompoundChain = DEFAULT_COMPOUND_CHAIN,
+  market?: string | null,
 ) {
   const { reserves, baseSymbol, comet } = await fetchCompoundUserReserves(
     address,
     chain,
+    false,
+    market,
   );
   const collateralEntries = reserves.filter((entry) => entry.collateralAmount > 0);
   const totalCollateralUsd = collateralEntries.reduce(
@@ -467,6 +681,7 @@ export async function fetchCompoundAccountData(
     ltv,
     healthFactorValue,
     market: {
+      id: market ?? null,
       baseSymbol,
       comet,
     },
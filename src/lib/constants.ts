@@ -5,3 +5,17 @@ export const DEFAULT_HF_MAX = 2.2;
 
 export const RAY = BigInt(10) ** BigInt(27);
 export const WAD = BigInt(10) ** BigInt(18);
+
+export const STABLECOIN_SYMBOLS = [
+  "USDC",
+  "USDC.E",
+  "USDCE",
+  "USDT",
+  "USDT0",
+  "DAI",
+  "LUSD",
+  "GHO",
+  "FRAX",
+  "EURS",
+  "USDBC",
+] as const;
@@ -0,0 +1,6 @@
+/** Crons autenticam com `Authorization: Bearer <CRON_SECRET>` (como o Vercel Cron). */
+export function isCronAuthorized(request: Request) {
+  const expectedSecret = process.env.CRON_SECRET;
+  const authHeader = request.headers.get("authorization");
+  return Boolean(expectedSecret) && authHeader === `Bearer ${expectedSecret}`;
+}
@@ -1,3 +1,6 @@
+import { AAVE_CHAINS } from "@/lib/aave/chains";
+import { withCache } from "@/lib/cache";
+
 type PriceParams = {
   chain: string;
   tokenAddress: string;
@@ -7,21 +10,25 @@ type PriceParams = {
 const COINGECKO_BASE_URL =
   process.env.COINGECKO_BASE_URL ?? "https://api.coingecko.com/api/v3";
 const COINGECKO_API_KEY = process.env.COINGECKO_API_KEY ?? "";
+const COINGECKO_TIMEOUT_MS = 15_000;
 
-const PLATFORM_BY_CHAIN: Record<string, string> = {
-  polygon: "polygon-pos",
-  arbitrum: "arbitrum-one",
-  base: "base",
-};
+// Chains Compound (arbitrum, base) também estão no registo Aave
+const PLATFORM_BY_CHAIN: Record<string, string> = Object.fromEntries(
+  Object.entries(AAVE_CHAINS).map(([chain, info]) => [
+    chain,
+    info.coingeckoPlatform,
+  ]),
+);
 
-const cache = new Map<string, number>();
+// Preços históricos não mudam: cache longa (por hora de cada token)
+const HISTORICAL_PRICE_TTL = 30 * 24 * 60 * 60 * 1000;
 
 function getPlatform(chain: string) {
   return PLATFORM_BY_CHAIN[chain] ?? null;
 }
 
 function toCacheKey(platform: string, address: string, bucket: number) {
-  return `${platform}:${address.toLowerCase()}:${bucket}`;
+  return `price:${platform}:${address.toLowerCase()}:${bucket}`;
 }
 
 function pickClosest(prices: Array<[number, number]>, targetMs: number) {
@@ -38,21 +45,11 @@ function pickClosest(prices: Array<[number, number]>, targetMs: number) {
   return closest[1];
 }
 
-export async function fetchHistoricalTokenPriceUsd({
-  chain,
-  tokenAddress,
-  timestampSec,
-}: PriceParams): Promise<number | null> {
-  const platform = getPlatform(chain);
-  if (!platform) return null;
-
-  const bucket = Math.floor(timestampSec / 3600);
-  const cacheKey = toCacheKey(platform, tokenAddress, bucket);
-  const cached = cache.get(cacheKey);
-  if (cached !== undefined) {
-    return cached;
-  }
-
+async function fetchTokenPriceUsd(
+  platform: string,
+  tokenAddress: string,
+  timestampSec: number,
+): Promise<number | null> {
   const from = Math.max(0, timestampSec - 3600);
   const to = timestampSec + 3600;
   const url = new URL(
@@ -65,7 +62,10 @@ export async function fetchHistoricalTokenPriceUsd({
     url.searchParams.set("x_cg_pro_api_key", COINGECKO_API_KEY);
   }
 
-  const response = await fetch(url.toString(), { next: { revalidate: 0 } });
+  const response = await fetch(url.toString(), {
+    next: { revalidate: 0 },
+    signal: AbortSignal.timeout(COINGECKO_TIMEOUT_MS),
+  });
   if (!response.ok) {
     return null;
   }
@@ -77,6 +77,60 @@ export async function fetchHistoricalTokenPriceUsd({
   if (!Number.isFinite(price ?? NaN)) {
     return null;
   }
-  cache.set(cacheKey, Number(price));
   return Number(price);
 }
+
+export async function fetchHistoricalTokenPriceUsd({
+  chain,
+  tokenAddress,
+  timestampSec,
+}: PriceParams): Promise<number | null> {
+  const platform = getPlatform(chain);
+  if (!platform) return null;
+
+  const bucket = Math.floor(timestampSec / 3600);
+  return withCache(
+    toCacheKey(platform, tokenAddress, bucket),
+    HISTORICAL_PRICE_TTL,
+    () => fetchTokenPriceUsd(platform, tokenAddress, timestampSec),
+    // Falhas (rate limit, token sem preço) não ficam em cache
+    { cacheIf: (price) => price !== null },
+  );
+}
+
+/**
+ * Série de preços USD de uma moeda CoinGecko (por id, ex.: "ethereum") entre
+ * dois timestamps. Janelas até 90 dias vêm com granularidade horária. Sem
+ * COINGECKO_API_KEY só há dados dos últimos 365 dias.
+ */
+export async function fetchCoinPriceSeriesUsd({
+  coinId,
+  fromSec,
+  toSec,
+}: {
+  coinId: string;
+  fromSec: number;
+  toSec: number;
+}): Promise<Array<[number, number]>> {
+  const url = new URL(`${COINGECKO_BASE_URL}/coins/${coinId}/market_chart/range`);
+  url.searchParams.set("vs_currency", "usd");
+  url.searchParams.set("from", String(fromSec));
+  url.searchParams.set("to", String(toSec));
+  if (COINGECKO_API_KEY) {
+    url.searchParams.set("x_cg_pro_api_key", COINGECKO_API_KEY);
+  }
+
+  const response = await fetch(url.toString(), {
+    next: { revalidate: 0 },
+    signal: AbortSignal.timeout(COINGECKO_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    return [];
+  }
+  const payload = (await response.json().catch(() => null)) as
+    | { prices?: Array<[number, number]> }
+    | null;
+  return (payload?.prices ?? []).filter(
+    ([timestamp, price]) => Number.isFinite(timestamp) && Number.isFinite(price),
+  );
+}
@@ -0,0 +1,296 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import { fetchCoinPriceSeriesUsd } from "@/lib/history/prices";
+import type { LiquidationPosition } from "@/lib/liquidation";
+import { createSupabaseAdminClient } from "@/lib/supabase/admin";
+
+// Séries horárias: buracos maiores que isto (ou nas pontas) pedem novo fetch
+const MAX_SERIES_GAP_MS = 3 * 60 * 60 * 1000;
+
+export type StressWindow = {
+  id: string;
+  label: string;
+  from: string;
+  to: string;
+};
+
+export type PriceSeries = Array<[number, number]>;
+
+export type StressReplayPoint = {
+  timestamp: number;
+  healthFactor: number;
+};
+
+export type StressReplayResult = {
+  window: StressWindow;
+  points: StressReplayPoint[];
+  minHealthFactor: number | null;
+  minHealthFactorAt: number | null;
+  liquidated: boolean;
+  liquidatedAt: number | null;
+  hfMinBreachedAt: number | null;
+  /** Assets sem série de preços (assumidos com preço constante). */
+  missingSymbols: string[];
+};
+
+export const STRESS_WINDOWS: StressWindow[] = [
+  {
+    id: "covid-2020",
+    label: "COVID crash (mar 2020)",
+    from: "2020-03-09T00:00:00Z",
+    to: "2020-03-16T00:00:00Z",
+  },
+  {
+    id: "may-2021",
+    label: "Crash de maio 2021",
+    from: "2021-05-12T00:00:00Z",
+    to: "2021-05-23T00:00:00Z",
+  },
+  {
+    id: "luna-2022",
+    label: "Colapso LUNA/UST (mai 2022)",
+    from: "2022-05-05T00:00:00Z",
+    to: "2022-05-15T00:00:00Z",
+  },
+  {
+    id: "ftx-2022",
+    label: "Colapso FTX (nov 2022)",
+    from: "2022-11-05T00:00:00Z",
+    to: "2022-11-14T00:00:00Z",
+  },
+  {
+    id: "usdc-depeg-2023",
+    label: "Depeg USDC / SVB (mar 2023)",
+    from: "2023-03-09T00:00:00Z",
+    to: "2023-03-14T00:00:00Z",
+  },
+  {
+    id: "aug-2024",
+    label: "Unwind do carry trade (ago 2024)",
+    from: "2024-08-01T00:00:00Z",
+    to: "2024-08-08T00:00:00Z",
+  },
+];
+
+// Ids CoinGecko por símbolo (wrapped e bridged usam a moeda de referência)
+const COINGECKO_IDS: Record<string, string> = {
+  WMATIC: "matic-network",
+  MATIC: "matic-network",
+  POL: "matic-network",
+  WPOL: "matic-network",
+  WETH: "ethereum",
+  ETH: "ethereum",
+  WBTC: "wrapped-bitcoin",
+  LINK: "chainlink",
+  AAVE: "aave",
+  ARB: "arbitrum",
+  UNI: "uniswap",
+  CRV: "curve-dao-token",
+  BAL: "balancer",
+  GMX: "gmx",
+  COMP: "compound-governance-token",
+  WSTETH: "wrapped-steth",
+  RETH: "rocket-pool-eth",
+  CBETH: "coinbase-wrapped-staked-eth",
+  WEETH: "wrapped-eeth",
+  MATICX: "stader-maticx",
+  STMATIC: "lido-staked-matic",
+  USDC: "usd-coin",
+  "USDC.E": "usd-coin",
+  USDCE: "usd-coin",
+  USDBC: "usd-coin",
+  USDT: "tether",
+  USDT0: "tether",
+  DAI: "dai",
+  LUSD: "liquity-usd",
+  FRAX: "frax",
+  GHO: "gho",
+  EURS: "stasis-eurs",
+};
+
+export function getCoinGeckoId(symbol: string) {
+  return COINGECKO_IDS[symbol.toUpperCase()] ?? null;
+}
+
+export function getStressWindow(id: string | null) {
+  return STRESS_WINDOWS.find((window) => window.id === id) ?? null;
+}
+
+function toSeconds(iso: string) {
+  return Math.floor(Date.parse(iso) / 1000);
+}
+
+function coversWindow(series: PriceSeries, window: StressWindow) {
+  if (series.length === 0) return false;
+  const timestamps = [
+    Date.parse(window.from),
+    ...series.map(([timestamp]) => timestamp),
+    Date.parse(window.to),
+  ];
+  return timestamps.every(
+    (timestamp, index) =>
+      index === 0 || timestamp - timestamps[index - 1] <= MAX_SERIES_GAP_MS,
+  );
+}
+
+async function storePriceSeries(coinId: string, series: PriceSeries) {
+  try {
+    const { error } = await createSupabaseAdminClient()
+      .from("price_series")
+      .upsert(
+        series.map(([timestamp, price]) => ({
+          coin_id: coinId,
+          ts: new Date(timestamp).toISOString(),
+          price_usd: price,
+        })),
+        { onConflict: "coin_id,ts" },
+      );
+    if (error) {
+      console.warn("history.stress.store", coinId, error.message);
+    }
+  } catch (error) {
+    console.warn("history.stress.store", coinId, error);
+  }
+}
+
+/**
+ * Séries de preços por símbolo para uma janela, lidas da tabela `price_series`.
+ * Fora do modo offline, séries em falta ou com buracos vêm do CoinGecko e
+ * ficam guardadas (pelo servidor, com a service role).
+ */
+export async function loadStressPriceSeries(
+  supabase: SupabaseClient,
+  params: { symbols: string[]; window: StressWindow; offline: boolean },
+) {
+  const coinIds = Array.from(
+    new Set(
+      params.symbols
+        .map((symbol) => getCoinGeckoId(symbol))
+        .filter((coinId): coinId is string => Boolean(coinId)),
+    ),
+  );
+
+  const byCoin = new Map<string, PriceSeries>();
+  for (const coinId of coinIds) {
+    const { data, error } = await supabase
+      .from("price_series")
+      .select("ts,price_usd")
+      .eq("coin_id", coinId)
+      .gte("ts", params.window.from)
+      .lte("ts", params.window.to)
+      .order("ts", { ascending: true });
+    if (error) {
+      console.warn("history.stress.cache", coinId, error.message);
+    }
+
+    let series: PriceSeries = (data ?? []).map((row) => [
+      Date.parse(row.ts),
+      Number(row.price_usd),
+    ]);
+
+    if (!params.offline && !coversWindow(series, params.window)) {
+      const fetched = await fetchCoinPriceSeriesUsd({
+        coinId,
+        fromSec: toSeconds(params.window.from),
+        toSec: toSeconds(params.window.to),
+      });
+      // Sem resposta do CoinGecko fica o que já estava guardado
+      if (fetched.length > 0) {
+        series = fetched;
+        await storePriceSeries(coinId, fetched);
+      }
+    }
+
+    if (series.length > 0) {
+      byCoin.set(coinId, series);
+    }
+  }
+
+  const result: Record<string, PriceSeries> = {};
+  params.symbols.forEach((symbol) => {
+    const coinId = getCoinGeckoId(symbol);
+    const series = coinId ? byCoin.get(coinId) : undefined;
+    if (series) result[symbol] = series;
+  });
+  return result;
+}
+
+/**
+ * Aplica a trajetória relativa de preços da janela (preço_t / preço_inicial)
+ * às posições atuais e calcula o HF em cada ponto. Não depende de rede.
+ */
+export function replayStressWindow(params: {
+  window: StressWindow;
+  positions: LiquidationPosition[];
+  series: Record<string, PriceSeries>;
+  hfMin: number;
+}): StressReplayResult {
+  const positions = params.positions.filter(
+    (position) => position.collateralUsd > 0 || position.debtUsd > 0,
+  );
+  const missingSymbols = positions
+    .map((position) => position.symbol)
+    .filter((symbol) => !params.series[symbol]?.length);
+
+  const timeline = Array.from(
+    new Set(
+      positions.flatMap((position) =>
+        (params.series[position.symbol] ?? []).map(([timestamp]) => timestamp),
+      ),
+    ),
+  ).sort((a, b) => a - b);
+
+  const cursors = new Map<string, number>();
+  const points = timeline.map((timestamp) => {
+    let weightedCollateralUsd = 0;
+    let debtUsd = 0;
+    positions.forEach((position) => {
+      const series = params.series[position.symbol] ?? [];
+      let ratio = 1;
+      if (series.length > 0) {
+        // Último preço conhecido até `timestamp` (forward-fill)
+        let cursor = cursors.get(position.symbol) ?? 0;
+        while (
+          cursor + 1 < series.length &&
+          series[cursor + 1][0] <= timestamp
+        ) {
+          cursor += 1;
+        }
+        cursors.set(position.symbol, cursor);
+        const startPrice = series[0][1];
+        ratio = startPrice > 0 ? series[cursor][1] / startPrice : 1;
+      }
+      weightedCollateralUsd +=
+        position.collateralUsd *
+        ratio *
+        ((position.liquidationThresholdBps ?? 0) / 10000);
+      debtUsd += position.debtUsd * ratio;
+    });
+    return {
+      timestamp,
+      healthFactor: debtUsd > 0 ? weightedCollateralUsd / debtUsd : Infinity,
+    };
+  });
+
+  const minPoint = points.reduce<StressReplayPoint | null>(
+    (min, point) =>
+      !min || point.healthFactor < min.healthFactor ? point : min,
+    null,
+  );
+  const liquidation = points.find((point) => point.healthFactor < 1);
+  const hfMinBreach = points.find((point) => point.healthFactor < params.hfMin);
+
+  return {
+    window: params.window,
+    points,
+    minHealthFactor:
+      minPoint && Number.isFinite(minPoint.healthFactor)
+        ? minPoint.healthFactor
+        : null,
+    minHealthFactorAt: minPoint?.timestamp ?? null,
+    liquidated: Boolean(liquidation),
+    liquidatedAt: liquidation?.timestamp ?? null,
+    hfMinBreachedAt: hfMinBreach?.timestamp ?? null,
+    missingSymbols,
+  };
+}
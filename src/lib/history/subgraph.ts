@@ -1,10 +1,15 @@
 import { formatUnits } from "viem";
 
-import { parseAaveChain } from "@/lib/aave/chains";
+import { AAVE_CHAINS } from "@/lib/aave/chains";
+import {
+  getAaveForkSubgraphEnv,
+  getAaveForkSubgraphUrl,
+  parseAaveForkChain,
+} from "@/lib/aave/forks";
 import { parseCompoundChain } from "@/lib/compound/chains";
-import { Protocol } from "@/lib/protocols";
+import { isAaveFork, Protocol } from "@/lib/protocols";
 
-type NormalizedEvent = {
+export type NormalizedEvent = {
   txHash: string;
   logIndex: number;
   blockNumber: number;
@@ -108,11 +113,6 @@ type FetchParams = {
   maxEvents?: number;
 };
 
-const AAVE_SUBGRAPHS: Record<string, string | undefined> = {
-  polygon: process.env.AAVE_SUBGRAPH_POLYGON,
-  arbitrum: process.env.AAVE_SUBGRAPH_ARBITRUM,
-};
-
 const COMPOUND_SUBGRAPHS: Record<string, string | undefined> = {
   arbitrum: process.env.COMPOUND_SUBGRAPH_ARBITRUM,
   base: process.env.COMPOUND_SUBGRAPH_BASE,
@@ -133,15 +133,12 @@ function normalizeChain(chain: string) {
   return (chain ?? "").toLowerCase().replace(/^arbitrum-one$/i, "arbitrum");
 }
 
-// Aproximação block number -> Unix timestamp por chain (genesis + blockTime)
+// Aproximação block number -> Unix timestamp por chain (genesis + blockTime);
+// as chains Compound (arbitrum, base) também estão no registo Aave
 const CHAIN_GENESIS_BLOCK_TIME: Record<
   string,
   { genesis: number; blockTime: number }
-> = {
-  base: { genesis: 1691539200, blockTime: 2 }, // Base mainnet ~Aug 2023
-  arbitrum: { genesis: 1630368000, blockTime: 1 }, // Arbitrum One ~Aug 2021
-  polygon: { genesis: 1590796800, blockTime: 2 }, // Polygon ~May 2020
-};
+> = AAVE_CHAINS;
 
 function blockNumberToApproxTimestamp(
   chain: string,
@@ -179,10 +176,9 @@ function getSubgraphUrl(
   preferEventsSubgraph = false,
 ) {
   const chainNorm = normalizeChain(chain);
-  const parsed =
-    protocol === "compound"
-      ? parseCompoundChain(chainNorm)
-      : parseAaveChain(chainNorm);
+  const parsed = isAaveFork(protocol)
+    ? parseAaveForkChain(protocol, chainNorm)
+    : parseCompoundChain(chainNorm);
   let url: string | null = null;
   if (protocol === "compound" && parsed) {
     const key = parsed as keyof typeof COMPOUND_SUBGRAPHS;
@@ -196,8 +192,8 @@ function getSubgraphUrl(
       if (eventsUrl) url = eventsUrl;
     }
     if (!url) url = COMPOUND_SUBGRAPHS[key] ?? null;
-  } else if (parsed) {
-    url = AAVE_SUBGRAPHS[parsed as keyof typeof AAVE_SUBGRAPHS] ?? null;
+  } else if (isAaveFork(protocol) && parsed) {
+    url = getAaveForkSubgraphUrl(protocol, parsed) ?? null;
   }
   url = injectGraphApiKey(url);
   // #region agent log
@@ -353,14 +349,12 @@ export async function fetchSubgraphEvents({
 }: FetchParams): Promise<NormalizedEvent[]> {
   const url = getSubgraphUrl(protocol, chain, true);
   if (!url) {
-    const envVar =
-      protocol === "compound"
-        ? chain.toLowerCase() === "base"
-          ? "COMPOUND_SUBGRAPH_BASE"
-          : "COMPOUND_SUBGRAPH_ARBITRUM"
-        : chain.toLowerCase() === "arbitrum"
-          ? "AAVE_SUBGRAPH_ARBITRUM"
-          : "AAVE_SUBGRAPH_POLYGON";
+    const envVar = isAaveFork(protocol)
+      ? getAaveForkSubgraphEnv(protocol, normalizeChain(chain)) ??
+        "AAVE_SUBGRAPH_POLYGON"
+      : chain.toLowerCase() === "base"
+        ? "COMPOUND_SUBGRAPH_BASE"
+        : "COMPOUND_SUBGRAPH_ARBITRUM";
     throw new Error(
       `Subgraph URL não configurado para ${protocol} em ${chain}. Define a variável de ambiente ${envVar} no Vercel (ou .env.local).`,
     );
@@ -0,0 +1,109 @@
+export type LiquidationPosition = {
+  symbol: string;
+  collateralAmount: number;
+  collateralUsd: number;
+  debtAmount: number;
+  debtUsd: number;
+  priceInUsd: number;
+  /** LT efetivo do asset como colateral (0 se não conta como colateral). */
+  liquidationThresholdBps?: number;
+};
+
+export type LiquidationPrice = {
+  symbol: string;
+  role: "collateral" | "debt" | "both";
+  priceInUsd: number;
+  /** Preço a que o HF chega a 1.0, mantendo os outros preços constantes. */
+  liquidationPrice: number | null;
+  liquidationChangePct: number | null;
+  /** Preço a que o HF chega ao hf_min da wallet. */
+  hfMinPrice: number | null;
+  hfMinChangePct: number | null;
+};
+
+/**
+ * Preço de um asset para o qual o HF atinge `targetHf`. Resolve
+ * (W_outros + a·lt·p) / (D_outros + b·p) = targetHf em ordem a p, em que
+ * `a`/`b` são as quantidades de colateral/dívida do próprio asset.
+ * null quando o HF não depende do preço ou não há preço positivo que o atinja.
+ */
+export function priceForHealthFactor(params: {
+  position: LiquidationPosition;
+  weightedCollateralUsd: number;
+  debtUsd: number;
+  targetHf: number;
+}) {
+  const { position, targetHf } = params;
+  const lt = (position.liquidationThresholdBps ?? 0) / 10000;
+  const ownWeighted = position.collateralUsd * lt;
+  const otherWeighted = params.weightedCollateralUsd - ownWeighted;
+  const otherDebt = params.debtUsd - position.debtUsd;
+
+  const denominator =
+    position.collateralAmount * lt - targetHf * position.debtAmount;
+  if (!Number.isFinite(denominator) || Math.abs(denominator) < 1e-12) {
+    return null;
+  }
+  const price = (targetHf * otherDebt - otherWeighted) / denominator;
+  if (!Number.isFinite(price) || price <= 0) return null;
+  return price;
+}
+
+function changePct(price: number | null, current: number) {
+  if (price === null || current <= 0) return null;
+  return (price / current - 1) * 100;
+}
+
+export function computeLiquidationPrices(params: {
+  positions: LiquidationPosition[];
+  hfMin: number;
+}): LiquidationPrice[] {
+  const positions = params.positions.filter(
+    (position) =>
+      position.priceInUsd > 0 &&
+      (position.collateralAmount > 0 || position.debtAmount > 0),
+  );
+  const weightedCollateralUsd = positions.reduce(
+    (acc, position) =>
+      acc +
+      position.collateralUsd *
+        ((position.liquidationThresholdBps ?? 0) / 10000),
+    0,
+  );
+  const debtUsd = positions.reduce(
+    (acc, position) => acc + position.debtUsd,
+    0,
+  );
+  if (debtUsd <= 0) return [];
+
+  return positions.map((position) => {
+    const liquidationPrice = priceForHealthFactor({
+      position,
+      weightedCollateralUsd,
+      debtUsd,
+      targetHf: 1,
+    });
+    const hfMinPrice = priceForHealthFactor({
+      position,
+      weightedCollateralUsd,
+      debtUsd,
+      targetHf: params.hfMin,
+    });
+    const role =
+      position.collateralAmount > 0 && position.debtAmount > 0
+        ? "both"
+        : position.collateralAmount > 0
+          ? "collateral"
+          : "debt";
+
+    return {
+      symbol: position.symbol,
+      role,
+      priceInUsd: position.priceInUsd,
+      liquidationPrice,
+      liquidationChangePct: changePct(liquidationPrice, position.priceInUsd),
+      hfMinPrice,
+      hfMinChangePct: changePct(hfMinPrice, position.priceInUsd),
+    };
+  });
+}
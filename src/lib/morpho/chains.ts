@@ -0,0 +1,26 @@
+import type { AaveChain } from "@/lib/aave/addresses";
+
+export type MorphoChain = Extract<AaveChain, "ethereum" | "base">;
+
+export const SUPPORTED_MORPHO_CHAINS: MorphoChain[] = ["ethereum", "base"];
+
+export const DEFAULT_MORPHO_CHAIN: MorphoChain = "ethereum";
+
+// Morpho Blue é um singleton com o mesmo endereço nas duas chains
+export const MORPHO_BLUE_ADDRESS: `0x${string}` =
+  "0xBBBBBbbBBb9cC5e90e3b3Af64bdAF62C37EEFFCb";
+
+export function parseMorphoChain(value: string | null): MorphoChain | null {
+  if (!value) return null;
+  return SUPPORTED_MORPHO_CHAINS.includes(value as MorphoChain)
+    ? (value as MorphoChain)
+    : null;
+}
+
+/** Market id (bytes32) de um market isolado do Morpho Blue. */
+export function parseMorphoMarketId(
+  value: string | null | undefined,
+): `0x${string}` | null {
+  if (!value) return null;
+  return /^0x[0-9a-fA-F]{64}$/.test(value) ? (value as `0x${string}`) : null;
+}
@@ -0,0 +1,9 @@
+import { DEFAULT_MORPHO_CHAIN, MorphoChain } from "@/lib/morpho/chains";
+import { getRpcClient } from "@/lib/rpc/client";
+
+// Mesmos RPCs do registo de chains Aave (ETHEREUM_RPC_URL, BASE_RPC_URL)
+export function getMorphoPublicClient(
+  chain: MorphoChain = DEFAULT_MORPHO_CHAIN,
+) {
+  return getRpcClient(chain);
+}
@@ -0,0 +1,91 @@
+const marketParamsComponents = [
+  { name: "loanToken", type: "address" },
+  { name: "collateralToken", type: "address" },
+  { name: "oracle", type: "address" },
+  { name: "irm", type: "address" },
+  { name: "lltv", type: "uint256" },
+] as const;
+
+const marketComponents = [
+  { name: "totalSupplyAssets", type: "uint128" },
+  { name: "totalSupplyShares", type: "uint128" },
+  { name: "totalBorrowAssets", type: "uint128" },
+  { name: "totalBorrowShares", type: "uint128" },
+  { name: "lastUpdate", type: "uint128" },
+  { name: "fee", type: "uint128" },
+] as const;
+
+export const morphoBlueAbi = [
+  {
+    type: "function",
+    name: "position",
+    stateMutability: "view",
+    inputs: [
+      { name: "id", type: "bytes32" },
+      { name: "user", type: "address" },
+    ],
+    outputs: [
+      { name: "supplyShares", type: "uint256" },
+      { name: "borrowShares", type: "uint128" },
+      { name: "collateral", type: "uint128" },
+    ],
+  },
+  {
+    type: "function",
+    name: "market",
+    stateMutability: "view",
+    inputs: [{ name: "id", type: "bytes32" }],
+    outputs: marketComponents,
+  },
+  {
+    type: "function",
+    name: "idToMarketParams",
+    stateMutability: "view",
+    inputs: [{ name: "id", type: "bytes32" }],
+    outputs: marketParamsComponents,
+  },
+] as const;
+
+export const morphoOracleAbi = [
+  {
+    type: "function",
+    name: "price",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ type: "uint256" }],
+  },
+] as const;
+
+export const morphoIrmAbi = [
+  {
+    type: "function",
+    name: "borrowRateView",
+    stateMutability: "view",
+    inputs: [
+      {
+        name: "marketParams",
+        type: "tuple",
+        components: marketParamsComponents,
+      },
+      { name: "market", type: "tuple", components: marketComponents },
+    ],
+    outputs: [{ type: "uint256" }],
+  },
+] as const;
+
+export const erc20Abi = [
+  {
+    type: "function",
+    name: "symbol",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ type: "string" }],
+  },
+  {
+    type: "function",
+    name: "decimals",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ type: "uint8" }],
+  },
+] as const;
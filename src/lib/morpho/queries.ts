@@ -0,0 +1,358 @@
+import { formatUnits } from "viem";
+
+import { withCache } from "@/lib/cache";
+import { fetchHistoricalTokenPriceUsd } from "@/lib/history/prices";
+import {
+  DEFAULT_MORPHO_CHAIN,
+  MORPHO_BLUE_ADDRESS,
+  MorphoChain,
+} from "@/lib/morpho/chains";
+import { getMorphoPublicClient } from "@/lib/morpho/client";
+import {
+  erc20Abi,
+  morphoBlueAbi,
+  morphoIrmAbi,
+  morphoOracleAbi,
+} from "@/lib/morpho/morphoAbi";
+import { isStablecoin } from "@/lib/priceShocks";
+import { rpcCacheKey } from "@/lib/rpc/context";
+
+const PARAMS_TTL = 60 * 60 * 1000;
+const MARKET_TTL = 60 * 1000;
+const SECONDS_PER_YEAR = 60 * 60 * 24 * 365;
+const WAD = BigInt(10) ** BigInt(18);
+const ORACLE_PRICE_SCALE = 1e36;
+// Shares virtuais do Morpho Blue (SharesMathLib)
+const VIRTUAL_SHARES = BigInt(10) ** BigInt(6);
+const VIRTUAL_ASSETS = BigInt(1);
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+function toAssetsDown(
+  shares: bigint,
+  totalAssets: bigint,
+  totalShares: bigint,
+) {
+  return (
+    (shares * (totalAssets + VIRTUAL_ASSETS)) / (totalShares + VIRTUAL_SHARES)
+  );
+}
+
+function toAssetsUp(shares: bigint, totalAssets: bigint, totalShares: bigint) {
+  const denominator = totalShares + VIRTUAL_SHARES;
+  return (
+    (shares * (totalAssets + VIRTUAL_ASSETS) + denominator - BigInt(1)) /
+    denominator
+  );
+}
+
+// Aproximação de Taylor (3 termos) de e^(rate·elapsed) - 1, como no contrato
+function wTaylorCompounded(rate: bigint, elapsed: bigint) {
+  const first = rate * elapsed;
+  const second = (first * first) / (BigInt(2) * WAD);
+  const third = (second * first) / (BigInt(3) * WAD);
+  return first + second + third;
+}
+
+async function fetchMarketParams(chain: MorphoChain, marketId: `0x${string}`) {
+  return withCache(
+    rpcCacheKey(chain, `morpho:params:${chain}:${marketId}`),
+    PARAMS_TTL,
+    async () => {
+      const client = getMorphoPublicClient(chain);
+      const [loanToken, collateralToken, oracle, irm, lltv] =
+        await client.readContract({
+          address: MORPHO_BLUE_ADDRESS,
+          abi: morphoBlueAbi,
+          functionName: "idToMarketParams",
+          args: [marketId],
+        });
+      if (loanToken === ZERO_ADDRESS) {
+        throw new Error(`Unknown Morpho market: ${chain}/${marketId}`);
+      }
+      const readToken = async (token: `0x${string}`) => {
+        if (token === ZERO_ADDRESS) return { symbol: "-", decimals: 18 };
+        const [symbol, decimals] = await Promise.all([
+          client.readContract({
+            address: token,
+            abi: erc20Abi,
+            functionName: "symbol",
+          }),
+          client.readContract({
+            address: token,
+            abi: erc20Abi,
+            functionName: "decimals",
+          }),
+        ]);
+        return { symbol, decimals: Number(decimals) };
+      };
+      const [loan, collateral] = await Promise.all([
+        readToken(loanToken),
+        readToken(collateralToken),
+      ]);
+      return {
+        marketParams: { loanToken, collateralToken, oracle, irm, lltv },
+        loanSymbol: loan.symbol,
+        loanDecimals: loan.decimals,
+        collateralSymbol: collateral.symbol,
+        collateralDecimals: collateral.decimals,
+      };
+    },
+  );
+}
+
+async function fetchLoanPriceUsd(
+  chain: MorphoChain,
+  token: `0x${string}`,
+  symbol: string,
+) {
+  if (isStablecoin(symbol)) return 1;
+  const price = await fetchHistoricalTokenPriceUsd({
+    chain,
+    tokenAddress: token,
+    timestampSec: Math.floor(Date.now() / 1000),
+  });
+  return price ?? 0;
+}
+
+/**
+ * Estado de um market isolado com juros acumulados até agora, preço do
+ * oracle (colateral em loan token) e taxas da IRM.
+ */
+export async function fetchMorphoMarket(
+  chain: MorphoChain = DEFAULT_MORPHO_CHAIN,
+  marketId: `0x${string}`,
+) {
+  return withCache(
+    rpcCacheKey(chain, `morpho:market:${chain}:${marketId}`),
+    MARKET_TTL,
+    async () => {
+      const client = getMorphoPublicClient(chain);
+      const params = await fetchMarketParams(chain, marketId);
+      const { marketParams } = params;
+
+      const [state, oraclePrice] = await Promise.all([
+        client.readContract({
+          address: MORPHO_BLUE_ADDRESS,
+          abi: morphoBlueAbi,
+          functionName: "market",
+          args: [marketId],
+        }),
+        marketParams.oracle === ZERO_ADDRESS
+          ? Promise.resolve(BigInt(0))
+          : client.readContract({
+              address: marketParams.oracle,
+              abi: morphoOracleAbi,
+              functionName: "price",
+            }),
+      ]);
+      const [
+        totalSupplyAssets,
+        totalSupplyShares,
+        totalBorrowAssets,
+        totalBorrowShares,
+        lastUpdate,
+        fee,
+      ] = state;
+
+      let borrowRate = BigInt(0);
+      if (marketParams.irm !== ZERO_ADDRESS) {
+        try {
+          borrowRate = await client.readContract({
+            address: marketParams.irm,
+            abi: morphoIrmAbi,
+            functionName: "borrowRateView",
+            args: [
+              marketParams,
+              {
+                totalSupplyAssets,
+                totalSupplyShares,
+                totalBorrowAssets,
+                totalBorrowShares,
+                lastUpdate,
+                fee,
+              },
+            ],
+          });
+        } catch (error) {
+          console.warn("morpho.irm", chain, marketId, error);
+        }
+      }
+
+      const elapsed = BigInt(Math.floor(Date.now() / 1000)) - lastUpdate;
+      const interest =
+        elapsed > BigInt(0)
+          ? (totalBorrowAssets * wTaylorCompounded(borrowRate, elapsed)) / WAD
+          : BigInt(0);
+      const supplyAssets = totalSupplyAssets + interest;
+      const borrowAssets = totalBorrowAssets + interest;
+
+      const utilization =
+        supplyAssets > BigInt(0)
+          ? Number(borrowAssets) / Number(supplyAssets)
+          : 0;
+      const borrowApr = (Number(borrowRate) / 1e18) * SECONDS_PER_YEAR * 100;
+      const supplyApr = borrowApr * utilization * (1 - Number(fee) / 1e18);
+
+      const loanPriceUsd = await fetchLoanPriceUsd(
+        chain,
+        marketParams.loanToken,
+        params.loanSymbol,
+      );
+      // price() = loan por colateral, escalado por 1e36 e pelas decimals
+      const collateralPriceInLoan =
+        (Number(oraclePrice) / ORACLE_PRICE_SCALE) *
+        10 ** (params.collateralDecimals - params.loanDecimals);
+
+      return {
+        ...params,
+        id: marketId,
+        label: `${params.collateralSymbol}/${params.loanSymbol}`,
+        lltvBps: Number(marketParams.lltv) / 1e14,
+        oraclePrice,
+        totalSupplyAssets: supplyAssets,
+        totalSupplyShares,
+        totalBorrowAssets: borrowAssets,
+        totalBorrowShares,
+        availableLiquidity:
+          supplyAssets > borrowAssets ? supplyAssets - borrowAssets : BigInt(0),
+        utilization,
+        borrowApr,
+        supplyApr,
+        loanPriceUsd,
+        collateralPriceUsd: collateralPriceInLoan * loanPriceUsd,
+      };
+    },
+  );
+}
+
+export async function fetchMorphoUserReserves(
+  address: `0x${string}`,
+  chain: MorphoChain = DEFAULT_MORPHO_CHAIN,
+  marketId: `0x${string}`,
+) {
+  const client = getMorphoPublicClient(chain);
+  const [market, position] = await Promise.all([
+    fetchMorphoMarket(chain, marketId),
+    client.readContract({
+      address: MORPHO_BLUE_ADDRESS,
+      abi: morphoBlueAbi,
+      functionName: "position",
+      args: [marketId, address],
+    }),
+  ]);
+  const [supplyShares, borrowShares, collateral] = position;
+
+  const supplied = toAssetsDown(
+    supplyShares,
+    market.totalSupplyAssets,
+    market.totalSupplyShares,
+  );
+  const borrowed = toAssetsUp(
+    borrowShares,
+    market.totalBorrowAssets,
+    market.totalBorrowShares,
+  );
+
+  const collateralAmount = Number(
+    formatUnits(collateral, market.collateralDecimals),
+  );
+  const supplyAmount = Number(formatUnits(supplied, market.loanDecimals));
+  const debtAmount = Number(formatUnits(borrowed, market.loanDecimals));
+
+  const collateralEntry =
+    collateral > BigInt(0)
+      ? {
+          symbol: market.collateralSymbol,
+          underlyingAsset: market.marketParams.collateralToken,
+          collateralAmount,
+          collateralUsd: collateralAmount * market.collateralPriceUsd,
+          debtAmount: 0,
+          debtUsd: 0,
+          priceInUsd: market.collateralPriceUsd,
+          liquidationThresholdBps: market.lltvBps,
+          supplyApr: 0,
+        }
+      : null;
+  // Supply do loan token rende juros mas não conta como colateral
+  const supplyEntry =
+    supplied > BigInt(0)
+      ? {
+          symbol: market.loanSymbol,
+          underlyingAsset: market.marketParams.loanToken,
+          collateralAmount: supplyAmount,
+          collateralUsd: supplyAmount * market.loanPriceUsd,
+          debtAmount: 0,
+          debtUsd: 0,
+          priceInUsd: market.loanPriceUsd,
+          liquidationThresholdBps: 0,
+          supplyApr: market.supplyApr,
+        }
+      : null;
+  const debtEntry =
+    borrowed > BigInt(0)
+      ? {
+          symbol: market.loanSymbol,
+          underlyingAsset: market.marketParams.loanToken,
+          collateralAmount: 0,
+          collateralUsd: 0,
+          debtAmount,
+          debtUsd: debtAmount * market.loanPriceUsd,
+          priceInUsd: market.loanPriceUsd,
+          liquidationThresholdBps: 0,
+          borrowApr: market.borrowApr,
+        }
+      : null;
+
+  return {
+    reserves: [
+      ...(collateralEntry ? [collateralEntry] : []),
+      ...(supplyEntry ? [supplyEntry] : []),
+      ...(debtEntry ? [debtEntry] : []),
+    ],
+    collateral,
+    borrowed,
+    market,
+  };
+}
+
+export async function fetchMorphoAccountData(
+  address: `0x${string}`,
+  chain: MorphoChain = DEFAULT_MORPHO_CHAIN,
+  marketId: `0x${string}`,
+) {
+  const { reserves, collateral, borrowed, market } =
+    await fetchMorphoUserReserves(address, chain, marketId);
+
+  const totalCollateralUsd = reserves.reduce(
+    (acc, entry) =>
+      acc + (entry.liquidationThresholdBps > 0 ? entry.collateralUsd : 0),
+    0,
+  );
+  const totalDebtUsd = reserves.reduce((acc, entry) => acc + entry.debtUsd, 0);
+  const lltv = market.lltvBps / 10000;
+
+  // HF em unidades do loan token: não depende do preço USD do loan token
+  const collateralInLoan =
+    (Number(collateral) * Number(market.oraclePrice)) / ORACLE_PRICE_SCALE;
+  const healthFactorValue =
+    borrowed > BigInt(0)
+      ? (collateralInLoan * lltv) / Number(borrowed)
+      : Infinity;
+
+  return {
+    totalCollateralUsd,
+    totalDebtUsd,
+    availableBorrowsUsd: Math.max(0, totalCollateralUsd * lltv - totalDebtUsd),
+    currentLiquidationThreshold: market.lltvBps,
+    ltv:
+      totalCollateralUsd > 0 ? (totalDebtUsd / totalCollateralUsd) * 10000 : 0,
+    healthFactorValue,
+    market: {
+      id: market.id,
+      label: market.label,
+      loanSymbol: market.loanSymbol,
+      collateralSymbol: market.collateralSymbol,
+      lltvBps: market.lltvBps,
+    },
+  };
+}
@@ -0,0 +1,65 @@
+import { httpsUrlField } from "@/lib/notifications/config";
+import type {
+  NotificationChannel,
+  NotificationChannelType,
+  NotificationMessage,
+} from "@/lib/notifications/types";
+import { safeFetch } from "@/lib/safeFetch";
+
+const CHAT_TIMEOUT_MS = 10_000;
+
+export type ChatWebhookConfig = { url: string };
+
+/**
+ * Incoming webhooks de Discord e Slack: o mesmo POST JSON, só mudam o campo
+ * do texto, o limite de tamanho e os hosts aceites.
+ */
+function createChatWebhookChannel(params: {
+  type: NotificationChannelType;
+  label: string;
+  hosts: RegExp;
+  body: (text: string) => Record<string, unknown>;
+  maxLength: number;
+}): NotificationChannel<ChatWebhookConfig> {
+  return {
+    type: params.type,
+    label: params.label,
+    parseConfig(input) {
+      const url = httpsUrlField(input, "url", params.hosts);
+      return url ? { url } : null;
+    },
+    async send(config, message: NotificationMessage) {
+      const text = `${message.subject}\n${message.text}`.slice(
+        0,
+        params.maxLength,
+      );
+      const response = await safeFetch(config.url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(params.body(text)),
+        cache: "no-store",
+        signal: AbortSignal.timeout(CHAT_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        throw new Error(`${params.label} HTTP ${response.status}`);
+      }
+    },
+  };
+}
+
+export const discordChannel = createChatWebhookChannel({
+  type: "discord",
+  label: "Discord",
+  hosts:
+    /^(discord\.com|discordapp\.com|ptb\.discord\.com|canary\.discord\.com)$/,
+  body: (content) => ({ content }),
+  maxLength: 2000,
+});
+
+export const slackChannel = createChatWebhookChannel({
+  type: "slack",
+  label: "Slack",
+  hosts: /^hooks\.slack\.com$/,
+  body: (text) => ({ text }),
+  maxLength: 40_000,
+});
@@ -0,0 +1,29 @@
+import { isPrivateHost } from "@/lib/safeFetch";
+
+const MAX_FIELD_LENGTH = 512;
+
+/** Campo de texto da configuração de um canal (trim, não vazio). */
+export function stringField(input: unknown, key: string) {
+  if (!input || typeof input !== "object") return null;
+  const value = (input as Record<string, unknown>)[key];
+  if (typeof value !== "string") return null;
+  const trimmed = value.trim();
+  return trimmed && trimmed.length <= MAX_FIELD_LENGTH ? trimmed : null;
+}
+
+/**
+ * URL https com host público; `hosts` restringe aos domínios do serviço
+ * (ex.: webhooks Discord/Slack).
+ */
+export function httpsUrlField(input: unknown, key: string, hosts?: RegExp) {
+  const value = stringField(input, key);
+  if (!value) return null;
+  try {
+    const url = new URL(value);
+    if (url.protocol !== "https:" || isPrivateHost(url.hostname)) return null;
+    if (hosts && !hosts.test(url.hostname)) return null;
+    return url.toString();
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,146 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import type { AlertItem } from "@/lib/alerts/types";
+import { discordChannel, slackChannel } from "@/lib/notifications/chat";
+import { emailChannel } from "@/lib/notifications/smtp";
+import { telegramChannel } from "@/lib/notifications/telegram";
+import { buildAlertMessage } from "@/lib/notifications/templates";
+import type {
+  DeliveryStatus,
+  NotificationChannel,
+  NotificationChannelRow,
+  NotificationChannelType,
+  NotificationMessage,
+} from "@/lib/notifications/types";
+import { webhookChannel } from "@/lib/notifications/webhook";
+
+export type {
+  NotificationChannelRow,
+  NotificationChannelType,
+  NotificationMessage,
+} from "@/lib/notifications/types";
+export { NOTIFICATION_CHANNEL_TYPES } from "@/lib/notifications/types";
+
+const CHANNELS: Record<NotificationChannelType, NotificationChannel> = {
+  email: emailChannel,
+  telegram: telegramChannel,
+  discord: discordChannel,
+  slack: slackChannel,
+  webhook: webhookChannel,
+};
+
+export function getNotificationChannel(type: unknown) {
+  return typeof type === "string" && Object.hasOwn(CHANNELS, type)
+    ? CHANNELS[type as NotificationChannelType]
+    : null;
+}
+
+/** Envia por um canal guardado; a config é validada de novo antes de usar. */
+export async function sendToChannel(
+  channel: Pick<NotificationChannelRow, "type" | "config" | "user_id">,
+  message: NotificationMessage,
+) {
+  const handler = getNotificationChannel(channel.type);
+  const config = handler?.parseConfig(channel.config);
+  if (!handler || !config) {
+    throw new Error("Configuração do canal inválida.");
+  }
+  await handler.send(config, message, { userId: channel.user_id });
+}
+
+type DeliveryRow = {
+  user_id: string;
+  channel_id: string;
+  channel_type: NotificationChannelType;
+  wallet_id: string | null;
+  alert_kind: string | null;
+  subject: string;
+  status: DeliveryStatus;
+  error: string | null;
+};
+
+/**
+ * Envia cada alerta por todos os canais ativos do dono da wallet e grava o
+ * resultado em `notification_deliveries`. Falhas num canal não bloqueiam os
+ * outros. `failedAlerts` tem os alertas que nenhum canal aceitou (o user tinha
+ * canais e falharam todos), para o caller os repetir no próximo poll.
+ */
+export async function deliverAlerts(
+  supabase: SupabaseClient,
+  alerts: AlertItem[],
+) {
+  const summary = { sent: 0, failed: 0 };
+  const failedAlerts = new Set<AlertItem>();
+  if (!alerts.length) return { summary, failedAlerts };
+
+  const userIds = Array.from(new Set(alerts.map((alert) => alert.userId)));
+  const { data, error } = await supabase
+    .from("notification_channels")
+    .select("id,user_id,type,name,config,enabled")
+    .eq("enabled", true)
+    .in("user_id", userIds);
+  if (error) {
+    console.error("notifications.channels", error);
+    return { summary, failedAlerts: new Set(alerts) };
+  }
+  const channels = (data ?? []) as NotificationChannelRow[];
+
+  const deliveries: DeliveryRow[] = [];
+  for (const alert of alerts) {
+    const message = buildAlertMessage(alert);
+    const userChannels = channels.filter(
+      (channel) => channel.user_id === alert.userId,
+    );
+    const results = await Promise.all(
+      userChannels.map(async (channel): Promise<DeliveryRow> => {
+        const base = {
+          user_id: alert.userId,
+          channel_id: channel.id,
+          channel_type: channel.type,
+          wallet_id: alert.walletId,
+          alert_kind: alert.kind,
+          subject: message.subject,
+        };
+        try {
+          await sendToChannel(channel, message);
+          return { ...base, status: "sent", error: null };
+        } catch (sendError) {
+          console.warn(
+            "notifications.send",
+            channel.type,
+            channel.id,
+            sendError,
+          );
+          return {
+            ...base,
+            status: "failed",
+            error:
+              sendError instanceof Error
+                ? sendError.message
+                : String(sendError),
+          };
+        }
+      }),
+    );
+    deliveries.push(...results);
+    if (
+      results.length > 0 &&
+      results.every((delivery) => delivery.status === "failed")
+    ) {
+      failedAlerts.add(alert);
+    }
+  }
+
+  deliveries.forEach((delivery) => {
+    summary[delivery.status] += 1;
+  });
+  if (deliveries.length) {
+    const { error: logError } = await supabase
+      .from("notification_deliveries")
+      .insert(deliveries);
+    if (logError) {
+      console.error("notifications.log", logError);
+    }
+  }
+  return { summary, failedAlerts };
+}
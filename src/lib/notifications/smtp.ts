@@ -0,0 +1,58 @@
+import nodemailer, { Transporter } from "nodemailer";
+
+import { stringField } from "@/lib/notifications/config";
+import type { NotificationChannel } from "@/lib/notifications/types";
+
+const SMTP_TIMEOUT_MS = 15_000;
+const EMAIL_PATTERN = /^[^\s@<>]+@[^\s@<>]+\.[^\s@<>]+$/;
+
+export type EmailConfig = { to: string };
+
+let transporter: Transporter | null = null;
+
+function getTransporter() {
+  if (transporter) return transporter;
+  const host = process.env.SMTP_HOST ?? "";
+  const from = process.env.SMTP_FROM ?? process.env.SMTP_USER ?? "";
+  if (!host || !from) {
+    throw new Error("Missing SMTP_HOST/SMTP_FROM configuration.");
+  }
+  const port = Number(process.env.SMTP_PORT ?? 587);
+  const user = process.env.SMTP_USER ?? "";
+  // 465 = TLS implícito; nas outras portas STARTTLS
+  const secure = process.env.SMTP_SECURE
+    ? process.env.SMTP_SECURE === "true"
+    : port === 465;
+  transporter = nodemailer.createTransport(
+    {
+      host,
+      port,
+      secure,
+      // Com credenciais, sem STARTTLS não há AUTH: a password nunca vai em claro
+      requireTLS: !secure && Boolean(user),
+      auth: user ? { user, pass: process.env.SMTP_PASS ?? "" } : undefined,
+      connectionTimeout: SMTP_TIMEOUT_MS,
+      greetingTimeout: SMTP_TIMEOUT_MS,
+      socketTimeout: SMTP_TIMEOUT_MS,
+    },
+    { from },
+  );
+  return transporter;
+}
+
+/** Email via SMTP do servidor (SMTP_*); o user só escolhe o destinatário. */
+export const emailChannel: NotificationChannel<EmailConfig> = {
+  type: "email",
+  label: "Email",
+  parseConfig(input) {
+    const to = stringField(input, "to");
+    return to && EMAIL_PATTERN.test(to) ? { to } : null;
+  },
+  async send(config, message) {
+    await getTransporter().sendMail({
+      to: config.to,
+      subject: message.subject,
+      text: message.text,
+    });
+  },
+};
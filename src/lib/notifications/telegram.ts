@@ -0,0 +1,52 @@
+import { stringField } from "@/lib/notifications/config";
+import type { NotificationChannel } from "@/lib/notifications/types";
+
+const TELEGRAM_TIMEOUT_MS = 10_000;
+// Limite do sendMessage
+const MAX_MESSAGE_LENGTH = 4096;
+
+export type TelegramConfig = { chatId: string };
+
+/** Bot do servidor (TELEGRAM_BOT_TOKEN); o user indica o chat id. */
+export const telegramChannel: NotificationChannel<TelegramConfig> = {
+  type: "telegram",
+  label: "Telegram",
+  parseConfig(input) {
+    const chatId = stringField(input, "chatId");
+    // id numérico (pode ser negativo em grupos) ou @canal
+    return chatId && /^(-?\d+|@[A-Za-z0-9_]{5,})$/.test(chatId)
+      ? { chatId }
+      : null;
+  },
+  async send(config, message) {
+    const token = process.env.TELEGRAM_BOT_TOKEN ?? "";
+    if (!token) {
+      throw new Error("Missing TELEGRAM_BOT_TOKEN.");
+    }
+    const response = await fetch(
+      `https://api.telegram.org/bot${token}/sendMessage`,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          chat_id: config.chatId,
+          text: `${message.subject}\n\n${message.text}`.slice(
+            0,
+            MAX_MESSAGE_LENGTH,
+          ),
+          disable_web_page_preview: true,
+        }),
+        cache: "no-store",
+        signal: AbortSignal.timeout(TELEGRAM_TIMEOUT_MS),
+      },
+    );
+    if (!response.ok) {
+      const payload = (await response.json().catch(() => null)) as {
+        description?: string;
+      } | null;
+      throw new Error(
+        `Telegram HTTP ${response.status}: ${payload?.description ?? ""}`.trim(),
+      );
+    }
+  },
+};
@@ -0,0 +1,84 @@
+import type { AlertKind } from "@/lib/alerts/engine";
+import type { AlertItem } from "@/lib/alerts/types";
+import { formatNumber, formatUsd } from "@/lib/format";
+import type { NotificationMessage } from "@/lib/notifications/types";
+import { PROTOCOL_LABELS } from "@/lib/protocols";
+
+export const ALERT_KIND_LABEL: Record<AlertKind, string> = {
+  triggered: "Novo alerta",
+  escalated: "Alerta agravado",
+  reminder: "Lembrete",
+  resolved: "Resolvido",
+};
+
+function recommendationLines(recommendations: AlertItem["recommendations"]) {
+  const lines: string[] = [];
+  if (
+    "addCollateralUsd" in recommendations &&
+    recommendations.addCollateralUsd
+  ) {
+    lines.push(
+      `- Adicionar colateral: ${formatUsd(recommendations.addCollateralUsd)}`,
+    );
+  }
+  if ("repayDebtUsd" in recommendations && recommendations.repayDebtUsd) {
+    lines.push(`- Ou pagar dívida: ${formatUsd(recommendations.repayDebtUsd)}`);
+  }
+  if (
+    "withdrawCollateralUsd" in recommendations &&
+    recommendations.withdrawCollateralUsd
+  ) {
+    lines.push(
+      `- Retirar colateral: ${formatUsd(recommendations.withdrawCollateralUsd)}`,
+    );
+  }
+  if (
+    "additionalBorrowUsd" in recommendations &&
+    recommendations.additionalBorrowUsd
+  ) {
+    lines.push(
+      `- Ou borrow adicional: ${formatUsd(recommendations.additionalBorrowUsd)}`,
+    );
+  }
+  return lines;
+}
+
+/** Texto (email, Telegram, Discord, Slack) e payload JSON de um alerta do cron. */
+export function buildAlertMessage(alert: AlertItem): NotificationMessage {
+  const resolved = alert.kind === "resolved";
+  const hf = formatNumber(alert.hf, 2);
+  const { rule } = alert;
+  const subject = rule
+    ? `[${resolved ? "Resolvido" : "Regra"}] ${rule.name} · ${alert.name}`
+    : `[${resolved ? "Resolvido" : alert.status}] ${alert.name} · HF ${hf}`;
+
+  const lines = [
+    rule
+      ? `${ALERT_KIND_LABEL[alert.kind]}: regra "${rule.name}" ${resolved ? "deixou de se verificar" : "verificou-se"} (${rule.expression})`
+      : `${ALERT_KIND_LABEL[alert.kind]}: ${alert.previousStatus} → ${alert.status}`,
+    `Wallet: ${alert.name} (${alert.address})`,
+    `Protocolo: ${PROTOCOL_LABELS[alert.protocol]} · ${alert.chain}${alert.market ? ` · ${alert.market}` : ""}`,
+    `HF: ${hf} (alvo ${alert.hfMin} - ${alert.hfMax})`,
+    `Colateral: ${formatUsd(alert.collateralUsd)} · Dívida: ${formatUsd(alert.debtUsd)}`,
+  ];
+  // Recomendações só fazem sentido com o HF fora do intervalo
+  const recommendations =
+    resolved || alert.status === "OK"
+      ? []
+      : recommendationLines(alert.recommendations);
+  if (recommendations.length) {
+    lines.push("", "Recomendações:", ...recommendations);
+  }
+  if (alert.capWarnings.length) {
+    lines.push(
+      "",
+      ...alert.capWarnings.map((warning) => `⚠ ${warning.message}`),
+    );
+  }
+
+  return {
+    subject,
+    text: lines.join("\n"),
+    payload: { event: `${rule ? "rule" : "alert"}.${alert.kind}`, alert },
+  };
+}
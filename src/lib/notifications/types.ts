@@ -0,0 +1,42 @@
+export const NOTIFICATION_CHANNEL_TYPES = [
+  "email",
+  "telegram",
+  "discord",
+  "slack",
+  "webhook",
+] as const;
+
+export type NotificationChannelType =
+  (typeof NOTIFICATION_CHANNEL_TYPES)[number];
+
+/** Mensagem já renderizada; cada canal usa a parte que suporta. */
+export type NotificationMessage = {
+  subject: string;
+  text: string;
+  /** Corpo JSON do webhook genérico. */
+  payload: Record<string, unknown>;
+};
+
+export type NotificationChannel<C = Record<string, string>> = {
+  type: NotificationChannelType;
+  label: string;
+  /** Valida a configuração vinda do user; null = inválida. */
+  parseConfig(input: unknown): C | null;
+  send(
+    config: C,
+    message: NotificationMessage,
+    recipient: { userId: string },
+  ): Promise<void>;
+};
+
+/** Linha de `notification_channels`. */
+export type NotificationChannelRow = {
+  id: string;
+  user_id: string;
+  type: NotificationChannelType;
+  name: string;
+  config: Record<string, string>;
+  enabled: boolean;
+};
+
+export type DeliveryStatus = "sent" | "failed";
@@ -0,0 +1,31 @@
+import { httpsUrlField } from "@/lib/notifications/config";
+import type { NotificationChannel } from "@/lib/notifications/types";
+import { enqueueWebhook } from "@/lib/webhooks/outbox";
+
+export type WebhookConfig = { url: string };
+
+/**
+ * POST JSON para um URL do user, pelo outbox: assinado com o secret do user
+ * (Settings → Webhooks) e repetido com backoff se falhar.
+ */
+export const webhookChannel: NotificationChannel<WebhookConfig> = {
+  type: "webhook",
+  label: "Webhook",
+  parseConfig(input) {
+    const url = httpsUrlField(input, "url");
+    return url ? { url } : null;
+  },
+  async send(config, message, recipient) {
+    const delivery = await enqueueWebhook({
+      userId: recipient.userId,
+      url: config.url,
+      event: String(message.payload.event ?? "notification"),
+      payload: message.payload,
+    });
+    if (delivery.status !== "delivered") {
+      throw new Error(
+        `${delivery.last_error ?? "Webhook falhou"} (nova tentativa agendada no outbox)`,
+      );
+    }
+  },
+};
@@ -0,0 +1,124 @@
+import { riskState } from "@/lib/calculations";
+import { STABLECOIN_SYMBOLS } from "@/lib/constants";
+import type { LiquidationPosition } from "@/lib/liquidation";
+
+export type ShockMode = "manual" | "correlated";
+
+export type PriceShockScenario = {
+  id: string;
+  label: string;
+  /** Variação (%) aplicada a todos os assets não-stable. */
+  cryptoChangePct: number;
+  /** Variação (%) aplicada às stablecoins. */
+  stableChangePct: number;
+};
+
+export type PriceShockResult = {
+  collateralUsd: number;
+  debtUsd: number;
+  healthFactor: number;
+  liquidatable: boolean;
+  status: ReturnType<typeof riskState>;
+};
+
+export const PRICE_SHOCK_PRESETS: PriceShockScenario[] = [
+  {
+    id: "crypto-30",
+    label: "Crypto -30%, stables flat",
+    cryptoChangePct: -30,
+    stableChangePct: 0,
+  },
+  {
+    id: "crypto-50",
+    label: "Crypto -50%, stables flat",
+    cryptoChangePct: -50,
+    stableChangePct: 0,
+  },
+  {
+    id: "crypto+30",
+    label: "Crypto +30%, stables flat",
+    cryptoChangePct: 30,
+    stableChangePct: 0,
+  },
+  {
+    id: "depeg",
+    label: "Crypto -20%, stables -5%",
+    cryptoChangePct: -20,
+    stableChangePct: -5,
+  },
+];
+
+export function isStablecoin(symbol: string) {
+  return (STABLECOIN_SYMBOLS as readonly string[]).includes(
+    symbol.toUpperCase(),
+  );
+}
+
+/** Choques por asset a partir de um cenário crypto/stables. */
+export function scenarioShocks(
+  positions: Pick<LiquidationPosition, "symbol">[],
+  scenario: PriceShockScenario,
+) {
+  return Object.fromEntries(
+    positions.map((position) => [
+      position.symbol,
+      isStablecoin(position.symbol)
+        ? scenario.stableChangePct
+        : scenario.cryptoChangePct,
+    ]),
+  );
+}
+
+/**
+ * Modo correlacionado: cada asset move `marketChangePct × beta`. Sem beta
+ * definido, stables ficam a 0 e o resto acompanha o mercado (beta 1).
+ */
+export function correlatedShocks(
+  positions: Pick<LiquidationPosition, "symbol">[],
+  marketChangePct: number,
+  betas: Record<string, number> = {},
+) {
+  return Object.fromEntries(
+    positions.map((position) => {
+      const beta =
+        betas[position.symbol] ?? (isStablecoin(position.symbol) ? 0 : 1);
+      return [position.symbol, marketChangePct * beta];
+    }),
+  );
+}
+
+/**
+ * HF com choques simultâneos de preço (% por símbolo) em colateral e dívida.
+ * Preços não podem descer abaixo de 0.
+ */
+export function simulatePriceShocks(params: {
+  positions: LiquidationPosition[];
+  shocks: Record<string, number>;
+  hfMin: number;
+}): PriceShockResult {
+  let collateralUsd = 0;
+  let weightedCollateralUsd = 0;
+  let debtUsd = 0;
+
+  params.positions.forEach((position) => {
+    const multiplier = Math.max(
+      0,
+      1 + (params.shocks[position.symbol] ?? 0) / 100,
+    );
+    const shockedCollateral = position.collateralUsd * multiplier;
+    collateralUsd += shockedCollateral;
+    weightedCollateralUsd +=
+      shockedCollateral * ((position.liquidationThresholdBps ?? 0) / 10000);
+    debtUsd += position.debtUsd * multiplier;
+  });
+
+  const healthFactor = debtUsd > 0 ? weightedCollateralUsd / debtUsd : Infinity;
+
+  return {
+    collateralUsd,
+    debtUsd,
+    healthFactor,
+    liquidatable: healthFactor < 1,
+    status: riskState(healthFactor, params.hfMin),
+  };
+}
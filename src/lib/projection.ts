@@ -0,0 +1,123 @@
+import { aprToApy, compoundGrowth } from "@/lib/calculations";
+import type { LiquidationPosition } from "@/lib/liquidation";
+
+export const PROJECTION_HORIZONS_DAYS = [7, 30, 90, 365] as const;
+
+// Procura o cruzamento do hf_min até 10 anos, mesmo fora do gráfico
+const MAX_CROSSING_DAYS = 3650;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type AccrualPosition = LiquidationPosition & {
+  /** APR (%) de supply do asset. */
+  supplyApr?: number;
+  /** APR (%) variável de borrow do asset. */
+  borrowApr?: number;
+};
+
+export type ProjectionPoint = {
+  day: number;
+  timestamp: number;
+  collateralUsd: number;
+  debtUsd: number;
+  healthFactor: number;
+};
+
+function growth(aprPct: number | undefined, days: number) {
+  // Capitalização por segundo, como no Aave/Comet
+  return compoundGrowth(aprPct ?? 0, days);
+}
+
+export function projectPositionAt(
+  positions: AccrualPosition[],
+  day: number,
+  nowMs: number,
+): ProjectionPoint {
+  let collateralUsd = 0;
+  let weightedCollateralUsd = 0;
+  let debtUsd = 0;
+
+  positions.forEach((position) => {
+    const collateral = position.collateralUsd * growth(position.supplyApr, day);
+    collateralUsd += collateral;
+    weightedCollateralUsd +=
+      collateral * ((position.liquidationThresholdBps ?? 0) / 10000);
+    debtUsd += position.debtUsd * growth(position.borrowApr, day);
+  });
+
+  return {
+    day,
+    timestamp: nowMs + day * DAY_MS,
+    collateralUsd,
+    debtUsd,
+    healthFactor: debtUsd > 0 ? weightedCollateralUsd / debtUsd : Infinity,
+  };
+}
+
+/**
+ * Evolução de HF, dívida e colateral só pelo acumular de juros (preços
+ * constantes), com pontos diários até `horizonDays` e o dia em que o HF
+ * cruza `hfMin` e 1.0.
+ */
+export function projectInterestAccrual(params: {
+  positions: AccrualPosition[];
+  hfMin: number;
+  horizonDays?: number;
+  nowMs?: number;
+}) {
+  const nowMs = params.nowMs ?? Date.now();
+  const horizonDays =
+    params.horizonDays ??
+    PROJECTION_HORIZONS_DAYS[PROJECTION_HORIZONS_DAYS.length - 1];
+  const positions = params.positions.filter(
+    (position) => position.collateralUsd > 0 || position.debtUsd > 0,
+  );
+
+  const points = Array.from({ length: horizonDays + 1 }, (_, day) =>
+    projectPositionAt(positions, day, nowMs),
+  );
+
+  const horizons = PROJECTION_HORIZONS_DAYS.map((days) =>
+    projectPositionAt(positions, days, nowMs),
+  );
+
+  let hfMinCrossing: ProjectionPoint | null = null;
+  let liquidation: ProjectionPoint | null = null;
+  const start = points[0];
+  const alreadyBelowHfMin = start.healthFactor < params.hfMin;
+  if (start.debtUsd > 0 && start.healthFactor >= 1) {
+    for (let day = 1; day <= MAX_CROSSING_DAYS; day += 1) {
+      const point = projectPositionAt(positions, day, nowMs);
+      if (
+        !hfMinCrossing &&
+        !alreadyBelowHfMin &&
+        point.healthFactor < params.hfMin
+      ) {
+        hfMinCrossing = point;
+      }
+      if (point.healthFactor < 1) {
+        liquidation = point;
+        break;
+      }
+    }
+  }
+
+  // Taxas usadas na projeção, nas duas formas (a UI mostra a preferida)
+  const rates = positions.map((position) => ({
+    symbol: position.symbol,
+    supplyApr: position.supplyApr ?? 0,
+    supplyApy: aprToApy(position.supplyApr ?? 0),
+    borrowApr: position.borrowApr ?? 0,
+    borrowApy: aprToApy(position.borrowApr ?? 0),
+  }));
+
+  return {
+    points,
+    horizons,
+    rates,
+    alreadyBelowHfMin,
+    hfMinCrossingDay: hfMinCrossing?.day ?? null,
+    hfMinCrossingAt: hfMinCrossing?.timestamp ?? null,
+    liquidationDay: liquidation?.day ?? null,
+    liquidationAt: liquidation?.timestamp ?? null,
+  };
+}
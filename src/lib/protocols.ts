@@ -1,10 +1,40 @@
-export type Protocol = "aave" | "compound";
+export type Protocol = "aave" | "spark" | "compound" | "morpho";
 
-export const SUPPORTED_PROTOCOLS: Protocol[] = ["aave", "compound"];
+export const SUPPORTED_PROTOCOLS: Protocol[] = [
+  "aave",
+  "spark",
+  "compound",
+  "morpho",
+];
 
 export const DEFAULT_PROTOCOL: Protocol = "aave";
 
 export const PROTOCOL_LABELS: Record<Protocol, string> = {
   aave: "Aave",
+  spark: "Spark",
   compound: "Compound",
+  morpho: "Morpho",
 };
+
+/** Aave v3 e forks com a mesma Pool / data providers (readers partilhados). */
+export type AaveFork = Extract<Protocol, "aave" | "spark">;
+
+export const AAVE_FORKS: AaveFork[] = ["aave", "spark"];
+
+export function isAaveFork(
+  protocol: string | null | undefined,
+): protocol is AaveFork {
+  return AAVE_FORKS.includes(protocol as AaveFork);
+}
+
+/** Protocolos com histórico de movimentos (sync manual e aba de eventos). */
+export function hasEventHistory(protocol: Protocol) {
+  return isAaveFork(protocol);
+}
+
+/** Família das rotas /api/<família>/... de cada protocolo. */
+export type ProtocolApi = "aave" | "compound" | "morpho";
+
+export function getProtocolApi(protocol: Protocol): ProtocolApi {
+  return isAaveFork(protocol) ? "aave" : protocol;
+}
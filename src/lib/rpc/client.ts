@@ -0,0 +1,122 @@
+import { createPublicClient, fallback, http } from "viem";
+
+import type { AaveChain } from "@/lib/aave/addresses";
+import { AAVE_CHAINS } from "@/lib/aave/chains";
+import { getRpcOverride } from "@/lib/rpc/context";
+import {
+  isRpcCoolingDown,
+  recordRpcFailure,
+  recordRpcSuccess,
+  RpcEndpointSource,
+} from "@/lib/rpc/health";
+import { createTokenBucket, TokenBucket } from "@/lib/rpc/rateLimit";
+import { safeFetch } from "@/lib/safeFetch";
+
+const DEFAULT_MAX_RPS = 10;
+const HTTP_RETRY_COUNT = 2;
+// viem faz backoff exponencial: retryDelay · 2^tentativa
+const HTTP_RETRY_DELAY_MS = 250;
+const HTTP_TIMEOUT_MS = 10_000;
+// Buckets de RPCs de users: só os usados mais recentemente (LRU)
+const MAX_USER_BUCKETS = 500;
+
+const buckets = new Map<string, TokenBucket>();
+const userBuckets = new Map<string, TokenBucket>();
+
+function getBucket(url: string, source: RpcEndpointSource) {
+  const entries = source === "user" ? userBuckets : buckets;
+  let bucket = entries.get(url);
+  if (bucket && source === "user") {
+    userBuckets.delete(url);
+    userBuckets.set(url, bucket);
+  }
+  if (!bucket) {
+    const rps = Number(process.env.RPC_MAX_RPS ?? DEFAULT_MAX_RPS);
+    bucket = createTokenBucket(
+      Number.isFinite(rps) && rps > 0 ? rps : DEFAULT_MAX_RPS,
+    );
+    entries.set(url, bucket);
+    while (userBuckets.size > MAX_USER_BUCKETS) {
+      const oldest = userBuckets.keys().next().value;
+      if (oldest === undefined) break;
+      userBuckets.delete(oldest);
+    }
+  }
+  return bucket;
+}
+
+/**
+ * Endpoints de uma chain: `<CHAIN>_RPC_URL` aceita vários URLs separados por
+ * vírgula; o RPC público do registo fica sempre como último recurso.
+ */
+export function getRpcEndpoints(chain: AaveChain) {
+  const config = AAVE_CHAINS[chain];
+  const configured = (process.env[config.rpcEnv] ?? "")
+    .split(",")
+    .map((url) => url.trim())
+    .filter(Boolean);
+  return Array.from(new Set([...configured, config.defaultRpcUrl]));
+}
+
+function createEndpointTransport(
+  chain: AaveChain,
+  url: string,
+  source: RpcEndpointSource,
+) {
+  const bucket = getBucket(url, source);
+  return http(url, {
+    retryCount: HTTP_RETRY_COUNT,
+    retryDelay: HTTP_RETRY_DELAY_MS,
+    timeout: HTTP_TIMEOUT_MS,
+    fetchFn: async (input, init) => {
+      await bucket.take();
+      const startedAt = Date.now();
+      try {
+        // RPC do user: o host é verificado a cada pedido (DNS pode mudar)
+        const response =
+          source === "user"
+            ? await safeFetch(url, init)
+            : await fetch(input, init);
+        if (response.ok) {
+          recordRpcSuccess(chain, url, source, Date.now() - startedAt);
+        } else {
+          recordRpcFailure(chain, url, source, `HTTP ${response.status}`);
+        }
+        return response;
+      } catch (error) {
+        recordRpcFailure(
+          chain,
+          url,
+          source,
+          error instanceof Error ? error.message : String(error),
+        );
+        throw error;
+      }
+    },
+  });
+}
+
+/**
+ * Client viem partilhado por Aave, Compound e Morpho: fallback entre os
+ * endpoints da chain, com rate limit por endpoint e os que estão em cooldown
+ * (falhas seguidas) passados para o fim da fila. O RPC do user do pedido
+ * (Settings) vem primeiro, com os do env como failover.
+ */
+export function getRpcClient(chain: AaveChain) {
+  const config = AAVE_CHAINS[chain];
+  const now = Date.now();
+  const userUrl = getRpcOverride(chain);
+  const endpoints = getRpcEndpoints(chain).filter((url) => url !== userUrl);
+  const ordered = [
+    ...endpoints.filter((url) => !isRpcCoolingDown(url, now)),
+    ...endpoints.filter((url) => isRpcCoolingDown(url, now)),
+  ];
+  const transports = [
+    ...(userUrl ? [createEndpointTransport(chain, userUrl, "user")] : []),
+    ...ordered.map((url) => createEndpointTransport(chain, url, "env")),
+  ];
+  return createPublicClient({
+    chain: config.viemChain,
+    transport: fallback(transports, { retryCount: 1, retryDelay: 500 }),
+  });
+}
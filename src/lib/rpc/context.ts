@@ -0,0 +1,28 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { createHash } from "node:crypto";
+
+import type { AaveChain } from "@/lib/aave/addresses";
+
+/** RPC por chain escolhido pelo user do pedido atual. */
+export type RpcOverrides = Partial<Record<AaveChain, string>>;
+
+const storage = new AsyncLocalStorage<RpcOverrides>();
+
+export function runWithRpcOverrides<T>(overrides: RpcOverrides, fn: () => T) {
+  return storage.run(overrides, fn);
+}
+
+export function getRpcOverride(chain: AaveChain) {
+  return storage.getStore()?.[chain] ?? null;
+}
+
+/**
+ * Chave de cache para dados lidos por RPC: com um RPC do user, leva um hash
+ * do URL, para que o que esse RPC devolve nunca seja servido a outros users.
+ */
+export function rpcCacheKey(chain: AaveChain, key: string) {
+  const override = getRpcOverride(chain);
+  if (!override) return key;
+  const digest = createHash("sha256").update(override).digest("hex");
+  return `${key}:rpc:${digest.slice(0, 16)}`;
+}
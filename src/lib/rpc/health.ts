@@ -0,0 +1,111 @@
+export type RpcEndpointSource = "env" | "user";
+
+export type RpcEndpointHealth = {
+  /** Só a origem do URL: paths e query costumam levar API keys. */
+  endpoint: string;
+  chain: string;
+  /** "user": endpoint configurado por um user (fora de getRpcHealth). */
+  source: RpcEndpointSource;
+  successes: number;
+  failures: number;
+  consecutiveFailures: number;
+  avgLatencyMs: number | null;
+  lastError: string | null;
+  lastErrorAt: number | null;
+  cooldownUntil: number | null;
+};
+
+// Falhas seguidas até pôr o endpoint em cooldown (vai para o fim da fila)
+const FAILURES_BEFORE_COOLDOWN = 3;
+const BASE_COOLDOWN_MS = 30_000;
+const MAX_COOLDOWN_MS = 5 * 60_000;
+// Peso da última amostra na média móvel de latência
+const LATENCY_ALPHA = 0.2;
+// Endpoints de users são ilimitados: guarda só os usados mais recentemente
+const MAX_USER_ENDPOINTS = 500;
+
+const health = new Map<string, RpcEndpointHealth>();
+// LRU (ordem de inserção do Map): cada uso reinsere o URL no fim
+const userHealth = new Map<string, RpcEndpointHealth>();
+
+function maskEndpoint(url: string) {
+  try {
+    return new URL(url).origin;
+  } catch {
+    return "invalid-url";
+  }
+}
+
+function getEntry(chain: string, url: string, source: RpcEndpointSource) {
+  const entries = source === "user" ? userHealth : health;
+  let entry = entries.get(url);
+  if (entry && source === "user") {
+    userHealth.delete(url);
+    userHealth.set(url, entry);
+  }
+  if (!entry) {
+    entry = {
+      endpoint: maskEndpoint(url),
+      chain,
+      source,
+      successes: 0,
+      failures: 0,
+      consecutiveFailures: 0,
+      avgLatencyMs: null,
+      lastError: null,
+      lastErrorAt: null,
+      cooldownUntil: null,
+    };
+    entries.set(url, entry);
+    while (userHealth.size > MAX_USER_ENDPOINTS) {
+      const oldest = userHealth.keys().next().value;
+      if (oldest === undefined) break;
+      userHealth.delete(oldest);
+    }
+  }
+  return entry;
+}
+
+export function recordRpcSuccess(
+  chain: string,
+  url: string,
+  source: RpcEndpointSource,
+  latencyMs: number,
+) {
+  const entry = getEntry(chain, url, source);
+  entry.successes += 1;
+  entry.consecutiveFailures = 0;
+  entry.cooldownUntil = null;
+  entry.avgLatencyMs =
+    entry.avgLatencyMs === null
+      ? latencyMs
+      : entry.avgLatencyMs * (1 - LATENCY_ALPHA) + latencyMs * LATENCY_ALPHA;
+}
+
+export function recordRpcFailure(
+  chain: string,
+  url: string,
+  source: RpcEndpointSource,
+  error: string,
+) {
+  const entry = getEntry(chain, url, source);
+  entry.failures += 1;
+  entry.consecutiveFailures += 1;
+  entry.lastError = error;
+  entry.lastErrorAt = Date.now();
+  if (entry.consecutiveFailures >= FAILURES_BEFORE_COOLDOWN) {
+    const exponent = entry.consecutiveFailures - FAILURES_BEFORE_COOLDOWN;
+    entry.cooldownUntil =
+      Date.now() + Math.min(MAX_COOLDOWN_MS, BASE_COOLDOWN_MS * 2 ** exponent);
+  }
+}
+
+export function isRpcCoolingDown(url: string, now = Date.now()) {
+  const cooldownUntil = health.get(url)?.cooldownUntil;
+  return Boolean(cooldownUntil && cooldownUntil > now);
+}
+
+/** Estado dos endpoints do env usados por esta instância. */
+export function getRpcHealth(): RpcEndpointHealth[] {
+  return Array.from(health.values()).map((entry) => ({ ...entry }));
+}
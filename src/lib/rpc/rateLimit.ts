@@ -0,0 +1,36 @@
+export type TokenBucket = {
+  /** Espera pelo próximo token em vez de falhar. */
+  take: () => Promise<void>;
+};
+
+/** Token bucket: `ratePerSecond` tokens por segundo, até `burst` acumulados. */
+export function createTokenBucket(
+  ratePerSecond: number,
+  burst: number = ratePerSecond,
+): TokenBucket {
+  let tokens = burst;
+  let updatedAt = Date.now();
+
+  const refill = () => {
+    const now = Date.now();
+    tokens = Math.min(
+      burst,
+      tokens + ((now - updatedAt) / 1000) * ratePerSecond,
+    );
+    updatedAt = now;
+  };
+
+  return {
+    async take() {
+      for (;;) {
+        refill();
+        if (tokens >= 1) {
+          tokens -= 1;
+          return;
+        }
+        const waitMs = Math.ceil(((1 - tokens) / ratePerSecond) * 1000);
+        await new Promise((resolve) => setTimeout(resolve, waitMs));
+      }
+    },
+  };
+}
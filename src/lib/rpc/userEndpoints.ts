@@ -0,0 +1,131 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import type { AaveChain } from "@/lib/aave/addresses";
+import { AAVE_CHAINS, parseAaveChain } from "@/lib/aave/chains";
+import { RpcOverrides, runWithRpcOverrides } from "@/lib/rpc/context";
+import { isPrivateHost, safeFetch } from "@/lib/safeFetch";
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+
+const VALIDATION_TIMEOUT_MS = 5_000;
+
+/**
+ * Revalida um URL guardado antes de o usar: a linha pode não ter passado por
+ * validateRpcEndpoint (escrita antiga ou direta na BD).
+ */
+export function isAllowedRpcUrl(value: string) {
+  try {
+    const url = new URL(value);
+    return url.protocol === "https:" && !isPrivateHost(url.hostname);
+  } catch {
+    return false;
+  }
+}
+
+export type RpcEndpointRow = {
+  chain: string;
+  url: string;
+  chain_id: number;
+  updated_at: string;
+};
+
+export async function loadUserRpcOverrides(
+  supabase: SupabaseClient,
+  userId: string,
+): Promise<RpcOverrides> {
+  const { data, error } = await supabase
+    .from("user_rpc_endpoints")
+    .select("chain,url")
+    .eq("user_id", userId);
+  if (error) {
+    console.warn("rpc.user-endpoints", error.message);
+    return {};
+  }
+  return (data ?? []).reduce<RpcOverrides>((acc, row) => {
+    const chain = parseAaveChain(row.chain);
+    if (!chain) return acc;
+    if (isAllowedRpcUrl(row.url)) {
+      acc[chain] = row.url;
+    } else {
+      console.warn("rpc.user-endpoints.rejected", userId, chain);
+    }
+    return acc;
+  }, {});
+}
+
+/** Corre `fn` com os RPCs do user (se houver sessão); senão só com os do env. */
+export async function runWithUserRpc<T>(
+  supabase: SupabaseClient,
+  userId: string | null | undefined,
+  fn: () => Promise<T>,
+) {
+  const overrides = userId ? await loadUserRpcOverrides(supabase, userId) : {};
+  return runWithRpcOverrides(overrides, fn);
+}
+
+/** Envolve um handler de rota para usar os RPCs do user autenticado. */
+export function withUserRpc<TArgs extends unknown[]>(
+  handler: (...args: TArgs) => Promise<Response>,
+) {
+  return async (...args: TArgs) => {
+    const supabase = await createSupabaseServerClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    return runWithUserRpc(supabase, user?.id, () => handler(...args));
+  };
+}
+
+/**
+ * Valida um RPC antes de o guardar: https, host público e `eth_chainId`
+ * igual ao da chain. Devolve o chain id ou a mensagem de erro.
+ */
+export async function validateRpcEndpoint(
+  chain: AaveChain,
+  value: string,
+): Promise<{ chainId: number } | { error: string }> {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return { error: "URL inválido." };
+  }
+  if (url.protocol !== "https:") {
+    return { error: "O RPC tem de usar https." };
+  }
+  if (isPrivateHost(url.hostname)) {
+    return { error: "Endereços locais ou de rede privada não são permitidos." };
+  }
+
+  const expected = AAVE_CHAINS[chain].viemChain.id;
+  try {
+    const response = await safeFetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        jsonrpc: "2.0",
+        id: 1,
+        method: "eth_chainId",
+        params: [],
+      }),
+      cache: "no-store",
+      signal: AbortSignal.timeout(VALIDATION_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      return { error: `O RPC respondeu HTTP ${response.status}.` };
+    }
+    const payload = (await response.json()) as { result?: string };
+    const chainId = payload.result ? Number.parseInt(payload.result, 16) : NaN;
+    if (!Number.isFinite(chainId)) {
+      return { error: "Resposta inválida a eth_chainId." };
+    }
+    if (chainId !== expected) {
+      return {
+        error: `Chain id ${chainId} não corresponde a ${AAVE_CHAINS[chain].label} (${expected}).`,
+      };
+    }
+    return { chainId };
+  } catch (error) {
+    console.warn("rpc.validate", chain, error);
+    return { error: "Não foi possível contactar o RPC." };
+  }
+}
@@ -0,0 +1,99 @@
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+
+import { isPrivateAddress, safeFetch } from "@/lib/safeFetch";
+
+// Qualquer nome resolve para um IP privado, como num DNS rebinding
+vi.mock("node:dns", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("node:dns")>();
+  return {
+    ...actual,
+    lookup: vi.fn((_hostname, _options, callback) =>
+      callback(null, [{ address: "10.0.0.7", family: 4 }]),
+    ),
+  };
+});
+
+describe("isPrivateAddress", () => {
+  it.each([
+    "10.1.2.3",
+    "127.0.0.1",
+    "169.254.169.254",
+    "fd12:3456::1",
+    "::ffff:127.0.0.1",
+    "::ffff:7f00:1",
+    "fe80::1%eth0",
+  ])("%s é privado", (ip) => {
+    expect(isPrivateAddress(ip)).toBe(true);
+  });
+
+  it.each(["8.8.8.8", "2606:4700::1111", "::ffff:8.8.8.8"])(
+    "%s é público",
+    (ip) => {
+      expect(isPrivateAddress(ip)).toBe(false);
+    },
+  );
+});
+
+describe("safeFetch", () => {
+  it("recusa IPs privados literais", async () => {
+    await expect(safeFetch("http://10.0.0.1/")).rejects.toThrow(
+      "Host privado não permitido.",
+    );
+    await expect(safeFetch("http://[fd00::1]/")).rejects.toThrow(
+      "Host privado não permitido.",
+    );
+    await expect(safeFetch("http://[::ffff:127.0.0.1]/")).rejects.toThrow(
+      "Host privado não permitido.",
+    );
+  });
+
+  it("recusa nomes que resolvem para IPs privados ao ligar", async () => {
+    const error = await safeFetch("http://rebind.example.com/").catch(
+      (err: unknown) => err,
+    );
+    expect(error).toBeInstanceOf(TypeError);
+    expect((error as TypeError).cause).toMatchObject({
+      message: "Host resolve para um endereço privado.",
+    });
+  });
+
+  describe("redirects", () => {
+    let server: Server;
+    let hits = 0;
+
+    beforeAll(async () => {
+      server = createServer((_req, res) => {
+        hits += 1;
+        res.writeHead(302, { location: "http://169.254.169.254/" }).end();
+      });
+      await new Promise<void>((resolve) =>
+        server.listen(0, "127.0.0.1", resolve),
+      );
+    });
+
+    afterAll(async () => {
+      vi.restoreAllMocks();
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    it("não segue redirects", async () => {
+      // Sem rede nos testes: o pedido vai para o servidor local com o mesmo init
+      const realFetch = globalThis.fetch;
+      const { port } = server.address() as AddressInfo;
+      vi.spyOn(globalThis, "fetch").mockImplementation((_input, init) => {
+        expect(init).toMatchObject({ redirect: "error" });
+        return realFetch(`http://127.0.0.1:${port}/`, {
+          method: init?.method,
+          redirect: init?.redirect,
+        });
+      });
+
+      await expect(safeFetch("https://hooks.example.com/")).rejects.toThrow(
+        TypeError,
+      );
+      expect(hits).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,156 @@
+import { lookup, type LookupAddress } from "node:dns";
+import { isIP, type LookupFunction } from "node:net";
+import { Agent } from "undici";
+
+// Redes que o servidor não deve chamar em nome de um user (base, prefixo)
+const PRIVATE_IPV4_RANGES: Array<[string, number]> = [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.0.2.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["198.51.100.0", 24],
+  ["203.0.113.0", 24],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+];
+
+function ipv4ToNumber(ip: string) {
+  return ip.split(".").reduce((acc, part) => acc * 256 + Number(part), 0);
+}
+
+function isPrivateIpv4(ip: string) {
+  const value = ipv4ToNumber(ip);
+  return PRIVATE_IPV4_RANGES.some(([base, bits]) => {
+    const start = ipv4ToNumber(base);
+    return value >= start && value < start + 2 ** (32 - bits);
+  });
+}
+
+// 8 grupos de 16 bits; aceita "::" e o IPv4 no fim (::ffff:1.2.3.4)
+function parseIpv6(ip: string) {
+  let address = ip;
+  const embedded: number[] = [];
+  const ipv4 = address.match(/(\d+\.\d+\.\d+\.\d+)$/);
+  if (ipv4) {
+    const value = ipv4ToNumber(ipv4[1]);
+    embedded.push(Math.floor(value / 65536), value % 65536);
+    address = address.slice(0, -ipv4[1].length);
+    if (address.endsWith(":") && !address.endsWith("::")) {
+      address = address.slice(0, -1);
+    }
+  }
+  const toGroups = (part: string) =>
+    part ? part.split(":").map((group) => Number.parseInt(group, 16)) : [];
+  const [head, tail] = address.split("::");
+  const headGroups = toGroups(head);
+  const tailGroups = [...toGroups(tail ?? ""), ...embedded];
+  const missing = 8 - headGroups.length - tailGroups.length;
+  return [
+    ...headGroups,
+    ...Array.from({ length: Math.max(0, missing) }, () => 0),
+    ...tailGroups,
+  ];
+}
+
+function groupsToIpv4(high: number, low: number) {
+  return [high >> 8, high & 0xff, low >> 8, low & 0xff].join(".");
+}
+
+function isPrivateIpv6(ip: string) {
+  const groups = parseIpv6(ip);
+  const zeroUntil = (end: number) =>
+    groups.slice(0, end).every((group) => group === 0);
+
+  // ::, ::1 e IPv4-compatible (::a.b.c.d, obsoleto)
+  if (zeroUntil(6)) return true;
+  // IPv4-mapped (::ffff:a.b.c.d) e NAT64 (64:ff9b::a.b.c.d)
+  if (
+    (zeroUntil(5) && groups[5] === 0xffff) ||
+    (groups[0] === 0x64 && groups[1] === 0xff9b && groups[2] === 0)
+  ) {
+    return isPrivateIpv4(groupsToIpv4(groups[6], groups[7]));
+  }
+  // 6to4 (2002:aabb:ccdd::)
+  if (groups[0] === 0x2002) {
+    return isPrivateIpv4(groupsToIpv4(groups[1], groups[2]));
+  }
+  const first = groups[0];
+  return (
+    (first & 0xfe00) === 0xfc00 || // unique local fc00::/7
+    (first & 0xffc0) === 0xfe80 || // link-local fe80::/10
+    (first & 0xffc0) === 0xfec0 || // site-local fec0::/10
+    (first & 0xff00) === 0xff00 || // multicast
+    (first === 0x2001 && groups[1] === 0x0db8) // documentação
+  );
+}
+
+/** IP literal (v4 ou v6) de uma rede privada, local ou reservada. */
+export function isPrivateAddress(ip: string) {
+  const address = ip.split("%")[0];
+  const version = isIP(address);
+  if (version === 4) return isPrivateIpv4(address);
+  if (version === 6) return isPrivateIpv6(address.toLowerCase());
+  return false;
+}
+
+function normalizeHostname(hostname: string) {
+  return hostname
+    .toLowerCase()
+    .replace(/^\[|\]$/g, "")
+    .replace(/\.$/, "");
+}
+
+/**
+ * Hosts que o servidor não deve chamar em nome de um user, só pelo nome: IPs
+ * literais privados, localhost e nomes sem domínio. Um nome público pode
+ * resolver para um IP privado; antes de cada pedido usar assertPublicHost.
+ */
+export function isPrivateHost(hostname: string) {
+  const host = normalizeHostname(hostname);
+  if (isIP(host.split("%")[0])) return isPrivateAddress(host);
+  return (
+    !host.includes(".") ||
+    host === "localhost" ||
+    host.endsWith(".localhost") ||
+    host.endsWith(".internal")
+  );
+}
+
+// Resolve e valida no momento da ligação: o socket liga-se ao IP verificado,
+// sem segunda resolução que um DNS rebinding possa trocar
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, "");
+    const resolved = addresses as LookupAddress[];
+    if (
+      !resolved.length ||
+      resolved.some(({ address }) => isPrivateAddress(address))
+    ) {
+      return callback(new Error("Host resolve para um endereço privado."), "");
+    }
+    if (options.all) return callback(null, resolved);
+    callback(null, resolved[0].address, resolved[0].family);
+  });
+};
+
+const publicAgent = new Agent({ connect: { lookup: publicLookup } });
+
+/** fetch para URLs indicados por users: só liga a IPs públicos e sem redirects. */
+export async function safeFetch(url: string | URL, init: RequestInit = {}) {
+  if (isPrivateHost(new URL(url).hostname)) {
+    throw new Error("Host privado não permitido.");
+  }
+  // dispatcher não existe no RequestInit do DOM, mas o fetch do Node aceita-o
+  const pinned: RequestInit & { dispatcher: Agent } = {
+    ...init,
+    redirect: "error",
+    dispatcher: publicAgent,
+  };
+  return fetch(url, pinned);
+}
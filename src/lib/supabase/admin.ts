@@ -0,0 +1,16 @@
+import { createClient } from "@supabase/supabase-js";
+
+/**
+ * Client com a service role (ignora a RLS): só para escritas que o servidor
+ * valida antes, nunca exposto ao browser.
+ */
+export function createSupabaseAdminClient() {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL ?? "";
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY ?? "";
+  if (!url || !serviceKey) {
+    throw new Error("Missing Supabase service role configuration.");
+  }
+  return createClient(url, serviceKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+}
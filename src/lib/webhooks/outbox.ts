@@ -0,0 +1,232 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import { safeFetch } from "@/lib/safeFetch";
+import { createSupabaseAdminClient } from "@/lib/supabase/admin";
+import {
+  generateWebhookSecret,
+  signedWebhookHeaders,
+} from "@/lib/webhooks/signature";
+
+const WEBHOOK_TIMEOUT_MS = 10_000;
+const MAX_ATTEMPTS = Number(process.env.WEBHOOK_MAX_ATTEMPTS ?? 8);
+const RETRY_BASE_MS = 30_000;
+const RETRY_MAX_MS = 6 * 60 * 60 * 1000;
+// Reserva da linha durante uma tentativa: o cron não lhe pega entretanto
+const LEASE_MS = 2 * WEBHOOK_TIMEOUT_MS;
+
+export type WebhookStatus = "pending" | "delivered" | "failed";
+
+/** user = URL indicado pelo user; operator = URL do env do servidor. */
+export type WebhookTarget = "user" | "operator";
+
+/** Linha de `webhook_outbox`. */
+export type WebhookOutboxRow = {
+  id: string;
+  user_id: string;
+  url: string;
+  target: WebhookTarget;
+  event: string;
+  payload: Record<string, unknown>;
+  status: WebhookStatus;
+  attempts: number;
+  next_attempt_at: string | null;
+  last_status_code: number | null;
+  last_error: string | null;
+  delivered_at: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+let admin: SupabaseClient | null = null;
+
+// O outbox é escrito pelo servidor (service role); o user só lê
+function getAdminClient() {
+  admin ??= createSupabaseAdminClient();
+  return admin;
+}
+
+/** Espera antes da tentativa n+1: 30s, 1m, 2m, ... até 6h. */
+export function retryDelayMs(attempts: number) {
+  return Math.min(RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1), RETRY_MAX_MS);
+}
+
+/** Secret com que os webhooks do user são assinados (criado no primeiro uso). */
+export async function getWebhookSecret(userId: string) {
+  const supabase = getAdminClient();
+  const { data, error } = await supabase
+    .from("user_webhook_secrets")
+    .select("secret")
+    .eq("user_id", userId)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  if (data?.secret) return data.secret as string;
+
+  // ignoreDuplicates: dois pedidos em paralelo ficam com o mesmo secret
+  const { error: insertError } = await supabase
+    .from("user_webhook_secrets")
+    .upsert(
+      { user_id: userId, secret: generateWebhookSecret() },
+      { onConflict: "user_id", ignoreDuplicates: true },
+    );
+  if (insertError) throw new Error(insertError.message);
+  return getWebhookSecret(userId);
+}
+
+export async function rotateWebhookSecret(userId: string) {
+  const secret = generateWebhookSecret();
+  const { error } = await getAdminClient()
+    .from("user_webhook_secrets")
+    .upsert(
+      { user_id: userId, secret, rotated_at: new Date().toISOString() },
+      { onConflict: "user_id" },
+    );
+  if (error) throw new Error(error.message);
+  return secret;
+}
+
+/**
+ * Uma tentativa de entrega. Falhou: agenda a próxima com backoff exponencial
+ * ou, esgotadas as tentativas, marca como "failed" (fica disponível para
+ * replay em Settings).
+ */
+export async function attemptWebhookDelivery(
+  row: WebhookOutboxRow,
+): Promise<WebhookOutboxRow> {
+  const attempts = row.attempts + 1;
+  let statusCode: number | null = null;
+  let deliveryError: string | null = null;
+  try {
+    const secret = await getWebhookSecret(row.user_id);
+    const body = JSON.stringify(row.payload);
+    // Só os URLs de users passam pela verificação de host público; os do
+    // operador (ex.: n8n na rede interna) são de confiança
+    const send = row.target === "operator" ? fetch : safeFetch;
+    const response = await send(row.url, {
+      method: "POST",
+      headers: signedWebhookHeaders(secret, row.id, body),
+      body,
+      redirect: "error",
+      cache: "no-store",
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+    statusCode = response.status;
+    // O corpo da resposta nunca é guardado nem devolvido ao user
+    await response.body?.cancel().catch(() => undefined);
+    if (!response.ok) {
+      deliveryError = `HTTP ${response.status}`;
+    }
+  } catch (error) {
+    console.warn("webhooks.deliver.error", row.id, error);
+    deliveryError =
+      error instanceof Error && error.name === "TimeoutError"
+        ? "O recetor não respondeu a tempo."
+        : "Não foi possível contactar o recetor.";
+  }
+
+  const now = Date.now();
+  const delivered = deliveryError === null;
+  const exhausted = !delivered && attempts >= MAX_ATTEMPTS;
+  const update = {
+    attempts,
+    status: delivered ? "delivered" : exhausted ? "failed" : "pending",
+    next_attempt_at:
+      delivered || exhausted
+        ? null
+        : new Date(now + retryDelayMs(attempts)).toISOString(),
+    last_status_code: statusCode,
+    last_error: deliveryError,
+    delivered_at: delivered ? new Date(now).toISOString() : null,
+    updated_at: new Date(now).toISOString(),
+  } satisfies Partial<WebhookOutboxRow>;
+
+  const { error } = await getAdminClient()
+    .from("webhook_outbox")
+    .update(update)
+    .eq("id", row.id);
+  if (error) {
+    console.error("webhooks.outbox.update", row.id, error);
+  }
+  if (!delivered) {
+    console.warn("webhooks.deliver", row.id, attempts, deliveryError);
+  }
+  return { ...row, ...update };
+}
+
+function leaseUntil() {
+  return new Date(Date.now() + LEASE_MS).toISOString();
+}
+
+/** Grava no outbox e tenta já; as falhas ficam para o cron de webhooks. */
+export async function enqueueWebhook(params: {
+  userId: string;
+  url: string;
+  /** Por defeito "user": o URL só é chamado se o host for público. */
+  target?: WebhookTarget;
+  event: string;
+  payload: Record<string, unknown>;
+}) {
+  const { data, error } = await getAdminClient()
+    .from("webhook_outbox")
+    .insert({
+      user_id: params.userId,
+      url: params.url,
+      target: params.target ?? "user",
+      event: params.event,
+      payload: params.payload,
+      status: "pending",
+      next_attempt_at: leaseUntil(),
+    })
+    .select("*")
+    .single();
+  if (error) throw new Error(error.message);
+  return attemptWebhookDelivery(data as WebhookOutboxRow);
+}
+
+/** Volta a enviar uma entrega do user, com as tentativas a zero. */
+export async function replayWebhook(userId: string, id: string) {
+  const { data, error } = await getAdminClient()
+    .from("webhook_outbox")
+    .update({
+      status: "pending",
+      attempts: 0,
+      next_attempt_at: leaseUntil(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq("user_id", userId)
+    .eq("id", id)
+    .select("*")
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  return data ? attemptWebhookDelivery(data as WebhookOutboxRow) : null;
+}
+
+/** Entregas pendentes cuja próxima tentativa já passou (cron de webhooks). */
+export async function processWebhookOutbox(limit = 50) {
+  const { data, error } = await getAdminClient()
+    .from("webhook_outbox")
+    .select("*")
+    .eq("status", "pending")
+    .lte("next_attempt_at", new Date().toISOString())
+    .order("next_attempt_at", { ascending: true })
+    .limit(limit);
+  if (error) throw new Error(error.message);
+
+  const summary = { processed: 0, delivered: 0, pending: 0, failed: 0 };
+  // Em série: poucos envios por run e sem rajadas para o mesmo recetor
+  for (const row of (data ?? []) as WebhookOutboxRow[]) {
+    // Só quem muda o next_attempt_at lido fica com a linha (runs sobrepostos)
+    const { data: claimed, error: claimError } = await getAdminClient()
+      .from("webhook_outbox")
+      .update({ next_attempt_at: leaseUntil() })
+      .eq("id", row.id)
+      .eq("status", "pending")
+      .eq("next_attempt_at", row.next_attempt_at)
+      .select("id")
+      .maybeSingle();
+    if (claimError || !claimed) continue;
+    const result = await attemptWebhookDelivery(row);
+    summary.processed += 1;
+    summary[result.status] += 1;
+  }
+  return summary;
+}
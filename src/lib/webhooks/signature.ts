@@ -0,0 +1,35 @@
+import { createHmac, randomBytes } from "node:crypto";
+
+export function generateWebhookSecret() {
+  return randomBytes(32).toString("hex");
+}
+
+/**
+ * Assinatura do corpo: HMAC-SHA256 de `${timestamp}.${body}` com o secret do
+ * user. O recetor recalcula e rejeita timestamps antigos (replay).
+ */
+export function signWebhookBody(
+  secret: string,
+  timestamp: number,
+  body: string,
+) {
+  return createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+}
+
+/** Headers de um POST assinado; `id` permite ao recetor ignorar repetidos. */
+export function signedWebhookHeaders(
+  secret: string,
+  id: string,
+  body: string,
+  nowMs = Date.now(),
+) {
+  const timestamp = Math.floor(nowMs / 1000);
+  return {
+    "Content-Type": "application/json",
+    "X-Webhook-Id": id,
+    "X-Webhook-Timestamp": String(timestamp),
+    "X-Webhook-Signature": `sha256=${signWebhookBody(secret, timestamp, body)}`,
+  };
+}
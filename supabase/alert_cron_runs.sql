@@ -0,0 +1,30 @@
+-- Run reports of the alerts cron (/api/cron/alerts)
+-- Safe to run multiple times.
+
+create table if not exists alert_cron_runs (
+  id uuid primary key default gen_random_uuid(),
+  started_at timestamptz not null,
+  finished_at timestamptz not null,
+  duration_ms integer not null,
+  -- ok: todas as wallets lidas; partial: algumas falharam; error: run abortado
+  status text not null check (status in ('ok', 'partial', 'error')),
+  wallets integer not null default 0,
+  checked integer not null default 0,
+  skipped integer not null default 0,
+  failed integer not null default 0,
+  alerted integer not null default 0,
+  notifications_sent integer not null default 0,
+  notifications_failed integer not null default 0,
+  -- [{ walletId, userId, error }] das wallets que falharam
+  errors jsonb not null default '[]'::jsonb,
+  error text
+);
+
+create index if not exists alert_cron_runs_started_idx
+on alert_cron_runs (started_at desc);
+
+-- RLS: sem policies, só a service role (servidor) lê e escreve
+alter table alert_cron_runs enable row level security;
+
+-- Limpeza opcional de runs antigos:
+-- delete from alert_cron_runs where started_at < now() - interval '30 days';
@@ -0,0 +1,18 @@
+-- Shared cache for on-chain reads and prices (CACHE_BACKEND=supabase)
+-- Safe to run multiple times.
+
+create table if not exists cache_entries (
+  key text primary key,
+  value text not null,
+  stale_until timestamptz not null,
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists cache_entries_stale_until_idx
+on cache_entries (stale_until);
+
+-- RLS: sem policies, só a service role (servidor) lê e escreve
+alter table cache_entries enable row level security;
+
+-- As entradas que já não podem ser servidas (stale_until < now()) são apagadas
+-- pelo servidor em lotes, a partir das escritas (src/lib/cache/supabase.ts)
@@ -0,0 +1,11 @@
+-- Multiple Comet markets per chain (Compound): market = base asset do Comet
+-- Safe to run multiple times.
+
+alter table user_wallets add column if not exists market text;
+
+-- Wallets antigas ficam com market null (usa COMPOUND_COMET_<CHAIN> ou USDC)
+alter table user_wallets
+  drop constraint if exists user_wallets_user_id_address_chain_protocol_key;
+
+create unique index if not exists user_wallets_user_address_chain_protocol_market_key
+on user_wallets (user_id, address, chain, protocol, coalesce(market, ''));
@@ -0,0 +1,48 @@
+-- Notification channels per user (email, Telegram, Discord, Slack, webhook) and delivery log
+-- Safe to run multiple times.
+
+create table if not exists notification_channels (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  type text not null
+    check (type in ('email', 'telegram', 'discord', 'slack', 'webhook')),
+  name text not null,
+  -- email: to; telegram: chatId; discord/slack/webhook: url
+  config jsonb not null default '{}'::jsonb,
+  enabled boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists notification_channels_user_idx
+  on notification_channels (user_id);
+
+create table if not exists notification_deliveries (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  channel_id uuid references notification_channels(id) on delete set null,
+  channel_type text not null,
+  wallet_id uuid references user_wallets(id) on delete set null,
+  alert_kind text,
+  subject text not null,
+  status text not null check (status in ('sent', 'failed')),
+  error text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists notification_deliveries_user_created_idx
+  on notification_deliveries (user_id, created_at desc);
+
+-- RLS
+alter table notification_channels enable row level security;
+alter table notification_deliveries enable row level security;
+
+drop policy if exists "manage notification channels" on notification_channels;
+create policy "manage notification channels" on notification_channels
+for all using (user_id = auth.uid())
+with check (user_id = auth.uid());
+
+-- O log é escrito pelo servidor (service role); o user só lê
+drop policy if exists "read notification deliveries" on notification_deliveries;
+create policy "read notification deliveries" on notification_deliveries
+for select using (user_id = auth.uid());
@@ -0,0 +1,21 @@
+-- Cached historical price series (CoinGecko) for stress replays
+-- Safe to run multiple times.
+
+create table if not exists price_series (
+  coin_id text not null,
+  ts timestamptz not null,
+  price_usd numeric not null,
+  created_at timestamptz not null default now(),
+  primary key (coin_id, ts)
+);
+
+-- RLS: preços são públicos, partilhados entre users autenticados; só o
+-- servidor (service role) escreve, para ninguém envenenar as séries dos outros
+alter table price_series enable row level security;
+
+drop policy if exists "read price series" on price_series;
+create policy "read price series" on price_series
+for select using (auth.role() = 'authenticated');
+
+drop policy if exists "cache price series" on price_series;
+drop policy if exists "refresh price series" on price_series;
@@ -0,0 +1,20 @@
+-- Per-user display preferences (Settings)
+-- Safe to run multiple times.
+
+create table if not exists user_preferences (
+  user_id uuid primary key references auth.users(id) on delete cascade,
+  rate_display text not null default 'apr'
+    check (rate_display in ('apr', 'apy')),
+  updated_at timestamptz not null default now()
+);
+
+-- Candidatos a borrow (símbolos); null = lista default
+alter table user_preferences add column if not exists borrow_candidates text[];
+
+-- RLS
+alter table user_preferences enable row level security;
+
+drop policy if exists "manage preferences" on user_preferences;
+create policy "manage preferences" on user_preferences
+for all using (user_id = auth.uid())
+with check (user_id = auth.uid());
@@ -0,0 +1,26 @@
+-- Per-user RPC endpoints (one per chain), used server-side for that user's reads
+-- Safe to run multiple times.
+
+create table if not exists user_rpc_endpoints (
+  user_id uuid not null references auth.users(id) on delete cascade,
+  chain text not null,
+  url text not null,
+  -- chain id devolvido por eth_chainId quando o endpoint foi validado
+  chain_id integer not null,
+  updated_at timestamptz not null default now(),
+  primary key (user_id, chain)
+);
+
+-- RLS
+alter table user_rpc_endpoints enable row level security;
+
+-- O user lê e apaga os seus; as escritas passam pela API (service role), que
+-- valida o URL (https, host público, eth_chainId) antes de o guardar.
+drop policy if exists "manage rpc endpoints" on user_rpc_endpoints;
+drop policy if exists "read rpc endpoints" on user_rpc_endpoints;
+create policy "read rpc endpoints" on user_rpc_endpoints
+for select using (user_id = auth.uid());
+
+drop policy if exists "delete rpc endpoints" on user_rpc_endpoints;
+create policy "delete rpc endpoints" on user_rpc_endpoints
+for delete using (user_id = auth.uid());
@@ -0,0 +1,37 @@
+-- User-defined alert rules per wallet (expressions evaluated by the alerts cron)
+-- Safe to run multiple times.
+
+create table if not exists wallet_alert_rules (
+  id uuid primary key default gen_random_uuid(),
+  wallet_id uuid not null references user_wallets(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  name text not null,
+  -- ex.: hf < 1.5 and price("WETH") < 2000 (src/lib/alerts/expression.ts)
+  expression text not null,
+  enabled boolean not null default true,
+  -- estado escrito pelo cron nas transições: condição verdadeira desde active_since
+  active boolean not null default false,
+  active_since timestamptz,
+  last_notified_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists wallet_alert_rules_wallet_idx
+  on wallet_alert_rules (wallet_id);
+
+-- RLS
+alter table wallet_alert_rules enable row level security;
+
+-- A wallet também tem de ser do user: o cron avalia a regra contra ela e
+-- notifica o dono da wallet
+drop policy if exists "manage alert rules" on wallet_alert_rules;
+create policy "manage alert rules" on wallet_alert_rules
+for all using (user_id = auth.uid())
+with check (
+  user_id = auth.uid()
+  and exists (
+    select 1 from user_wallets w
+    where w.id = wallet_id and w.user_id = auth.uid()
+  )
+);
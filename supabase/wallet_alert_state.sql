@@ -0,0 +1,48 @@
+-- Alert state per wallet (cron de alertas): last status, notifications and acknowledgement
+-- Safe to run multiple times.
+
+create table if not exists wallet_alert_state (
+  wallet_id uuid primary key references user_wallets(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  status text not null default 'OK'
+    check (status in ('OK', 'Acima do alvo', 'Risco', 'Crítico')),
+  hf double precision,
+  -- início do estado atual
+  status_since timestamptz not null default now(),
+  last_notified_at timestamptz,
+  -- estado do último alerta enviado; null depois de "resolved"
+  last_notified_status text,
+  -- reconhecido pelo user: sem lembretes até o estado mudar
+  acknowledged_at timestamptz,
+  updated_at timestamptz not null default now()
+);
+
+-- Quando o HF foi lido (queda do HF por hora nas regras de alerta)
+alter table wallet_alert_state add column if not exists hf_at timestamptz;
+
+create index if not exists wallet_alert_state_user_idx
+  on wallet_alert_state (user_id);
+
+-- RLS
+alter table wallet_alert_state enable row level security;
+
+-- O estado é escrito pelo cron (service role); o user só lê e reconhece
+-- (acknowledged_at), nas wallets que são dele
+drop policy if exists "manage alert state" on wallet_alert_state;
+drop policy if exists "read alert state" on wallet_alert_state;
+create policy "read alert state" on wallet_alert_state
+for select using (user_id = auth.uid());
+
+drop policy if exists "acknowledge alert state" on wallet_alert_state;
+create policy "acknowledge alert state" on wallet_alert_state
+for update using (user_id = auth.uid())
+with check (
+  user_id = auth.uid()
+  and exists (
+    select 1 from user_wallets w
+    where w.id = wallet_id and w.user_id = auth.uid()
+  )
+);
+
+revoke insert, update, delete on wallet_alert_state from anon, authenticated;
+grant update (acknowledged_at, updated_at) on wallet_alert_state to authenticated;
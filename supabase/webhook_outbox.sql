@@ -0,0 +1,49 @@
+-- Outbound webhooks: per-user signing secret and delivery outbox with retries
+-- Safe to run multiple times.
+
+create table if not exists user_webhook_secrets (
+  user_id uuid primary key references auth.users(id) on delete cascade,
+  secret text not null,
+  created_at timestamptz not null default now(),
+  rotated_at timestamptz
+);
+
+create table if not exists webhook_outbox (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  url text not null,
+  event text not null,
+  payload jsonb not null,
+  status text not null default 'pending'
+    check (status in ('pending', 'delivered', 'failed')),
+  attempts integer not null default 0,
+  -- próxima tentativa (backoff exponencial); null quando entregue ou esgotado
+  next_attempt_at timestamptz,
+  last_status_code integer,
+  last_error text,
+  delivered_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- De onde vem o URL: "user" (canal em Settings, só hosts públicos) ou
+-- "operator" (env do servidor, ex.: N8N_WEBHOOK_URL, pode ser rede interna)
+alter table webhook_outbox add column if not exists target text not null
+  default 'user' check (target in ('user', 'operator'));
+
+create index if not exists webhook_outbox_due_idx
+  on webhook_outbox (next_attempt_at) where status = 'pending';
+create index if not exists webhook_outbox_user_created_idx
+  on webhook_outbox (user_id, created_at desc);
+
+-- RLS: escritas pelo servidor (service role); o user só lê
+alter table user_webhook_secrets enable row level security;
+alter table webhook_outbox enable row level security;
+
+drop policy if exists "read webhook secret" on user_webhook_secrets;
+create policy "read webhook secret" on user_webhook_secrets
+for select using (user_id = auth.uid());
+
+drop policy if exists "read webhook outbox" on webhook_outbox;
+create policy "read webhook outbox" on webhook_outbox
+for select using (user_id = auth.uid());